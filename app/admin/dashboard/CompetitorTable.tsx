@@ -0,0 +1,275 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import type { RowSelectionState, SortingState, Updater } from '@tanstack/react-table';
+import { ApiError, callApi } from '@/lib/apiClient';
+import { APPLICATION_STATUSES, bulkUpdateStatusContract, type ApplicationStatus } from '@/lib/apiContracts';
+import {
+    COMPETITOR_SORT_FIELDS,
+    DEFAULT_COMPETITOR_FILTERS,
+    NARROWING_FILTERS,
+    CompetitorFilters,
+    withCompetitorFilters,
+} from '@/lib/competitorQuery';
+import type { CompetitorPage } from '@/lib/competitors';
+import { columns, selectColumn, type Competitor } from './columns';
+import { DataTable } from './data-table';
+
+interface CompetitorTableProps {
+    // URL param prefix, so each table on the page keeps its own filters
+    prefix: string;
+    filters: CompetitorFilters;
+    // null when the query failed
+    page: CompetitorPage | null;
+    pageSize: number;
+    emptyMessage: string;
+    // Blind review: no searching or sorting by identity (lib/blindReview.ts)
+    blind: boolean;
+}
+
+const inputClass = 'border rounded px-2 py-1 text-sm';
+
+const tableColumns = [selectColumn, ...columns];
+
+// Sorting by name or email would place hidden rows among known ones
+const IDENTITY_COLUMNS = ['fullName', 'email'];
+const blindColumns = tableColumns.map(column =>
+    'accessorKey' in column && IDENTITY_COLUMNS.includes(String(column.accessorKey)) ? { ...column, enableSorting: false } : column
+);
+
+const BULK_ACTIONS: { status: ApplicationStatus; label: string; className: string }[] = [
+    { status: 'Accepted', label: 'Accept', className: 'bg-green-600 hover:bg-green-700' },
+    { status: 'Rejected', label: 'Reject', className: 'bg-red-600 hover:bg-red-700' },
+    { status: 'pending', label: 'Reset to pending', className: 'bg-gray-600 hover:bg-gray-700' },
+];
+
+/**
+ * A competitor table whose filters, sort and page live in the URL. Every
+ * change navigates, and the dashboard page queries Firestore for the result.
+ */
+export default function CompetitorTable({ prefix, filters, page, pageSize, emptyMessage, blind }: CompetitorTableProps) {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const [selection, setSelection] = useState<RowSelectionState>({});
+    const [loading, setLoading] = useState(false);
+
+    // Statuses shown ahead of the server: set when a bulk action starts, rolled
+    // back if it fails, and dropped once the refreshed page arrives
+    const [statuses, setStatuses] = useState<Record<string, string>>({});
+    const [shownPage, setShownPage] = useState(page);
+    if (page !== shownPage) {
+        setShownPage(page);
+        setStatuses({});
+        setSelection({});
+    }
+
+    const rows: Competitor[] = (page?.rows ?? []).map(row =>
+        statuses[row.id] ? { ...row, status: statuses[row.id] } : row
+    );
+
+    const navigate = (next: CompetitorFilters) => {
+        const params = withCompetitorFilters(searchParams, prefix, next);
+        router.push(params.size > 0 ? `?${params}` : '?', { scroll: false });
+    };
+
+    // Any change other than paging starts again from the first page
+    const firstPage = { cursor: undefined, before: undefined, page: 1 };
+
+    const applyFilters = (e: FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        const form = Object.fromEntries(new FormData(e.currentTarget));
+        navigate(CompetitorFilters.parse({ ...form, sort: filters.sort, dir: filters.dir }));
+    };
+
+    const sorting: SortingState = page ? [{ id: page.sort, desc: page.dir === 'desc' }] : [];
+
+    const changeSorting = (updater: Updater<SortingState>) => {
+        const [next] = typeof updater === 'function' ? updater(sorting) : updater;
+        const sort = COMPETITOR_SORT_FIELDS.find(field => field === next?.id);
+        navigate({
+            ...filters,
+            ...firstPage,
+            sort: sort ?? DEFAULT_COMPETITOR_FILTERS.sort,
+            dir: sort ? (next.desc ? 'desc' : 'asc') : DEFAULT_COMPETITOR_FILTERS.dir,
+        });
+    };
+
+    const selectedIds = Object.keys(selection).filter(id => selection[id]);
+
+    const bulkUpdate = async (status: ApplicationStatus, label: string) => {
+        if (!confirm(`${label}: ${selectedIds.length} competitor(s)?`)) return;
+
+        const previous = statuses;
+        setStatuses({ ...statuses, ...Object.fromEntries(selectedIds.map(id => [id, status])) });
+        setLoading(true);
+        try {
+            const result = await callApi(
+                bulkUpdateStatusContract,
+                { competitorIds: selectedIds, status },
+                { credentials: 'include' }
+            );
+
+            const skipped = result.results.filter(item => item.result === 'not_found' || item.result === 'needs_reviews');
+            if (skipped.length > 0) {
+                const skippedIds = skipped.map(item => item.competitorId);
+                setStatuses(current => Object.fromEntries(Object.entries(current).filter(([id]) => !skippedIds.includes(id))));
+
+                const needsReviews = skipped.filter(item => item.result === 'needs_reviews').length;
+                alert(
+                    `${result.updated} updated.`
+                    + (needsReviews > 0 ? ` ${needsReviews} skipped: not enough reviews yet.` : '')
+                    + (skipped.length > needsReviews ? ` ${skipped.length - needsReviews} no longer exist.` : '')
+                );
+            }
+            setSelection({});
+            // Stats and filtered views catch up in the background
+            router.refresh();
+        } catch (error) {
+            setStatuses(previous);
+            if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+                alert('Session expired or insufficient permissions. Redirecting to login...');
+                window.location.href = '/admin';
+            } else {
+                console.error('Bulk status update failed:', error);
+                alert(error instanceof Error ? error.message : 'Failed to update statuses. Nothing was changed.');
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const filtered = NARROWING_FILTERS.some(key => filters[key] !== undefined);
+    const firstRow = (filters.page - 1) * pageSize + 1;
+
+    return (
+        <div className="space-y-3">
+            {/* Keyed by the URL so the inputs reset on back/forward and "Clear filters" */}
+            <form key={searchParams.toString()} onSubmit={applyFilters} className="flex flex-wrap items-end gap-3">
+                {!blind && (
+                    <input
+                        name="q"
+                        defaultValue={filters.q}
+                        placeholder="Search name or email"
+                        className={`${inputClass} w-56`}
+                    />
+                )}
+                <select name="status" defaultValue={filters.status ?? ''} className={inputClass}>
+                    <option value="">Any status</option>
+                    {APPLICATION_STATUSES.map(status => (
+                        <option key={status} value={status}>{status}</option>
+                    ))}
+                </select>
+                <input name="major" defaultValue={filters.major} placeholder="Major" className={`${inputClass} w-40`} />
+                {!blind && (
+                    <input name="university" defaultValue={filters.university} placeholder="University" className={`${inputClass} w-40`} />
+                )}
+                <select name="paid" defaultValue={filters.paid ?? ''} className={inputClass}>
+                    <option value="">Paid or not</option>
+                    <option value="yes">Paid</option>
+                    <option value="no">Unpaid</option>
+                </select>
+                <select name="domain" defaultValue={filters.domain ?? ''} className={inputClass}>
+                    <option value="">Any domain</option>
+                    <option value="A">Domain A</option>
+                    <option value="B">Domain B</option>
+                    <option value="C">Domain C</option>
+                    <option value="none">No domain</option>
+                </select>
+                <label className="text-xs text-muted-foreground">
+                    Submitted from
+                    <input type="date" name="from" defaultValue={filters.from} className={`${inputClass} block`} />
+                </label>
+                <label className="text-xs text-muted-foreground">
+                    to
+                    <input type="date" name="to" defaultValue={filters.to} className={`${inputClass} block`} />
+                </label>
+                <button type="submit" className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700">
+                    Apply
+                </button>
+                {filtered && (
+                    <button
+                        type="button"
+                        onClick={() => navigate({ ...DEFAULT_COMPETITOR_FILTERS, sort: filters.sort, dir: filters.dir })}
+                        className="px-3 py-1 border rounded text-sm hover:bg-muted"
+                    >
+                        Clear filters
+                    </button>
+                )}
+            </form>
+
+            {page?.searchedBy === 'email' && !filters.q?.includes('@') && (
+                <p className="text-sm text-muted-foreground">No names start with “{filters.q}”, showing email matches.</p>
+            )}
+
+            {selectedIds.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 border rounded-md px-4 py-2 bg-muted/50 text-sm">
+                    <span className="font-medium">{selectedIds.length} selected</span>
+                    {BULK_ACTIONS.map(({ status, label, className }) => (
+                        <button
+                            key={status}
+                            onClick={() => bulkUpdate(status, label)}
+                            disabled={loading}
+                            className={`px-3 py-1 text-white rounded disabled:opacity-50 ${className}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                    <button onClick={() => setSelection({})} disabled={loading} className="text-blue-600 hover:underline">
+                        Clear selection
+                    </button>
+                </div>
+            )}
+
+            {page ? (
+                <DataTable
+                    columns={blind ? blindColumns : tableColumns}
+                    data={rows}
+                    emptyMessage={filtered ? 'No competitors match these filters.' : emptyMessage}
+                    sorting={sorting}
+                    onSortingChange={changeSorting}
+                    rowSelection={selection}
+                    onRowSelectionChange={setSelection}
+                    getRowId={(row) => row.id}
+                />
+            ) : (
+                <p className="border rounded-md p-5 text-sm text-red-600">
+                    Could not load competitors for these filters. Check the server logs (a Firestore index may be missing).
+                </p>
+            )}
+
+            {page && page.total > 0 && (
+                <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                        Showing {firstRow}–{firstRow + page.rows.length - 1} of {page.total}
+                    </span>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => navigate({ ...filters, ...firstPage })}
+                            disabled={filters.page === 1}
+                            className="px-3 py-1 border rounded hover:bg-muted disabled:opacity-50"
+                        >
+                            First page
+                        </button>
+                        <button
+                            onClick={() => navigate(filters.page === 2
+                                ? { ...filters, ...firstPage }
+                                : { ...filters, cursor: undefined, before: page.previousCursor ?? undefined, page: filters.page - 1 })}
+                            disabled={!page.previousCursor}
+                            className="px-3 py-1 border rounded hover:bg-muted disabled:opacity-50"
+                        >
+                            Previous page
+                        </button>
+                        <button
+                            onClick={() => navigate({ ...filters, cursor: page.nextCursor ?? undefined, before: undefined, page: filters.page + 1 })}
+                            disabled={!page.nextCursor}
+                            className="px-3 py-1 border rounded hover:bg-muted disabled:opacity-50"
+                        >
+                            Next page
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,36 @@
+import Link from "next/link";
+import { getRecommendationCoverage } from "@/lib/domainRecommendations";
+import RecomputeDomainsButton from "./RecomputeDomainsButton";
+
+/**
+ * Shows Engineering competitors whose stored domain recommendation is missing
+ * or was computed by an older algorithm or scoring model version.
+ */
+export default async function DomainRecommendationNotice() {
+    let coverage;
+    try {
+        coverage = await getRecommendationCoverage();
+    } catch (error) {
+        console.error("Failed to load domain recommendation coverage:", error);
+        return null;
+    }
+
+    const outdated = coverage.total - coverage.current;
+    if (outdated === 0) return null;
+
+    return (
+        <div className="mb-10 border border-yellow-300 bg-yellow-50 rounded-lg p-4">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="font-semibold mb-1">Domain recommendations outdated</h2>
+                    <p className="text-sm text-muted-foreground">
+                        {outdated} of {coverage.total} Engineering applications have no recommendation from
+                        {" "}algorithm v{coverage.algorithmVersion} with scoring model v{coverage.modelVersion} yet.
+                        {" "}<Link href="/admin/dashboard/scoring" className="text-blue-600 hover:underline">Edit scoring model</Link>
+                    </p>
+                </div>
+                <RecomputeDomainsButton />
+            </div>
+        </div>
+    );
+}
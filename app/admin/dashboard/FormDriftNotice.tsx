@@ -0,0 +1,65 @@
+import { getRecentDriftReports } from "@/lib/formSnapshots";
+
+/**
+ * Shows the most recent form schema drift reports at the top of the dashboard
+ * so admins notice when a Google Form edit breaks (or changes) the application.
+ */
+export default async function FormDriftNotice() {
+    let reports;
+    try {
+        reports = await getRecentDriftReports(undefined, 3);
+    } catch (error) {
+        console.error("Failed to load form drift reports:", error);
+        return null;
+    }
+
+    if (reports.length === 0) return null;
+
+    return (
+        <div className="mb-10 space-y-3">
+            {reports.map((report) => (
+                <div
+                    key={report.id}
+                    className={`border rounded-lg p-4 ${report.blocked ? "border-red-300 bg-red-50" : "border-yellow-300 bg-yellow-50"}`}
+                >
+                    <h2 className="font-semibold mb-1">
+                        {report.blocked
+                            ? `The ${report.type} form is blocked: Entry IDs no longer resolve`
+                            : `The ${report.type} form changed (v${report.fromVersion} → v${report.toVersion})`}
+                    </h2>
+                    <p className="text-sm text-muted-foreground mb-2">
+                        Detected {new Date(report.detectedAt).toLocaleString()}
+                    </p>
+                    <ul className="text-sm list-disc pl-5 space-y-1">
+                        {report.unresolved.map((u, idx) => (
+                            <li key={`unresolved-${idx}`}>
+                                {u.reason === "missing_from_form"
+                                    ? `Registered field ${u.label} (entry ${u.entryId}) is missing from the form`
+                                    : `Required question "${u.label}" has no Entry ID`}
+                            </li>
+                        ))}
+                        {report.diff?.added.map((q, idx) => (
+                            <li key={`added-${idx}`}>Added: &quot;{q.label}&quot;</li>
+                        ))}
+                        {report.diff?.removed.map((q, idx) => (
+                            <li key={`removed-${idx}`}>Removed: &quot;{q.label}&quot;</li>
+                        ))}
+                        {report.diff?.renamed.map((r, idx) => (
+                            <li key={`renamed-${idx}`}>Renamed: &quot;{r.from}&quot; → &quot;{r.to}&quot;</li>
+                        ))}
+                        {report.diff?.optionsChanged.map((o, idx) => (
+                            <li key={`options-${idx}`}>
+                                Options changed on &quot;{o.label}&quot;
+                                {o.added.length > 0 && ` (+ ${o.added.join(", ")})`}
+                                {o.removed.length > 0 && ` (− ${o.removed.join(", ")})`}
+                            </li>
+                        ))}
+                        {report.diff?.lostEntryIds.map((l, idx) => (
+                            <li key={`lost-${idx}`}>Lost Entry ID {l.entryId} for &quot;{l.label}&quot;</li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+}
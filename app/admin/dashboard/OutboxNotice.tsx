@@ -0,0 +1,56 @@
+import { getOutboxStatus } from "@/lib/outbox";
+import OutboxRetryButton from "./OutboxRetryButton";
+
+const SINK_LABELS: Record<string, string> = {
+    google_forms: "Google Forms",
+    google_sheets: "Google Sheets",
+};
+
+/**
+ * Shows submission deliveries (Google Forms, Sheets) that have not gone through
+ * yet, so admins notice when a sink is failing and can retry it.
+ */
+export default async function OutboxNotice() {
+    let status;
+    try {
+        status = await getOutboxStatus();
+    } catch (error) {
+        console.error("Failed to load outbox status:", error);
+        return null;
+    }
+
+    const { counts, failing } = status;
+    if (counts.pending + counts.processing + counts.dead === 0) return null;
+
+    return (
+        <div className={`mb-10 border rounded-lg p-4 ${counts.dead > 0 ? "border-red-300 bg-red-50" : "border-yellow-300 bg-yellow-50"}`}>
+            <div className="flex items-start justify-between gap-4 mb-2">
+                <div>
+                    <h2 className="font-semibold mb-1">Submission deliveries outstanding</h2>
+                    <p className="text-sm text-muted-foreground">
+                        {counts.pending} waiting to retry, {counts.processing} in progress, {counts.dead} failed permanently,
+                        {" "}{counts.delivered} delivered. Applications are saved either way; these are the copies to other systems.
+                    </p>
+                </div>
+                <OutboxRetryButton label="Retry due now" />
+            </div>
+            {failing.length > 0 && (
+                <ul className="text-sm list-disc pl-5 space-y-1">
+                    {failing.map((entry) => (
+                        <li key={entry.id}>
+                            <span className="font-medium">{SINK_LABELS[entry.sink] || entry.sink}</span>
+                            {" "}for {entry.type} {entry.uid}: {entry.lastError}
+                            {" "}({entry.attempts} {entry.attempts === 1 ? "attempt" : "attempts"}
+                            {entry.status === "dead"
+                                ? ", gave up"
+                                : entry.nextAttemptAt && `, next ${new Date(entry.nextAttemptAt).toLocaleString()}`})
+                            {entry.status === "dead" && (
+                                <OutboxRetryButton entryId={entry.id} label="Retry" />
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
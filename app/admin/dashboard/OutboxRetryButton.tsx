@@ -0,0 +1,46 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ApiError, callApi } from '@/lib/apiClient';
+import { drainOutboxContract } from '@/lib/apiContracts';
+
+interface OutboxRetryButtonProps {
+    // Requeue this dead entry; without it, only entries that are due are retried
+    entryId?: string;
+    label: string;
+}
+
+export default function OutboxRetryButton({ entryId, label }: OutboxRetryButtonProps) {
+    const router = useRouter();
+    const [loading, setLoading] = useState(false);
+
+    const retry = async () => {
+        setLoading(true);
+        try {
+            const result = await callApi(drainOutboxContract, { entryId }, { credentials: 'include' });
+            alert(`Processed ${result.processed}: ${result.delivered} delivered, ${result.retrying} will retry, ${result.dead} failed.`);
+            router.refresh();
+        } catch (error) {
+            if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+                alert('Session expired or insufficient permissions. Redirecting to login...');
+                window.location.href = '/admin';
+            } else {
+                console.error('Error retrying deliveries:', error);
+                alert(error instanceof Error ? error.message : 'Failed to retry deliveries');
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <button
+            onClick={retry}
+            disabled={loading}
+            className="ml-2 px-3 py-1 text-xs font-medium rounded border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+            {loading ? 'Retrying...' : label}
+        </button>
+    );
+}
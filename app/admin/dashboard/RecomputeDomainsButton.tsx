@@ -0,0 +1,40 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ApiError, callApi } from '@/lib/apiClient';
+import { recomputeDomainsContract } from '@/lib/apiContracts';
+
+export default function RecomputeDomainsButton() {
+    const router = useRouter();
+    const [loading, setLoading] = useState(false);
+
+    const recompute = async () => {
+        setLoading(true);
+        try {
+            const result = await callApi(recomputeDomainsContract, {}, { credentials: 'include' });
+            alert(`Recomputed ${result.updated} of ${result.scanned} recommendations (algorithm v${result.algorithmVersion}, scoring model v${result.modelVersion}).`);
+            router.refresh();
+        } catch (error) {
+            if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+                alert('Session expired or insufficient permissions. Redirecting to login...');
+                window.location.href = '/admin';
+            } else {
+                console.error('Error recomputing recommendations:', error);
+                alert(error instanceof Error ? error.message : 'Failed to recompute recommendations');
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <button
+            onClick={recompute}
+            disabled={loading}
+            className="px-3 py-1 text-xs font-medium rounded border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+            {loading ? 'Recomputing...' : 'Recompute now'}
+        </button>
+    );
+}
@@ -0,0 +1,114 @@
+import type { AnswerView, ApplicationView } from '@/lib/applicationView';
+
+interface ApplicationDetailsProps {
+    view: ApplicationView;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+// Only web links become anchors; other schemes (javascript:, data:) stay text
+const WEB_LINK = /^https?:\/\//i;
+
+function isTimestamp(value: unknown): value is { toDate(): Date } {
+    return typeof value === 'object' && value !== null && typeof (value as { toDate?: unknown }).toDate === 'function';
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function ExternalLink({ href }: { href: string }) {
+    if (!WEB_LINK.test(href)) return <span className="break-all">{href}</span>;
+    return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+            {href}
+        </a>
+    );
+}
+
+function Value({ value, isLink = false }: { value: unknown; isLink?: boolean }) {
+    if (isEmpty(value)) return <span className="text-gray-400">N/A</span>;
+    if (isTimestamp(value)) return <>{value.toDate().toLocaleString()}</>;
+    if (typeof value === 'boolean') return <>{value ? 'Yes' : 'No'}</>;
+    if (Array.isArray(value)) {
+        return (
+            <ul className="flex flex-wrap gap-2">
+                {value.map((item, index) => (
+                    <li key={index} className="bg-white border rounded px-2 py-0.5 text-sm">{String(item)}</li>
+                ))}
+            </ul>
+        );
+    }
+    if (typeof value === 'string') {
+        if (isLink || WEB_LINK.test(value)) return <ExternalLink href={value} />;
+        if (ISO_DATE.test(value) && !isNaN(Date.parse(value))) return <>{new Date(value).toLocaleString()}</>;
+        return <span className="whitespace-pre-wrap">{value}</span>;
+    }
+    if (typeof value === 'object') {
+        return <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(value, null, 2)}</pre>;
+    }
+    return <>{String(value)}</>;
+}
+
+function WordCount({ answer }: { answer: AnswerView }) {
+    if (answer.words === null) return null;
+    const over = answer.wordLimit !== undefined && answer.words > answer.wordLimit;
+    return (
+        <span className={`text-xs ${over ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+            {answer.words}{answer.wordLimit !== undefined && ` / ${answer.wordLimit}`} words
+        </span>
+    );
+}
+
+/**
+ * A competitor's answers grouped by form section under the questions they
+ * answered, then the rest of the application record (lib/applicationView.ts)
+ */
+export default function ApplicationDetails({ view }: ApplicationDetailsProps) {
+    return (
+        <>
+            {view.sections.map(section => (
+                <div key={section.id} className="mb-6">
+                    <h3 className="font-semibold text-gray-700 mb-4">{section.title}</h3>
+                    <dl className="bg-gray-50 rounded-lg p-6 space-y-5">
+                        {section.answers.map(answer => (
+                            <div key={answer.field} className="border-b border-gray-200 pb-4 last:border-0 last:pb-0">
+                                <dt className="mb-2">
+                                    <div className="flex items-baseline justify-between gap-4">
+                                        <span className="font-medium text-gray-700">{answer.question}</span>
+                                        <WordCount answer={answer} />
+                                    </div>
+                                    {answer.description && (
+                                        <p className="text-xs text-gray-500 mt-1 whitespace-pre-wrap">{answer.description}</p>
+                                    )}
+                                </dt>
+                                <dd className="text-gray-900 break-words">
+                                    <Value value={answer.value} isLink={answer.isLink} />
+                                </dd>
+                            </div>
+                        ))}
+                    </dl>
+                </div>
+            ))}
+
+            {view.record.length > 0 && (
+                <div className="mb-6">
+                    <h3 className="font-semibold text-gray-700 mb-4">Application Record</h3>
+                    <div className="bg-gray-50 rounded-lg p-6">
+                        <dl className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                            {view.record.map(([key, value]) => (
+                                <div key={key} className="border-b border-gray-200 pb-3">
+                                    <dt className="font-medium text-gray-600 capitalize mb-1">
+                                        {key.replace(/([A-Z])/g, ' $1').trim()}
+                                    </dt>
+                                    <dd className="text-gray-900 break-words">
+                                        <Value value={value} />
+                                    </dd>
+                                </div>
+                            ))}
+                        </dl>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,204 @@
+import {
+    ALGORITHM_VERSION,
+    type ComponentPoints,
+    type DomainExplanation,
+    type KeywordEvidence,
+    type TextField,
+} from '@/lib/domainAlgorithm';
+import type { StoredDomainRecommendation } from '@/lib/domainRecommendations';
+
+interface RecommendationReportProps {
+    // explanation is missing on recommendations stored before algorithm v4
+    recommendation: Omit<StoredDomainRecommendation, 'explanation'> & { explanation?: DomainExplanation };
+}
+
+const COMPONENTS: { key: keyof ComponentPoints; label: string; color: string }[] = [
+    { key: 'skills', label: 'Skills', color: 'bg-blue-500' },
+    { key: 'persona', label: 'Work style', color: 'bg-purple-500' },
+    { key: 'project', label: 'Projects & experience', color: 'bg-teal-500' },
+    { key: 'scenario', label: 'Scenario', color: 'bg-amber-500' },
+];
+
+const FIELD_LABELS: Record<TextField, string> = {
+    handsOnProject: 'Most hands-on project',
+    professionalExp: 'Professional experience',
+    scenarioResponse: 'Scenario answer',
+};
+
+const STATUS_STYLES: Record<KeywordEvidence['status'], string> = {
+    scored: 'bg-green-100 text-green-800',
+    negated: 'bg-gray-200 text-gray-600 line-through',
+    capped: 'bg-yellow-100 text-yellow-800',
+};
+
+function formatPoints(points: { A: number; B: number; C: number }): string {
+    return (['A', 'B', 'C'] as const)
+        .filter(domain => points[domain] > 0)
+        .map(domain => `${domain} +${points[domain]}`)
+        .join(', ') || 'no points';
+}
+
+function Snippet({ snippet, text }: { snippet: string; text: string }) {
+    const index = snippet.indexOf(text);
+    if (index === -1) return <>{snippet}</>;
+
+    return (
+        <>
+            {snippet.slice(0, index)}
+            <mark className="bg-yellow-200 rounded px-0.5">{text}</mark>
+            {snippet.slice(index + text.length)}
+        </>
+    );
+}
+
+/**
+ * Why a competitor was recommended a domain: weighted points per score
+ * component, and the skills, persona and answer keywords behind them.
+ */
+export default function RecommendationReport({ recommendation }: RecommendationReportProps) {
+    const { explanation } = recommendation;
+    const outdated = recommendation.algorithmVersion !== ALGORITHM_VERSION;
+
+    const scale = Math.max(...recommendation.allScores.map(score => score.score), 1);
+
+    return (
+        <div className="mb-6">
+            <h3 className="font-semibold text-gray-700 mb-4">
+                Domain Recommendation: Domain {recommendation.recommended.domain} ({recommendation.recommended.name})
+            </h3>
+            <div className="bg-gray-50 rounded-lg p-6 space-y-6">
+                <p className="text-sm text-gray-600">
+                    {recommendation.confidence} confidence · algorithm v{recommendation.algorithmVersion},
+                    {' '}scoring model v{recommendation.modelVersion}
+                    {recommendation.computedAt && ` · computed ${new Date(recommendation.computedAt).toLocaleString()}`}
+                    {outdated && ' · outdated, recompute from the dashboard to refresh'}
+                </p>
+
+                <p className="text-gray-900">{recommendation.reasoning.replace(/\*\*/g, '')}</p>
+
+                {!explanation ? (
+                    <p className="text-sm text-gray-500">
+                        This recommendation was computed before score breakdowns were stored.
+                    </p>
+                ) : (
+                    <>
+                        {/* Breakdown chart: one stacked bar per domain */}
+                        <div>
+                            <div className="space-y-3">
+                                {recommendation.allScores.map(score => (
+                                    <div key={score.domain} className="grid grid-cols-[8rem_1fr_4rem] items-center gap-3 text-sm">
+                                        <span className="font-medium text-gray-700">Domain {score.domain}</span>
+                                        <div className="flex h-4 bg-gray-200 rounded overflow-hidden">
+                                            {COMPONENTS.map(component => {
+                                                const points = explanation.contributions[score.domain][component.key];
+                                                return points > 0 ? (
+                                                    <div
+                                                        key={component.key}
+                                                        className={component.color}
+                                                        style={{ width: `${(points / scale) * 100}%` }}
+                                                        title={`${component.label}: ${Math.round(points * 10) / 10}`}
+                                                    />
+                                                ) : null;
+                                            })}
+                                        </div>
+                                        <span className="text-right text-gray-900">{Math.round(score.score)} pts</span>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex flex-wrap gap-4 mt-3 text-xs text-gray-600">
+                                {COMPONENTS.map(component => (
+                                    <span key={component.key} className="flex items-center gap-1">
+                                        <span className={`inline-block w-3 h-3 rounded ${component.color}`} />
+                                        {component.label}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                            <div>
+                                <h4 className="font-medium text-gray-600 mb-2">Skills</h4>
+                                {explanation.skills.length === 0 ? (
+                                    <p className="text-gray-500">No weighted skills selected</p>
+                                ) : (
+                                    <ul className="space-y-1">
+                                        {explanation.skills.map(skill => (
+                                            <li key={skill.option} className="flex justify-between gap-4">
+                                                <span className="text-gray-900">{skill.option}</span>
+                                                <span className="text-gray-500 whitespace-nowrap">{formatPoints(skill)}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {explanation.unmatchedSkills.length > 0 && (
+                                    <p className="text-gray-500 mt-2">
+                                        Not in the scoring model: {explanation.unmatchedSkills.join('; ')}
+                                    </p>
+                                )}
+                            </div>
+
+                            <div>
+                                <h4 className="font-medium text-gray-600 mb-2">Work style</h4>
+                                {explanation.persona ? (
+                                    <p className="flex justify-between gap-4">
+                                        <span className="text-gray-900">{explanation.persona.option}</span>
+                                        <span className="text-gray-500 whitespace-nowrap">{formatPoints(explanation.persona)}</span>
+                                    </p>
+                                ) : (
+                                    <p className="text-gray-500">No matching persona</p>
+                                )}
+
+                                {explanation.scenarioBonuses.length > 0 && (
+                                    <>
+                                        <h4 className="font-medium text-gray-600 mt-4 mb-2">Scenario approach bonuses</h4>
+                                        <ul className="space-y-1">
+                                            {explanation.scenarioBonuses.map(bonus => (
+                                                <li key={bonus.domain}>
+                                                    <span className="text-gray-500">Domain {bonus.domain} +{bonus.points}: </span>
+                                                    <Snippet snippet={bonus.snippet} text={bonus.text} />
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="text-sm">
+                            <h4 className="font-medium text-gray-600 mb-2">Keywords in answers</h4>
+                            {explanation.keywords.length === 0 ? (
+                                <p className="text-gray-500">No keywords found</p>
+                            ) : (
+                                (Object.keys(FIELD_LABELS) as TextField[]).map(field => {
+                                    const hits = explanation.keywords.filter(hit => hit.field === field);
+                                    if (hits.length === 0) return null;
+
+                                    return (
+                                        <div key={field} className="mb-4">
+                                            <p className="text-gray-600 mb-1">{FIELD_LABELS[field]}</p>
+                                            <ul className="space-y-1">
+                                                {hits.map(hit => (
+                                                    <li key={`${hit.keyword}-${hit.start}`} className="flex gap-3">
+                                                        <span className={`px-2 rounded text-xs h-fit whitespace-nowrap ${STATUS_STYLES[hit.status]}`}>
+                                                            {hit.keyword}
+                                                        </span>
+                                                        <span className="text-gray-900 flex-1">
+                                                            <Snippet snippet={hit.snippet} text={hit.text} />
+                                                        </span>
+                                                        <span className="text-gray-500 whitespace-nowrap">
+                                                            {hit.status === 'scored' ? formatPoints(hit) : hit.status}
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    );
+                                })
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ApiError, callApi } from '@/lib/apiClient';
+import { submitReviewContract } from '@/lib/apiContracts';
+import {
+    DISAGREEMENT_SPREAD,
+    RUBRICS,
+    SCORE_MAX,
+    SCORE_MIN,
+    type ReviewSummary,
+    type ReviewTrack,
+} from '@/lib/reviewRubric';
+import type { Review } from '@/lib/reviews';
+
+interface ReviewPanelProps {
+    competitorId: string;
+    track: ReviewTrack;
+    reviews: Review[];
+    summary: ReviewSummary | null;
+    // The signed-in admin, whose review the form edits
+    reviewerUid: string | null;
+    requiredReviews: number;
+}
+
+const SCORES = Array.from({ length: SCORE_MAX - SCORE_MIN + 1 }, (_, i) => SCORE_MIN + i);
+
+/**
+ * Rubric scores from every reviewer, their averages and disagreement, and the
+ * signed-in admin's own review form
+ */
+export default function ReviewPanel({ competitorId, track, reviews, summary, reviewerUid, requiredReviews }: ReviewPanelProps) {
+    const router = useRouter();
+    const rubric = RUBRICS[track];
+    const ownReview = reviews.find(review => review.reviewerUid === reviewerUid);
+
+    const [scores, setScores] = useState<Record<string, number>>(ownReview?.scores ?? {});
+    const [comment, setComment] = useState(ownReview?.comment ?? '');
+    const [loading, setLoading] = useState(false);
+
+    const complete = rubric.every(criterion => scores[criterion.id] !== undefined);
+
+    const submit = async () => {
+        setLoading(true);
+        try {
+            await callApi(submitReviewContract, { competitorId, scores, comment }, { credentials: 'include' });
+            router.refresh();
+        } catch (error) {
+            if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+                alert('Session expired or insufficient permissions. Redirecting to login...');
+                window.location.href = '/admin';
+            } else if (error instanceof ApiError) {
+                alert([error.message, ...(error.issues ?? []).map(issue => issue.message)].join('\n'));
+            } else {
+                console.error('Error submitting review:', error);
+                alert('Error submitting review. Please try again.');
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="mb-6">
+            <h3 className="font-semibold text-gray-700 mb-2">
+                Reviews ({reviews.length} of {requiredReviews} needed for a decision)
+            </h3>
+
+            {summary && summary.count > 0 && (
+                <div className="bg-gray-50 rounded-lg p-4 mb-4 text-sm">
+                    <p className="mb-2">
+                        <span className="font-medium">Average {summary.average ?? '—'}</span> / {SCORE_MAX}
+                        {summary.disagreement >= DISAGREEMENT_SPREAD && (
+                            <span className="ml-2 text-yellow-700">
+                                Reviewers disagree: scores on one criterion are {summary.disagreement} points apart
+                            </span>
+                        )}
+                    </p>
+                    <table className="w-full">
+                        <thead>
+                            <tr className="text-left text-gray-600 border-b">
+                                <th className="py-1">Reviewer</th>
+                                {rubric.map(criterion => (
+                                    <th key={criterion.id}>{criterion.label}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {reviews.map(review => (
+                                <tr key={review.reviewerUid} className="border-b align-top">
+                                    <td className="py-1 pr-4">
+                                        {review.reviewerEmail}
+                                        {review.comment && <p className="text-gray-600 whitespace-pre-wrap">{review.comment}</p>}
+                                    </td>
+                                    {rubric.map(criterion => (
+                                        <td key={criterion.id}>{review.scores[criterion.id] ?? '—'}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                            <tr className="font-medium">
+                                <td className="py-1">Average</td>
+                                {rubric.map(criterion => (
+                                    <td key={criterion.id}>{summary.criteria[criterion.id] ?? '—'}</td>
+                                ))}
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {reviewerUid && (
+                <div className="border rounded-lg p-4">
+                    <h4 className="font-medium mb-3">{ownReview ? 'Your review' : 'Add your review'}</h4>
+                    <div className="space-y-3">
+                        {rubric.map(criterion => (
+                            <div key={criterion.id} className="flex flex-wrap items-center justify-between gap-3">
+                                <div>
+                                    <p className="font-medium text-sm">{criterion.label}</p>
+                                    <p className="text-xs text-gray-500">{criterion.description}</p>
+                                </div>
+                                <div className="flex gap-1">
+                                    {SCORES.map(score => (
+                                        <button
+                                            key={score}
+                                            type="button"
+                                            onClick={() => setScores({ ...scores, [criterion.id]: score })}
+                                            className={`w-8 h-8 rounded border text-sm ${scores[criterion.id] === score
+                                                ? 'bg-blue-600 text-white border-blue-600'
+                                                : 'hover:bg-gray-100'
+                                                }`}
+                                        >
+                                            {score}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        <textarea
+                            value={comment}
+                            onChange={(e) => setComment(e.target.value)}
+                            placeholder="Why these scores? (optional)"
+                            maxLength={4000}
+                            rows={3}
+                            className="border rounded w-full px-2 py-1 text-sm"
+                        />
+                        <button
+                            onClick={submit}
+                            disabled={loading || !complete}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {loading ? 'Saving...' : ownReview ? 'Update review' : 'Submit review'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,46 +1,46 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ApiError, callApi } from '@/lib/apiClient';
+import { updateStatusContract, type ApplicationStatus } from '@/lib/apiContracts';
 
 interface StatusManagerProps {
     competitorId: string;
     currentStatus: string;
+    // Accepting or rejecting needs requiredReviews rubric reviews
+    reviewCount: number;
+    requiredReviews: number;
 }
 
-export default function StatusManager({ competitorId, currentStatus }: StatusManagerProps) {
+export default function StatusManager({ competitorId, currentStatus, reviewCount, requiredReviews }: StatusManagerProps) {
+    const router = useRouter();
     const [status, setStatus] = useState(currentStatus);
     const [loading, setLoading] = useState(false);
+    const needsReviews = reviewCount < requiredReviews;
 
-    const updateStatus = async (newStatus: string) => {
+    const updateStatus = async (newStatus: ApplicationStatus) => {
         setLoading(true);
         try {
-            const response = await fetch('/api/admin/update-status', {
-                method: 'POST',
-                credentials: 'include', // Send session cookie
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    competitorId,
-                    status: newStatus
-                })
-            });
-
-            if (response.ok) {
-                setStatus(newStatus);
-                // Refresh the page to show updated data
-                window.location.reload();
-            } else if (response.status === 401 || response.status === 403) {
+            await callApi(
+                updateStatusContract,
+                { competitorId, status: newStatus },
+                { credentials: 'include' } // Send session cookie
+            );
+            setStatus(newStatus);
+            // Refresh the server-rendered details without a full reload
+            router.refresh();
+        } catch (error) {
+            if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
                 // Authentication/Authorization failed - redirect to admin login
                 alert('Session expired or insufficient permissions. Redirecting to login...');
                 window.location.href = '/admin';
+            } else if (error instanceof ApiError) {
+                alert(error.message);
             } else {
-                const errorData = await response.json().catch(() => ({}));
-                alert(errorData.error || 'Failed to update status');
+                console.error('Error updating status:', error);
+                alert('Error updating status. Please try again.');
             }
-        } catch (error) {
-            console.error('Error updating status:', error);
-            alert('Error updating status. Please try again.');
         } finally {
             setLoading(false);
         }
@@ -61,19 +61,33 @@ export default function StatusManager({ competitorId, currentStatus }: StatusMan
             <div className="flex gap-3 mt-4">
                 <button
                     onClick={() => updateStatus('Accepted')}
-                    disabled={loading || status === 'Accepted'}
+                    disabled={loading || needsReviews || status === 'Accepted'}
                     className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                     {loading ? 'Updating...' : 'Approve'}
                 </button>
                 <button
                     onClick={() => updateStatus('Rejected')}
-                    disabled={loading || status === 'Rejected'}
+                    disabled={loading || needsReviews || status === 'Rejected'}
                     className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                     {loading ? 'Updating...' : 'Reject'}
                 </button>
+                {status !== 'pending' && (
+                    <button
+                        onClick={() => updateStatus('pending')}
+                        disabled={loading}
+                        className="px-4 py-2 border rounded-lg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Reset to pending
+                    </button>
+                )}
             </div>
+            {needsReviews && (
+                <p className="text-sm text-gray-500 mt-2">
+                    {reviewCount} of {requiredReviews} reviews so far. A decision needs {requiredReviews} reviews.
+                </p>
+            )}
         </div>
     );
 }
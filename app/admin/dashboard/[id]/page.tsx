@@ -2,6 +2,17 @@ import { adminDb } from "@/lib/firebaseAdmin";
 import { notFound } from "next/navigation";
 import LogoutButton from "@/components/logout";
 import StatusManager from "./StatusManager";
+import RecommendationReport from "./RecommendationReport";
+import ReviewPanel from "./ReviewPanel";
+import ApplicationDetails from "./ApplicationDetails";
+import { getApplicationRevisions } from "@/lib/applications";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { getRequiredReviews, getReviewTrack, listReviews } from "@/lib/reviews";
+import { IDENTIFYING_FIELDS, blindFilters, getApplicantCode, isBlindViewer, isIdentityRevealed } from "@/lib/blindReview";
+import { buildApplicationView } from "@/lib/applicationView";
+import { loadFormDefinition } from "@/lib/formDefinitionStore";
+import { COMPETITOR_TABLE_PREFIXES, parseCompetitorFilters } from "@/lib/competitorQuery";
+import { getCompetitorNeighbours, type CompetitorNeighbours } from "@/lib/competitors";
 
 // Add these exports to disable caching
 export const dynamic = 'force-dynamic';
@@ -26,7 +37,6 @@ async function getCompetitor(id: string): Promise<Competitor | null> {
     }
     
     const data = doc.data();
-    console.log('Competitor data:', data); // Debug log to see all fields
     
     return {
         id: doc.id,
@@ -34,14 +44,28 @@ async function getCompetitor(id: string): Promise<Competitor | null> {
     } as Competitor;
 }
 
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// The dashboard's query string, carried between detail pages and back
+function toQuery(searchParams: SearchParams): string {
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(searchParams)) {
+        for (const single of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+            query.append(key, single);
+        }
+    }
+    return query.size > 0 ? `?${query}` : '';
+}
+
 export default async function CompetitorDetailPage({
-    params
+    params,
+    searchParams
 }: {
     params: Promise<{ id: string }>
+    searchParams: Promise<SearchParams>
 }) {
     const resolvedParams = await params;
-    console.log('Page params:', resolvedParams);
-    console.log('Competitor ID:', resolvedParams.id);
+    const resolvedSearchParams = await searchParams;
     
     const competitor = await getCompetitor(resolvedParams.id);
     
@@ -49,71 +73,135 @@ export default async function CompetitorDetailPage({
         notFound();
     }
 
+    // Answers the applicant replaced by editing their application
+    const revisions = await getApplicationRevisions("competitor", competitor.id);
+
+    const reviewTrack = getReviewTrack(competitor);
+    const [reviews, reviewer] = await Promise.all([
+        listReviews(competitor.id),
+        verifyAdminSession().catch(() => null),
+    ]);
+    const requiredReviews = getRequiredReviews();
+
+    // Blind review: answers only until the viewer has scored them (lib/blindReview.ts)
+    const revealed = isIdentityRevealed(reviewer, reviews.map(review => review.reviewerUid));
+    const view = buildApplicationView(
+        await loadFormDefinition("competitor"),
+        competitor,
+        revealed ? [] : IDENTIFYING_FIELDS
+    );
+
+    // Previous/next in the dashboard table this page was opened from
+    const query = toQuery(resolvedSearchParams);
+    let neighbours: CompetitorNeighbours = { previous: null, next: null, failed: false };
+    if (reviewTrack) {
+        const filters = parseCompetitorFilters(resolvedSearchParams, COMPETITOR_TABLE_PREFIXES[reviewTrack]);
+        neighbours = await getCompetitorNeighbours(
+            reviewTrack,
+            isBlindViewer(reviewer) ? blindFilters(filters) : filters,
+            competitor.id
+        );
+    }
+
     return (
         <div className="container mx-auto py-10">
-            <div className="mb-6">
-                <a href="/admin/dashboard" className="text-brand-teal hover:underline mb-4 inline-block">
+            <div className="mb-6 flex items-baseline justify-between">
+                <a href={`/admin/dashboard${query}`} className="text-brand-teal hover:underline mb-4 inline-block">
                     ← Back to Dashboard
                 </a>
+                <nav className="flex gap-4 text-sm">
+                    {neighbours.failed && (
+                        <span className="text-red-600">Could not load the list order</span>
+                    )}
+                    {neighbours.previous ? (
+                        <a href={`/admin/dashboard/${neighbours.previous}${query}`} className="text-brand-teal hover:underline">
+                            ← Previous
+                        </a>
+                    ) : (
+                        <span className="text-gray-400">← Previous</span>
+                    )}
+                    {neighbours.next ? (
+                        <a href={`/admin/dashboard/${neighbours.next}${query}`} className="text-brand-teal hover:underline">
+                            Next →
+                        </a>
+                    ) : (
+                        <span className="text-gray-400">Next →</span>
+                    )}
+                </nav>
             </div>
             
             <div className="border rounded-lg p-6">
-                <h1 className="text-2xl font-bold mb-4">Competitor Details</h1>
+                <h1 className="text-2xl font-bold mb-4">
+                    {revealed ? 'Competitor Details' : `Applicant ${getApplicantCode(competitor.id)}`}
+                </h1>
+                {!revealed && (
+                    <p className="text-sm text-gray-600 mb-4">
+                        Blind review: the applicant&apos;s name, contact details, university and links are shown once you submit your review.
+                    </p>
+                )}
                 
                 <StatusManager 
                     competitorId={competitor.id} 
                     currentStatus={competitor.status || 'pending'} 
+                    reviewCount={competitor.reviewSummary?.count ?? 0}
+                    requiredReviews={requiredReviews}
                 />
+
+                {reviewTrack && (
+                    <ReviewPanel
+                        competitorId={competitor.id}
+                        track={reviewTrack}
+                        reviews={reviews}
+                        summary={competitor.reviewSummary ?? null}
+                        reviewerUid={reviewer?.uid ?? null}
+                        requiredReviews={requiredReviews}
+                    />
+                )}
+
+                {competitor.domainRecommendation && (
+                    <RecommendationReport recommendation={competitor.domainRecommendation} />
+                )}
                 
-                <div className="mb-6">
-                    <h3 className="font-semibold text-gray-700 mb-4">Application Details</h3>
-                    <div className="bg-gray-50 rounded-lg p-6">
-                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                            {Object.entries(competitor)
-                                .filter(([key]) => key !== 'id') // Exclude the ID field
-                                .sort(([a], [b]) => a.localeCompare(b)) // Sort alphabetically
-                                .map(([key, value]) => (
-                                    <div key={key} className="border-b border-gray-200 pb-3">
-                                        <h4 className="font-medium text-gray-600 capitalize mb-1">
-                                            {key.replace(/([A-Z])/g, ' $1').trim()}
-                                        </h4>
-                                        <p className="text-gray-900 break-words">
-                                            {(() => {
-                                                if (value === null || value === undefined) return 'N/A';
-                                                if (typeof value === 'boolean') return value ? 'Yes' : 'No';
-                                                if (typeof value === 'string') {
-                                                    // Check if it's a URL
-                                                    if (value.startsWith('http')) {
-                                                        return (
-                                                            <a 
-                                                                href={value} 
-                                                                target="_blank" 
-                                                                rel="noopener noreferrer"
-                                                                className="text-blue-600 hover:underline"
-                                                            >
-                                                                {value.includes('linkedin') ? 'LinkedIn Profile' : 
-                                                                 value.includes('resume') || value.includes('cv') ? 'View Resume' :
-                                                                 'Open Link'}
-                                                            </a>
-                                                        );
-                                                    }
-                                                    // Check if it's a date
-                                                    if (value.includes('T') && !isNaN(Date.parse(value))) {
-                                                        return new Date(value).toLocaleString();
-                                                    }
-                                                    return value;
-                                                }
-                                                if (typeof value === 'object') {
-                                                    return JSON.stringify(value, null, 2);
-                                                }
-                                                return String(value);
-                                            })()}
-                                        </p>
-                                    </div>
-                                ))}
+                <ApplicationDetails view={view} />
+
+                {revisions.length > 0 && (
+                    <div className="mb-6">
+                        <h3 className="font-semibold text-gray-700 mb-4">
+                            Edit History (current version: {competitor.revision || 1})
+                        </h3>
+                        <div className="space-y-4">
+                            {revisions.map((revision) => (
+                                <div key={revision.revision} className="bg-gray-50 rounded-lg p-4">
+                                    <p className="text-sm text-gray-600 mb-3">
+                                        Version {revision.revision} replaced
+                                        {revision.replacedAt && ` on ${new Date(revision.replacedAt).toLocaleString()}`}
+                                        {revealed && revision.editedBy && ` by ${revision.editedBy}`}
+                                    </p>
+                                    <dl className="space-y-2">
+                                        {revision.changedFields
+                                            .filter((field) => revealed || !IDENTIFYING_FIELDS.includes(field))
+                                            .map((field) => {
+                                                const previous = revision.fields[field];
+                                                return (
+                                                    <div key={field} className="grid grid-cols-1 md:grid-cols-4 gap-2 text-sm">
+                                                        <dt className="font-medium text-gray-600 capitalize">
+                                                            {field.replace(/([A-Z])/g, ' $1').trim()}
+                                                        </dt>
+                                                        <dd className="md:col-span-3 text-gray-900 break-words">
+                                                            <span className="text-gray-500">Was: </span>
+                                                            {previous === undefined || previous === '' ? 'N/A'
+                                                                : Array.isArray(previous) ? previous.join(', ')
+                                                                    : String(previous)}
+                                                        </dd>
+                                                    </div>
+                                                );
+                                            })}
+                                    </dl>
+                                </div>
+                            ))}
                         </div>
                     </div>
-                </div>
+                )}
 
                 <div className="flex gap-4">
                     <LogoutButton />
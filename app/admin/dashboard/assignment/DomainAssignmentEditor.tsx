@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ApiError, callApi } from '@/lib/apiClient';
+import {
+    commitDomainAssignmentContract,
+    proposeDomainAssignmentContract,
+    type ContractResponse,
+    type DomainId,
+} from '@/lib/apiContracts';
+
+type Capacities = Record<DomainId, number>;
+// Kept with the capacities it was proposed for, which the commit is checked against
+type Proposal = ContractResponse<typeof proposeDomainAssignmentContract> & { capacities: Capacities };
+
+interface DomainAssignmentEditorProps {
+    initialCapacities: Capacities;
+}
+
+const DOMAINS: DomainId[] = ['A', 'B', 'C'];
+
+/**
+ * Capacities and locks in, proposed assignment out. Changing a lock proposes
+ * again so the table always shows what a commit would write.
+ */
+export default function DomainAssignmentEditor({ initialCapacities }: DomainAssignmentEditorProps) {
+    const router = useRouter();
+    const [capacities, setCapacities] = useState<Capacities>(initialCapacities);
+    const [keepExisting, setKeepExisting] = useState(true);
+    const [locks, setLocks] = useState<Record<string, DomainId>>({});
+    const [proposal, setProposal] = useState<Proposal | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const handleError = (error: unknown, fallback: string) => {
+        if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+            alert('Session expired or insufficient permissions. Redirecting to login...');
+            window.location.href = '/admin';
+            return;
+        }
+        console.error(fallback, error);
+        alert(error instanceof Error ? error.message : fallback);
+    };
+
+    const propose = async (nextLocks = locks) => {
+        setLoading(true);
+        try {
+            const result = await callApi(
+                proposeDomainAssignmentContract,
+                { capacities, locks: nextLocks, keepExisting },
+                { credentials: 'include' }
+            );
+            setProposal({ ...result, capacities });
+        } catch (error) {
+            handleError(error, 'Failed to propose domain assignment');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const changeLock = (uid: string, value: string) => {
+        const nextLocks = { ...locks };
+        if (value === 'auto') delete nextLocks[uid];
+        else nextLocks[uid] = value as DomainId;
+        setLocks(nextLocks);
+        propose(nextLocks);
+    };
+
+    const commit = async () => {
+        if (!proposal) return;
+
+        const assignments: Record<string, DomainId> = {};
+        for (const row of proposal.rows) {
+            if (row.domain) assignments[row.uid] = row.domain;
+        }
+        const unassigned = proposal.rows.length - Object.keys(assignments).length;
+        if (!confirm(
+            `Write domains for ${Object.keys(assignments).length} competitors?`
+            + (unassigned > 0 ? ` ${unassigned} have no domain because the capacities are too small.` : '')
+        )) return;
+
+        setLoading(true);
+        try {
+            const result = await callApi(
+                commitDomainAssignmentContract,
+                { capacities: proposal.capacities, assignments },
+                { credentials: 'include' }
+            );
+            alert(`Domains written: ${result.updated} changed, ${result.unchanged} already assigned.`);
+            setProposal(null);
+            router.refresh();
+        } catch (error) {
+            handleError(error, 'Failed to commit domain assignment');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="border p-5 rounded-lg flex flex-wrap items-end gap-4">
+                {DOMAINS.map(domain => (
+                    <label key={domain} className="text-sm">
+                        <span className="block text-muted-foreground mb-1">Domain {domain} capacity</span>
+                        <input
+                            type="number"
+                            min={0}
+                            value={capacities[domain]}
+                            onChange={(e) => setCapacities({ ...capacities, [domain]: Math.max(0, Number(e.target.value) || 0) })}
+                            className="border rounded px-2 py-1 w-28"
+                        />
+                    </label>
+                ))}
+                <label className="text-sm flex items-center gap-2">
+                    <input type="checkbox" checked={keepExisting} onChange={(e) => setKeepExisting(e.target.checked)} />
+                    Keep domains competitors already have
+                </label>
+                <button
+                    onClick={() => propose()}
+                    disabled={loading}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {loading ? 'Working...' : 'Propose assignment'}
+                </button>
+            </div>
+
+            {proposal && (
+                <div className="border p-5 rounded-lg">
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                        <p className="text-sm">
+                            {DOMAINS.map(domain => `Domain ${domain}: ${proposal.counts[domain]}/${proposal.capacities[domain]}`).join(' · ')}
+                            {' '}· average fit {proposal.rows.length > 0 ? Math.round(proposal.totalFit / proposal.rows.length) : 0}%
+                        </p>
+                        <button
+                            onClick={commit}
+                            disabled={loading || proposal.rows.length === 0}
+                            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                        >
+                            Commit assignment
+                        </button>
+                    </div>
+
+                    {proposal.missingRecommendation.length > 0 && (
+                        <p className="text-sm text-yellow-700 mb-4">
+                            {proposal.missingRecommendation.length} accepted competitors have no domain recommendation and are left out:
+                            {' '}{proposal.missingRecommendation.map(person => person.name || person.email).join(', ')}.
+                            {' '}Recompute recommendations from the dashboard to include them.
+                        </p>
+                    )}
+
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-muted-foreground border-b">
+                                <th className="py-2">Competitor</th>
+                                <th>Fit A / B / C</th>
+                                <th>Recommended</th>
+                                <th>Current</th>
+                                <th>Proposed</th>
+                                <th>Lock</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {proposal.rows.map(row => (
+                                <tr key={row.uid} className="border-b">
+                                    <td className="py-2">
+                                        <a href={`/admin/dashboard/${row.uid}`} target="_blank" className="text-blue-600 hover:underline">
+                                            {row.name || row.email}
+                                        </a>
+                                    </td>
+                                    <td>{DOMAINS.map(domain => `${row.fit[domain]}%`).join(' / ')}</td>
+                                    <td>{row.recommended}</td>
+                                    <td>{row.currentDomain || '—'}</td>
+                                    <td className={row.domain && row.domain !== row.recommended ? 'text-yellow-700 font-medium' : ''}>
+                                        {row.domain || 'Unassigned'}
+                                    </td>
+                                    <td>
+                                        {row.locked && !locks[row.uid] ? (
+                                            <span className="text-muted-foreground">Existing</span>
+                                        ) : (
+                                            <select
+                                                value={locks[row.uid] || 'auto'}
+                                                onChange={(e) => changeLock(row.uid, e.target.value)}
+                                                disabled={loading}
+                                                className="border rounded px-1 py-0.5"
+                                            >
+                                                <option value="auto">Auto</option>
+                                                {DOMAINS.map(domain => (
+                                                    <option key={domain} value={domain}>Domain {domain}</option>
+                                                ))}
+                                            </select>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
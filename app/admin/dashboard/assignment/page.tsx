@@ -0,0 +1,52 @@
+import Link from "next/link";
+import LogoutButton from "@/components/logout";
+import { countAcceptedEngineers } from "@/lib/domainAssignment";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { isBlindViewer } from "@/lib/blindReview";
+import DomainAssignmentEditor from "./DomainAssignmentEditor";
+
+// Add these exports to disable caching
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export default async function DomainAssignmentPage() {
+    const viewer = await verifyAdminSession().catch(() => null);
+    // Proposals list every competitor by name (lib/blindReview.ts)
+    const blind = isBlindViewer(viewer);
+    const accepted = await countAcceptedEngineers().catch((error) => {
+        console.error("Failed to count accepted Engineering competitors:", error);
+        return null;
+    });
+
+    // Start from an even split; admins adjust before proposing
+    const share = Math.ceil((accepted ?? 0) / 3);
+
+    return (
+        <div className="container mx-auto py-10">
+            <Link href="/admin/dashboard" className="text-sm text-blue-600 hover:underline">
+                ← Back to dashboard
+            </Link>
+            <h1 className="text-2xl font-bold mb-2 mt-4">Domain Assignment</h1>
+            <p className="text-muted-foreground mb-5">
+                {accepted === null
+                    ? <span className="text-red-600">Could not count the accepted Engineering competitors.</span>
+                    : `${accepted} accepted Engineering competitors.`}
+                {" "}Set how many each domain takes and propose an assignment:
+                {" "}competitors are placed where their recommendation fits best without exceeding any capacity.
+                {" "}Lock a competitor to a domain to keep them there, then commit to write the domains.
+            </p>
+
+            {blind ? (
+                <p className="border rounded-md p-5 text-sm text-muted-foreground">
+                    Blind review is on: only chairs can propose and commit domain assignments.
+                </p>
+            ) : (
+                <DomainAssignmentEditor initialCapacities={{ A: share, B: share, C: share }} />
+            )}
+
+            <div className="mt-10">
+                <LogoutButton />
+            </div>
+        </div>
+    );
+}
@@ -2,43 +2,126 @@
 
 import { ColumnDef } from "@tanstack/react-table"
 import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import type { ReactNode } from "react"
+import type { CompetitorRow } from "@/lib/competitors"
+import { DISAGREEMENT_SPREAD } from "@/lib/reviewRubric"
 
-// This type matches your Firestore "competitors" document structure
-export type Competitor = {
-    id: string
-    fullName: string
-    email: string
-    major: string
-    status: string
+// One row of a dashboard table (from Firestore "competitors", see lib/competitors.ts)
+export type Competitor = CompetitorRow
+
+// Identifying values under blind review (lib/blindReview.ts)
+function Hidden() {
+    return <span className="text-muted-foreground">Hidden</span>
+}
+
+// Carries the dashboard's filters, so the detail page can step through the same list
+function DetailLink({ id, children }: { id: string; children: ReactNode }) {
+    const searchParams = useSearchParams()
+    const query = searchParams.toString()
+    return (
+        <Link
+            href={`/admin/dashboard/${id}${query ? `?${query}` : ""}`}
+            className="text-brand-teal hover:underline font-medium"
+        >
+            {children}
+        </Link>
+    )
 }
 
+// Checkbox column for tables with row selection
+export const selectColumn: ColumnDef<Competitor> = {
+    id: "select",
+    enableSorting: false,
+    header: ({ table }) => (
+        <input
+            type="checkbox"
+            aria-label="Select all on this page"
+            checked={table.getIsAllPageRowsSelected()}
+            ref={(el) => { if (el) el.indeterminate = table.getIsSomePageRowsSelected() }}
+            onChange={table.getToggleAllPageRowsSelectedHandler()}
+        />
+    ),
+    cell: ({ row }) => (
+        <input
+            type="checkbox"
+            aria-label={`Select ${row.original.fullName || row.original.email || row.original.applicantCode}`}
+            checked={row.getIsSelected()}
+            onChange={row.getToggleSelectedHandler()}
+        />
+    ),
+}
+
+// Column ids double as sort fields (lib/competitorQuery.ts); the rest can't be sorted
 export const columns: ColumnDef<Competitor>[] = [
     {
         accessorKey: "fullName",
         header: "Full Name",
         cell: ({ row }) => {
             const fullName = row.getValue("fullName") as string;
-            const id = row.original.id;
             return (
-                <Link
-                    href={`/admin/dashboard/${id}`}
-                    className="text-brand-teal hover:underline font-medium"
-                >
-                    {fullName}
-                </Link>
+                <DetailLink id={row.original.id}>
+                    {row.original.identityHidden ? row.original.applicantCode : fullName}
+                </DetailLink>
             )
         }
     },
     {
         accessorKey: "email",
         header: "Email",
+        cell: ({ row }) => (row.original.identityHidden ? <Hidden /> : row.original.email),
     },
     {
         accessorKey: "major",
         header: "Major",
+        enableSorting: false,
+    },
+    {
+        accessorKey: "university",
+        header: "University",
+        enableSorting: false,
+        cell: ({ row }) => (row.original.identityHidden ? <Hidden /> : row.original.university),
     },
     {
         accessorKey: "status",
         header: "Status",
     },
-]
\ No newline at end of file
+    {
+        accessorKey: "isPaid",
+        header: "Paid",
+        enableSorting: false,
+        cell: ({ row }) => (row.original.isPaid ? "Yes" : "No"),
+    },
+    {
+        accessorKey: "domain",
+        header: "Domain",
+        enableSorting: false,
+        cell: ({ row }) => row.original.domain || "—",
+    },
+    {
+        id: "reviews",
+        header: "Reviews",
+        enableSorting: false,
+        cell: ({ row }) => {
+            const reviews = row.original.reviews;
+            if (!reviews || reviews.count === 0) return <span className="text-muted-foreground">None</span>;
+            return (
+                <span title={`Largest gap between reviewers on one criterion: ${reviews.disagreement} point(s)`}>
+                    {reviews.count} · avg {reviews.average ?? "—"}
+                    {reviews.disagreement >= DISAGREEMENT_SPREAD && (
+                        <span className="ml-1 text-yellow-700 font-medium">split</span>
+                    )}
+                </span>
+            )
+        }
+    },
+    {
+        accessorKey: "submittedAt",
+        header: "Submitted",
+        sortDescFirst: true,
+        cell: ({ row }) => {
+            const submittedAt = row.original.submittedAt;
+            return submittedAt ? new Date(submittedAt).toLocaleDateString() : "—";
+        }
+    },
+]
@@ -2,6 +2,9 @@
 
 import {
     ColumnDef,
+    OnChangeFn,
+    RowSelectionState,
+    SortingState,
     flexRender,
     getCoreRowModel,
     useReactTable,
@@ -19,16 +22,37 @@ import {
 interface DataTableProps<TData, TValue> {
     columns: ColumnDef<TData, TValue>[]
     data: TData[]
+    emptyMessage?: string
+    // Sorting is done by the caller (e.g. in the query); headers only report clicks
+    sorting?: SortingState
+    onSortingChange?: OnChangeFn<SortingState>
+    // Row selection, keyed by getRowId (needs a column that renders checkboxes)
+    rowSelection?: RowSelectionState
+    onRowSelectionChange?: OnChangeFn<RowSelectionState>
+    getRowId?: (row: TData) => string
 }
 
 export function DataTable<TData, TValue>({
     columns,
     data,
+    emptyMessage = "No results.",
+    sorting,
+    onSortingChange,
+    rowSelection,
+    onRowSelectionChange,
+    getRowId,
 }: DataTableProps<TData, TValue>) {
     const table = useReactTable({
         data,
         columns,
         getCoreRowModel: getCoreRowModel(),
+        manualSorting: true,
+        enableSorting: !!onSortingChange,
+        enableRowSelection: !!onRowSelectionChange,
+        state: { sorting: sorting ?? [], rowSelection: rowSelection ?? {} },
+        onSortingChange,
+        onRowSelectionChange,
+        getRowId,
     })
 
     return (
@@ -39,9 +63,20 @@ export function DataTable<TData, TValue>({
                         <TableRow key={headerGroup.id}>
                             {headerGroup.headers.map((header) => (
                                 <TableHead key={header.id} className="text-foreground font-bold">
-                                    {header.isPlaceholder
-                                        ? null
-                                        : flexRender(header.column.columnDef.header, header.getContext())}
+                                    {header.isPlaceholder ? null : header.column.getCanSort() ? (
+                                        <button
+                                            type="button"
+                                            onClick={header.column.getToggleSortingHandler()}
+                                            className="inline-flex items-center gap-1 hover:underline"
+                                        >
+                                            {flexRender(header.column.columnDef.header, header.getContext())}
+                                            <span className="text-muted-foreground">
+                                                {header.column.getIsSorted() === "asc" ? "▲" : header.column.getIsSorted() === "desc" ? "▼" : "↕"}
+                                            </span>
+                                        </button>
+                                    ) : (
+                                        flexRender(header.column.columnDef.header, header.getContext())
+                                    )}
                                 </TableHead>
                             ))}
                         </TableRow>
@@ -50,7 +85,7 @@ export function DataTable<TData, TValue>({
                 <TableBody>
                     {table.getRowModel().rows?.length ? (
                         table.getRowModel().rows.map((row) => (
-                            <TableRow key={row.id}>
+                            <TableRow key={row.id} data-state={row.getIsSelected() ? "selected" : undefined}>
                                 {row.getVisibleCells().map((cell) => (
                                     <TableCell key={cell.id}>
                                         {flexRender(cell.column.columnDef.cell, cell.getContext())}
@@ -61,7 +96,7 @@ export function DataTable<TData, TValue>({
                     ) : (
                         <TableRow>
                             <TableCell colSpan={columns.length} className="h-24 text-center">
-                                No medicine competitors found.
+                                {emptyMessage}
                             </TableCell>
                         </TableRow>
                     )}
@@ -1,76 +1,140 @@
-import { adminDb } from "@/lib/firebaseAdmin";
-import { columns, Competitor } from "./columns"; // Import the type
-import { DataTable } from "./data-table";
+import Link from "next/link";
 import LogoutButton from "@/components/logout"
+import { COMPETITOR_TABLE_PREFIXES, parseCompetitorFilters, type CompetitorFilters } from "@/lib/competitorQuery";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { blindFilters, hideRowIdentity, isBlindViewer, isIdentityRevealed, type BlindReviewer } from "@/lib/blindReview";
+import {
+    COMPETITOR_PAGE_SIZE,
+    getCompetitorStats,
+    listCompetitors,
+    type CompetitorPage,
+    type CompetitorStats,
+    type CompetitorTrack,
+} from "@/lib/competitors";
+import CompetitorTable from "./CompetitorTable";
+import FormDriftNotice from "./FormDriftNotice";
+import OutboxNotice from "./OutboxNotice";
+import DomainRecommendationNotice from "./DomainRecommendationNotice";
 
 // Add these exports to disable caching
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-async function getMedicineCompetitors(): Promise<Competitor[]> {
-    const competitorsRef = adminDb.collection("competitors");
-    const snapshot = await competitorsRef.where("major", "in", ["Medicine", "Healthcare"]).get();
+const MEDICINE_PREFIX = COMPETITOR_TABLE_PREFIXES.medicine;
+const ENGINEERING_PREFIX = COMPETITOR_TABLE_PREFIXES.engineering;
 
-    // Cast the data to Competitor
-    return snapshot.docs.map(doc => {
-        const data = doc.data();
-        console.log(data.status);
+async function loadTable(track: CompetitorTrack, filters: CompetitorFilters, viewer: BlindReviewer | null): Promise<CompetitorPage | null> {
+    try {
+        const page = await listCompetitors(track, filters);
         return {
-            id: doc.id,
-            fullName: data.fullName || "",
-            email: data.email || "",
-            major: data.major || "",
-            status: data.status || "pending",
-        } as Competitor;
-    });
+            ...page,
+            rows: page.rows.map(row =>
+                isIdentityRevealed(viewer, row.reviews?.reviewerUids ?? []) ? row : hideRowIdentity(row)
+            ),
+        };
+    } catch (error) {
+        // Usually a composite index missing from firestore.indexes.json (or not deployed); the error links to creating it
+        console.error(`Failed to load ${track} competitors:`, error);
+        return null;
+    }
 }
-async function getEngineeringCompetitors(): Promise<Competitor[]> {
-    const competitorsRef = adminDb.collection("competitors");
-    const snapshot = await competitorsRef.where("major", "==", "Engineering").get();
 
-    // Cast the data to Competitor
-    return snapshot.docs.map(doc => {
-        const data = doc.data();
-        console.log(data.status);
-        return {
-            id: doc.id,
-            fullName: data.fullName || "",
-            email: data.email || "",
-            major: data.major || "",
-            status: data.status || "pending",
-        } as Competitor;
-    });
+async function loadStats(track: CompetitorTrack): Promise<CompetitorStats | null> {
+    try {
+        return await getCompetitorStats(track);
+    } catch (error) {
+        console.error(`Failed to count ${track} competitors:`, error);
+        return null;
+    }
 }
 
-export default async function DashboardPage() {
-    const data = await getMedicineCompetitors();
-    const engineeringData = await getEngineeringCompetitors();
+function StatsPanel({ title, stats }: { title: string; stats: CompetitorStats | null }) {
+    return (
+        <div className="mt-5 border p-5 rounded-lg">
+            <h2 className="text-lg font-semibold mb-2">{title} Stats</h2>
+            {stats ? (
+                <>
+                    <p>Total {title} Competitors: {stats.total}</p>
+                    <p>Accepted Applications: {stats.accepted}</p>
+                    <p>Rejected Applications: {stats.rejected}</p>
+                </>
+            ) : (
+                <p className="text-sm text-red-600">Could not load the counts. Check the server logs.</p>
+            )}
+        </div>
+    );
+}
+
+export default async function DashboardPage({
+    searchParams
+}: {
+    searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+    const params = await searchParams;
+    const viewer = await verifyAdminSession().catch(() => null);
+    // Blind reviewers can't search or sort by identity (lib/blindReview.ts)
+    const blind = isBlindViewer(viewer);
+    const filtersFor = (prefix: string) => {
+        const filters = parseCompetitorFilters(params, prefix);
+        return blind ? blindFilters(filters) : filters;
+    };
+    const medicineFilters = filtersFor(MEDICINE_PREFIX);
+    const engineeringFilters = filtersFor(ENGINEERING_PREFIX);
+
+    const [medicine, engineering, medicineStats, engineeringStats] = await Promise.all([
+        loadTable("medicine", medicineFilters, viewer),
+        loadTable("engineering", engineeringFilters, viewer),
+        loadStats("medicine"),
+        loadStats("engineering"),
+    ]);
 
     return (
         <div className="container mx-auto py-10">
+            <FormDriftNotice />
+            <OutboxNotice />
+            <DomainRecommendationNotice />
             <h1 className="text-2xl font-bold mb-5">Healthcare Competitors</h1>
-            <p className="text-muted-foreground mb-5">Guide: Click on the competitor's name which will open their details on another tab to view and update their status. All changes will be displayed in the table below.</p>
-            {/* Now 'data' matches 'columns' types exactly */}
-            <DataTable columns={columns} data={data} />
-            <div className="mt-5 border p-5 rounded-lg">
-                <h2 className="text-lg font-semibold mb-2">Healthcare Stats</h2>
-                <p>Total Healthcare Competitors: {data.length}</p>
-                <p>Accepted Applications: {data.filter((competitor) => competitor.status.toLowerCase() === "accepted").length}</p>
-                <p>Rejected Applications: {data.filter((competitor) => competitor.status.toLowerCase() === "rejected").length}</p>
-            </div>
+            <p className="text-muted-foreground mb-5">Guide: Click on the competitor's name which will open their details on another tab to view and update their status, and step through the filtered list from there. Filters, sorting and the page are kept in the address bar, so a view can be shared as a link. Search matches the start of a name or email.</p>
+            {blind && (
+                <p className="text-muted-foreground mb-5">Blind review is on: competitors you haven&apos;t reviewed yet are shown by applicant code, and searching by name, email or university is off.</p>
+            )}
+            <CompetitorTable
+                prefix={MEDICINE_PREFIX}
+                filters={medicineFilters}
+                page={medicine}
+                pageSize={COMPETITOR_PAGE_SIZE}
+                blind={blind}
+                emptyMessage="No healthcare competitors found."
+            />
+            <StatsPanel title="Healthcare" stats={medicineStats} />
 
-            <h1 className="text-2xl font-bold mb-5 mt-20">Engineering Competitors</h1>
-            <DataTable columns={columns} data={engineeringData} />
-            <div className="mt-5 border p-5 rounded-lg">
-                <h2 className="text-lg font-semibold mb-2">Engineering Stats</h2>
-                <p>Total Engineering Competitors: {engineeringData.length}</p>
-                <p>Accepted Applications: {engineeringData.filter((competitor) => competitor.status.toLowerCase() === "accepted").length}</p>
-                <p>Rejected Applications: {engineeringData.filter((competitor) => competitor.status.toLowerCase() === "rejected").length}</p>
+            <div className="flex items-baseline justify-between mb-5 mt-20">
+                <h1 className="text-2xl font-bold">Engineering Competitors</h1>
+                <div className="flex gap-4">
+                    <Link href="/admin/dashboard/assignment" className="text-sm text-blue-600 hover:underline">
+                        Assign domains
+                    </Link>
+                    <Link href="/admin/dashboard/teams" className="text-sm text-blue-600 hover:underline">
+                        Teams
+                    </Link>
+                    <Link href="/admin/dashboard/scoring" className="text-sm text-blue-600 hover:underline">
+                        Domain scoring model
+                    </Link>
+                </div>
             </div>
+            <CompetitorTable
+                prefix={ENGINEERING_PREFIX}
+                filters={engineeringFilters}
+                page={engineering}
+                pageSize={COMPETITOR_PAGE_SIZE}
+                blind={blind}
+                emptyMessage="No engineering competitors found."
+            />
+            <StatsPanel title="Engineering" stats={engineeringStats} />
 
             <div className="mt-10">
                 <LogoutButton />
             </div>
         </div>
     );
-}
\ No newline at end of file
+}
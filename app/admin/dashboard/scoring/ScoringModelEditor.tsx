@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ApiError, callApi } from '@/lib/apiClient';
+import { publishScoringModelContract } from '@/lib/apiContracts';
+import { ScoringModelBody } from '@/lib/scoringModel';
+
+interface ScoringModelEditorProps {
+    initialModel: ScoringModelBody;
+    currentVersion: number;
+}
+
+/**
+ * JSON editor for the scoring model. The model is validated here before it is
+ * sent and again by the API, which rejects anything the schema does not allow.
+ */
+export default function ScoringModelEditor({ initialModel, currentVersion }: ScoringModelEditorProps) {
+    const router = useRouter();
+    const [text, setText] = useState(() => JSON.stringify(initialModel, null, 4));
+    const [issues, setIssues] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    const validate = (): ScoringModelBody | null => {
+        let json: unknown;
+        try {
+            json = JSON.parse(text);
+        } catch (error) {
+            setIssues([`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+            return null;
+        }
+
+        const parsed = ScoringModelBody.safeParse(json);
+        if (!parsed.success) {
+            setIssues(parsed.error.issues.map(issue => `${issue.path.join('.') || '(model)'}: ${issue.message}`));
+            return null;
+        }
+
+        setIssues([]);
+        return parsed.data;
+    };
+
+    const publish = async () => {
+        const model = validate();
+        if (!model) return;
+        if (!confirm(`Publish this model as a new version (currently v${currentVersion})?`)) return;
+
+        setSaving(true);
+        try {
+            const result = await callApi(publishScoringModelContract, { model }, { credentials: 'include' });
+            alert(`Published scoring model v${result.version}. Recompute recommendations from the dashboard to apply it.`);
+            router.refresh();
+        } catch (error) {
+            if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+                alert('Session expired or insufficient permissions. Redirecting to login...');
+                window.location.href = '/admin';
+            } else if (error instanceof ApiError && error.issues) {
+                setIssues(error.issues.map(issue => `${issue.path}: ${issue.message}`));
+            } else {
+                console.error('Error publishing scoring model:', error);
+                alert(error instanceof Error ? error.message : 'Failed to publish scoring model');
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="border p-5 rounded-lg">
+            <p className="text-sm text-muted-foreground mb-3">
+                <code>weights</code> scale the four score components. <code>skills</code> and <code>personas</code> give
+                {' '}the weights for each form option (matched exactly, ignoring case), and <code>keywords</code> what a
+                {' '}keyword in a free-text answer adds to domains A, B and C. Keywords match whole words (plurals
+                {' '}and -ed/-ing forms included), several words match a phrase, and a trailing <code>*</code> matches a prefix.
+            </p>
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                spellCheck={false}
+                rows={30}
+                className="w-full font-mono text-xs border rounded p-3"
+            />
+            {issues.length > 0 && (
+                <ul className="mt-3 text-sm text-red-600 list-disc pl-5 space-y-1">
+                    {issues.map((issue) => <li key={issue}>{issue}</li>)}
+                </ul>
+            )}
+            <div className="mt-3 flex gap-2">
+                <button
+                    onClick={validate}
+                    disabled={saving}
+                    className="px-4 py-2 text-sm font-medium rounded border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                    Validate
+                </button>
+                <button
+                    onClick={publish}
+                    disabled={saving}
+                    className="px-4 py-2 text-sm font-medium rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {saving ? 'Publishing...' : 'Publish new version'}
+                </button>
+            </div>
+        </div>
+    );
+}
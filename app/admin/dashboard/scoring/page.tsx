@@ -0,0 +1,92 @@
+import Link from "next/link";
+import LogoutButton from "@/components/logout";
+import { getOptionCoverage } from "@/lib/scoringModel";
+import { loadFormSchema } from "@/lib/formSchema";
+import { listScoringModelVersions, loadScoringModel } from "@/lib/scoringModelStore";
+import ScoringModelEditor from "./ScoringModelEditor";
+
+// Add these exports to disable caching
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export default async function ScoringModelPage() {
+    const model = await loadScoringModel();
+    const versions = await listScoringModelVersions().catch((error) => {
+        console.error("Failed to load scoring model versions:", error);
+        return null;
+    });
+
+    // Options on the form applicants currently see that this model does not weight
+    const coverage = await loadFormSchema("competitor")
+        .then((schema) => getOptionCoverage(schema.questions, model))
+        .catch((error) => {
+            console.error("Failed to load the competitor form for option coverage:", error);
+            return null;
+        });
+
+    const { version, ...body } = model;
+
+    return (
+        <div className="container mx-auto py-10">
+            <Link href="/admin/dashboard" className="text-sm text-blue-600 hover:underline">
+                ← Back to dashboard
+            </Link>
+            <h1 className="text-2xl font-bold mb-2 mt-4">Domain Scoring Model</h1>
+            <p className="text-muted-foreground mb-5">
+                Active version: v{version}.
+                Publishing creates a new version; existing recommendations stay as they are until they are recomputed from the dashboard.
+            </p>
+
+            {coverage && coverage.unmapped.length > 0 && (
+                <div className="mb-5 border border-red-300 bg-red-50 rounded-lg p-4">
+                    <h2 className="font-semibold mb-1">Form options without weights</h2>
+                    <p className="text-sm text-muted-foreground mb-2">
+                        These options are on the live form but not in the option catalog, so choosing them scores nothing.
+                    </p>
+                    <ul className="text-sm list-disc pl-5 space-y-1">
+                        {coverage.unmapped.map(({ field, option }) => (
+                            <li key={`${field}:${option}`}><span className="font-medium">{field}</span>: {option}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {coverage && coverage.unused.length > 0 && (
+                <div className="mb-5 border border-yellow-300 bg-yellow-50 rounded-lg p-4">
+                    <h2 className="font-semibold mb-1">Catalog entries not on the form</h2>
+                    <ul className="text-sm list-disc pl-5 space-y-1">
+                        {coverage.unused.map(({ catalog, option }) => (
+                            <li key={`${catalog}:${option}`}><span className="font-medium">{catalog}</span>: {option}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <ScoringModelEditor initialModel={body} currentVersion={version} />
+
+            <div className="mt-10 border p-5 rounded-lg">
+                <h2 className="text-lg font-semibold mb-2">Published Versions</h2>
+                {!versions ? (
+                    <p className="text-sm text-red-600">Could not load the published versions. Check the server logs.</p>
+                ) : versions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No versions stored yet.</p>
+                ) : (
+                    <ul className="text-sm space-y-1">
+                        {versions.map((entry) => (
+                            <li key={entry.version}>
+                                <span className="font-medium">v{entry.version}</span>
+                                {entry.description && <> — {entry.description}</>}
+                                <span className="text-muted-foreground">
+                                    {" "}({entry.createdBy}{entry.createdAt && `, ${new Date(entry.createdAt).toLocaleString()}`})
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="mt-10">
+                <LogoutButton />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ApiError, callApi } from '@/lib/apiClient';
+import { buildTeamsContract, publishTeamsContract, swapTeamMembersContract } from '@/lib/apiContracts';
+import type { Team } from '@/lib/teams';
+
+interface TeamBoardProps {
+    teams: Team[];
+}
+
+// "a@uni.edu, b@uni.edu" per line
+function parsePinnedPairs(text: string): [string, string][] | string {
+    const pairs: [string, string][] = [];
+    for (const line of text.split('\n').map(line => line.trim()).filter(Boolean)) {
+        const emails = line.split(/[,\s]+/).filter(Boolean);
+        if (emails.length !== 2) return `Expected two emails on "${line}"`;
+        pairs.push([emails[0], emails[1]]);
+    }
+    return pairs;
+}
+
+export default function TeamBoard({ teams }: TeamBoardProps) {
+    const router = useRouter();
+    const [teamSize, setTeamSize] = useState(4);
+    const [pinnedText, setPinnedText] = useState('');
+    const [selected, setSelected] = useState<string[]>([]);
+    const [loading, setLoading] = useState(false);
+
+    const published = teams.length > 0 && teams.every(team => team.published);
+
+    const run = async (action: () => Promise<string>, fallback: string) => {
+        setLoading(true);
+        try {
+            alert(await action());
+            setSelected([]);
+            router.refresh();
+        } catch (error) {
+            if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+                alert('Session expired or insufficient permissions. Redirecting to login...');
+                window.location.href = '/admin';
+            } else {
+                console.error(fallback, error);
+                alert(error instanceof Error ? error.message : fallback);
+            }
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const build = () => {
+        const pinnedPairs = parsePinnedPairs(pinnedText);
+        if (typeof pinnedPairs === 'string') {
+            alert(pinnedPairs);
+            return;
+        }
+        if (teams.length > 0 && !confirm(`Replace the current ${teams.length} teams${published ? ' (published)' : ''}?`)) return;
+
+        run(async () => {
+            const result = await callApi(buildTeamsContract, { teamSize, pinnedPairs }, { credentials: 'include' });
+            return `Built ${result.teams} teams from ${result.members} competitors. Review them, then publish.`;
+        }, 'Failed to build teams');
+    };
+
+    const swap = () => run(async () => {
+        await callApi(swapTeamMembersContract, { uidA: selected[0], uidB: selected[1] }, { credentials: 'include' });
+        return 'Competitors swapped.';
+    }, 'Failed to swap competitors');
+
+    const togglePublished = () => {
+        if (!confirm(published ? 'Hide teams from competitors?' : 'Show every competitor their team?')) return;
+        run(async () => {
+            const result = await callApi(publishTeamsContract, { published: !published }, { credentials: 'include' });
+            return result.published ? `${result.teams} teams published.` : 'Teams hidden.';
+        }, 'Failed to update team visibility');
+    };
+
+    const toggleSelected = (uid: string) => {
+        setSelected(current => current.includes(uid)
+            ? current.filter(id => id !== uid)
+            : [...current, uid].slice(-2));
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="border p-5 rounded-lg flex flex-wrap items-end gap-4">
+                <label className="text-sm">
+                    <span className="block text-muted-foreground mb-1">Team size</span>
+                    <input
+                        type="number"
+                        min={2}
+                        max={10}
+                        value={teamSize}
+                        onChange={(e) => setTeamSize(Number(e.target.value) || 4)}
+                        className="border rounded px-2 py-1 w-24"
+                    />
+                </label>
+                <label className="text-sm flex-1 min-w-64">
+                    <span className="block text-muted-foreground mb-1">Pinned pairs (two competitor emails per line)</span>
+                    <textarea
+                        value={pinnedText}
+                        onChange={(e) => setPinnedText(e.target.value)}
+                        rows={2}
+                        className="border rounded px-2 py-1 w-full font-mono text-xs"
+                    />
+                </label>
+                <button
+                    onClick={build}
+                    disabled={loading}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                    {loading ? 'Working...' : 'Build teams'}
+                </button>
+            </div>
+
+            {teams.length > 0 && (
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                    <p className="text-sm text-muted-foreground">
+                        {teams.length} teams · {published ? 'visible to competitors' : 'not published'}
+                        {selected.length > 0 && ` · ${selected.length} of 2 selected for a swap`}
+                    </p>
+                    <div className="flex gap-3">
+                        <button
+                            onClick={swap}
+                            disabled={loading || selected.length !== 2}
+                            className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:opacity-50"
+                        >
+                            Swap selected
+                        </button>
+                        <button
+                            onClick={togglePublished}
+                            disabled={loading}
+                            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                        >
+                            {published ? 'Unpublish teams' : 'Publish teams'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {teams.map(team => (
+                    <div key={team.id} className="border rounded-lg p-4">
+                        <h3 className="font-semibold mb-2">{team.name}</h3>
+                        <ul className="space-y-1 text-sm">
+                            {team.members.map(member => (
+                                <li key={member.uid}>
+                                    <label className="flex items-start gap-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.includes(member.uid)}
+                                            onChange={() => toggleSelected(member.uid)}
+                                            className="mt-1"
+                                        />
+                                        <span>
+                                            <span className="font-medium">{member.name || member.email}</span>
+                                            <span className="text-muted-foreground">
+                                                {' '}· {member.track === 'medicine' ? 'Clinician' : member.persona || 'Engineer'}
+                                                {' '}· {member.major} · {member.university}
+                                            </span>
+                                        </span>
+                                    </label>
+                                </li>
+                            ))}
+                        </ul>
+                        {team.issues.length > 0 && (
+                            <p className="text-xs text-yellow-700 mt-3">{team.issues.join('; ')}</p>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
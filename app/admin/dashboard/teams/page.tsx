@@ -0,0 +1,50 @@
+import Link from "next/link";
+import LogoutButton from "@/components/logout";
+import { listTeams } from "@/lib/teams";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { isBlindViewer } from "@/lib/blindReview";
+import TeamBoard from "./TeamBoard";
+
+// Add these exports to disable caching
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export default async function TeamsPage() {
+    const viewer = await verifyAdminSession().catch(() => null);
+    // Teams list every member by name and email (lib/blindReview.ts)
+    const blind = isBlindViewer(viewer);
+    const teams = blind ? [] : await listTeams().catch((error) => {
+        console.error("Failed to load teams:", error);
+        return null;
+    });
+
+    return (
+        <div className="container mx-auto py-10">
+            <Link href="/admin/dashboard" className="text-sm text-blue-600 hover:underline">
+                ← Back to dashboard
+            </Link>
+            <h1 className="text-2xl font-bold mb-2 mt-4">Teams</h1>
+            <p className="text-muted-foreground mb-5">
+                Teams are formed per domain from accepted competitors who have a domain, mixing engineers and clinicians.
+                {" "}Building replaces the current teams. Select two competitors in different teams to swap them, and
+                {" "}publish when the teams are final so each member sees their team on the registration page.
+            </p>
+
+            {blind ? (
+                <p className="border rounded-md p-5 text-sm text-muted-foreground">
+                    Blind review is on: only chairs can see and manage teams.
+                </p>
+            ) : teams ? (
+                <TeamBoard teams={teams} />
+            ) : (
+                <p className="border rounded-md p-5 text-sm text-red-600">
+                    Could not load the teams. Check the server logs (a Firestore index may be missing).
+                </p>
+            )}
+
+            <div className="mt-10">
+                <LogoutButton />
+            </div>
+        </div>
+    );
+}
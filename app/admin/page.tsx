@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react'
 import { signInWithPopup, GoogleAuthProvider } from 'firebase/auth'
 import { auth } from '@/lib/Firebase'
 import { useRouter } from 'next/navigation'
+import { callApi } from '@/lib/apiClient'
+import { adminLoginContract } from '@/lib/apiContracts'
 
 export default function AdminLoginPage() {
     const [error, setError] = useState('')
@@ -23,16 +25,7 @@ export default function AdminLoginPage() {
             const idToken = await userCredential.user.getIdToken(true)
 
             // Verify admin privileges with backend
-            const response = await fetch('/api/login-admin', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ idToken }),
-            })
-
-            if (!response.ok) {
-                const data = await response.json()
-                throw new Error(data.error || 'Access denied')
-            }
+            await callApi(adminLoginContract, { idToken })
 
             // Success - redirect to dashboard
             router.push('/admin/dashboard')
@@ -3,6 +3,8 @@ import { adminDb } from "@/lib/firebaseAdmin";
 import { logger } from "@/lib/logger";
 import { verifyAdminSession } from "@/lib/adminAuth";
 import admin from "firebase-admin";
+import { parseRequest } from "@/lib/apiRoute";
+import { deleteEntryContract, type ContractResponse } from "@/lib/apiContracts";
 
 export async function POST(req: NextRequest) {
     const requestId = logger.getRequestId();
@@ -26,12 +28,9 @@ export async function POST(req: NextRequest) {
 
         console.log(`[Admin Action] User ${adminUser.email} authenticated for deletion`);
 
-        const body = await req.json();
-        const { uid } = body;
-
-        if (!uid) {
-            return NextResponse.json({ error: "UID is required" }, { status: 400 });
-        }
+        const parsed = await parseRequest(deleteEntryContract, req);
+        if (!parsed.success) return parsed.response;
+        const { uid } = parsed.data;
 
         // ============================================
         // LAYER 2: Delete from both collections
@@ -93,7 +92,7 @@ export async function POST(req: NextRequest) {
             deletedBy: adminUser.email
         });
 
-        return NextResponse.json({
+        return NextResponse.json<ContractResponse<typeof deleteEntryContract>>({
             success: true,
             message: `Entry deleted from ${deletedFrom}`,
             deletedFrom,
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { isBlindViewer } from "@/lib/blindReview";
+import { apiError, parseRequest } from "@/lib/apiRoute";
+import { commitDomainAssignmentContract, type ContractResponse } from "@/lib/apiContracts";
+import { commitDomainAssignment } from "@/lib/domainAssignment";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST: Write reviewed domain assignments to the competitors, with an audit
+ * entry for every competitor whose domain changes
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        let adminUser;
+        try {
+            adminUser = await verifyAdminSession();
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            logger.warn('Unauthorized domain assignment commit attempt', { requestId, error: errorMessage });
+
+            if (errorMessage.includes("FORBIDDEN")) {
+                return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
+            }
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (isBlindViewer(adminUser)) {
+            return apiError("Only chairs can assign domains while blind review is on", 403, { code: "BLIND_REVIEW" });
+        }
+
+        const parsed = await parseRequest(commitDomainAssignmentContract, req);
+        if (!parsed.success) return parsed.response;
+
+        const result = await commitDomainAssignment(
+            parsed.data.assignments,
+            parsed.data.capacities,
+            { uid: adminUser.uid, email: adminUser.email || adminUser.uid },
+            {
+                requestId,
+                userAgent: req.headers.get('user-agent') || 'unknown',
+                ip: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+            }
+        );
+
+        if (!result.ok) {
+            if (result.reason === "over_capacity") {
+                return apiError(`Domain ${result.domain} is assigned more competitors than its capacity`, 400, {
+                    code: "OVER_CAPACITY",
+                });
+            }
+            return apiError("Some competitors are not accepted Engineering competitors", 400, {
+                code: "NOT_ACCEPTED",
+                issues: result.uids.map(uid => ({ path: `assignments.${uid}`, message: "Not an accepted Engineering competitor" })),
+            });
+        }
+
+        logger.info('Domain assignment committed', {
+            requestId,
+            admin: adminUser.email,
+            assignmentId: result.assignmentId,
+            updated: result.updated,
+            unchanged: result.unchanged
+        });
+
+        return NextResponse.json<ContractResponse<typeof commitDomainAssignmentContract>>({
+            success: true,
+            assignmentId: result.assignmentId,
+            updated: result.updated,
+            unchanged: result.unchanged
+        });
+    } catch (error) {
+        logger.error('Domain assignment commit failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to commit domain assignment" }, { status: 500 });
+    }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { isBlindViewer } from "@/lib/blindReview";
+import { apiError, parseRequest } from "@/lib/apiRoute";
+import { proposeDomainAssignmentContract, type ContractResponse } from "@/lib/apiContracts";
+import { proposeDomainAssignment } from "@/lib/domainAssignment";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST: Propose domains for accepted Engineering competitors under the given
+ * capacities and locks. Nothing is written; commit the reviewed result through
+ * /api/admin/domain-assignment/commit.
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        let adminUser;
+        try {
+            adminUser = await verifyAdminSession();
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            logger.warn('Unauthorized domain assignment access attempt', { requestId, error: errorMessage });
+
+            if (errorMessage.includes("FORBIDDEN")) {
+                return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
+            }
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        // Proposals list every competitor by name and email
+        if (isBlindViewer(adminUser)) {
+            return apiError("Only chairs can assign domains while blind review is on", 403, { code: "BLIND_REVIEW" });
+        }
+
+        const parsed = await parseRequest(proposeDomainAssignmentContract, req);
+        if (!parsed.success) return parsed.response;
+
+        const result = await proposeDomainAssignment(parsed.data);
+        if (!result.ok) {
+            return apiError(`More competitors are locked to Domain ${result.domain} than it has capacity for`, 400, {
+                code: "LOCKS_EXCEED_CAPACITY",
+            });
+        }
+
+        return NextResponse.json<ContractResponse<typeof proposeDomainAssignmentContract>>(result.proposal);
+    } catch (error) {
+        logger.error('Domain assignment proposal failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to propose domain assignment" }, { status: 500 });
+    }
+}
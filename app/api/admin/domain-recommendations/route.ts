@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { parseRequest } from "@/lib/apiRoute";
+import { recomputeDomainsContract, type ContractResponse } from "@/lib/apiContracts";
+import { getRecommendationCoverage, recomputeDomainRecommendations } from "@/lib/domainRecommendations";
+import { ALGORITHM_VERSION } from "@/lib/domainAlgorithm";
+import { logger } from "@/lib/logger";
+
+async function authenticateAdmin(requestId: string) {
+    try {
+        return { adminUser: await verifyAdminSession() };
+    } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.warn('Unauthorized domain recommendations access attempt', { requestId, error: errorMessage });
+
+        if (errorMessage.includes("FORBIDDEN")) {
+            return { response: NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 }) };
+        }
+        return { response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+    }
+}
+
+/**
+ * GET: How many stored recommendations come from the current algorithm version
+ */
+export async function GET() {
+    const requestId = logger.getRequestId();
+
+    try {
+        const auth = await authenticateAdmin(requestId);
+        if (auth.response) return auth.response;
+
+        return NextResponse.json(await getRecommendationCoverage());
+    } catch (error) {
+        logger.error('Failed to load domain recommendation coverage', { requestId, error });
+        return NextResponse.json({ error: "Failed to load domain recommendations" }, { status: 500 });
+    }
+}
+
+/**
+ * POST: Recompute missing or outdated recommendations (all of them with `force`)
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        const auth = await authenticateAdmin(requestId);
+        if (auth.response) return auth.response;
+
+        const parsed = await parseRequest(recomputeDomainsContract, req);
+        if (!parsed.success) return parsed.response;
+
+        const result = await recomputeDomainRecommendations({ force: parsed.data.force });
+
+        logger.info('Domain recommendations recomputed', {
+            requestId,
+            admin: auth.adminUser.email,
+            algorithmVersion: ALGORITHM_VERSION,
+            force: !!parsed.data.force,
+            ...result
+        });
+
+        return NextResponse.json<ContractResponse<typeof recomputeDomainsContract>>({
+            success: true,
+            algorithmVersion: ALGORITHM_VERSION,
+            ...result
+        });
+    } catch (error) {
+        logger.error('Domain recommendation recompute failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to recompute domain recommendations" }, { status: 500 });
+    }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { getLatestSnapshot, getRecentDriftReports } from "@/lib/formSnapshots";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET: Latest form schema snapshot and recent drift reports
+ *
+ * Query params:
+ * - type: "competitor" (default) or "attendee"
+ */
+export async function GET(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        // ============================================
+        // LAYER 1: Admin Authentication
+        // ============================================
+        try {
+            await verifyAdminSession();
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            logger.warn('Unauthorized form drift access attempt', { requestId, error: errorMessage });
+
+            if (errorMessage.includes("FORBIDDEN")) {
+                return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
+            }
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { searchParams } = new URL(req.url);
+        const type = searchParams.get("type") === "attendee" ? "attendee" : "competitor";
+
+        const [snapshot, reports] = await Promise.all([
+            getLatestSnapshot(type),
+            getRecentDriftReports(type),
+        ]);
+
+        return NextResponse.json({
+            type,
+            snapshot: snapshot
+                ? { version: snapshot.version, hash: snapshot.hash, questionCount: snapshot.formData.questions.length }
+                : null,
+            reports,
+        });
+    } catch (error) {
+        logger.error('Failed to load form drift reports', { requestId, error });
+        return NextResponse.json({ error: "Failed to load form drift reports" }, { status: 500 });
+    }
+}
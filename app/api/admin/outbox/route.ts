@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { parseRequest } from "@/lib/apiRoute";
+import { drainOutboxContract, type ContractResponse } from "@/lib/apiContracts";
+import { drainOutbox, getOutboxStatus, requeueOutboxEntry } from "@/lib/outbox";
+import { logger } from "@/lib/logger";
+
+async function authenticateAdmin(requestId: string) {
+    try {
+        return { adminUser: await verifyAdminSession() };
+    } catch (error: any) {
+        const errorMessage = error.message || String(error);
+        logger.warn('Unauthorized outbox access attempt', { requestId, error: errorMessage });
+
+        if (errorMessage.includes("FORBIDDEN")) {
+            return { response: NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 }) };
+        }
+        return { response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+    }
+}
+
+/**
+ * GET: Outbox entry counts and failing deliveries
+ */
+export async function GET() {
+    const requestId = logger.getRequestId();
+
+    try {
+        const auth = await authenticateAdmin(requestId);
+        if (auth.response) return auth.response;
+
+        return NextResponse.json(await getOutboxStatus());
+    } catch (error) {
+        logger.error('Failed to load outbox status', { requestId, error });
+        return NextResponse.json({ error: "Failed to load outbox status" }, { status: 500 });
+    }
+}
+
+/**
+ * POST: Drain the outbox now, optionally giving one dead entry another round of attempts
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        const auth = await authenticateAdmin(requestId);
+        if (auth.response) return auth.response;
+
+        const parsed = await parseRequest(drainOutboxContract, req);
+        if (!parsed.success) return parsed.response;
+        const { entryId } = parsed.data;
+
+        const requeued = entryId ? await requeueOutboxEntry(entryId) : false;
+        const result = await drainOutbox();
+
+        logger.info('Outbox drained by admin', { requestId, admin: auth.adminUser.email, entryId, requeued, ...result });
+
+        return NextResponse.json<ContractResponse<typeof drainOutboxContract>>({
+            success: true,
+            requeued,
+            ...result
+        });
+    } catch (error) {
+        logger.error('Outbox drain failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to drain outbox" }, { status: 500 });
+    }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { apiError, parseRequest } from "@/lib/apiRoute";
+import { submitReviewContract, type ContractResponse } from "@/lib/apiContracts";
+import { submitReview } from "@/lib/reviews";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST: Submit (or replace) the signed-in admin's review of a competitor
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        let adminUser;
+        try {
+            adminUser = await verifyAdminSession();
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            logger.warn('Unauthorized review attempt', { requestId, error: errorMessage });
+
+            if (errorMessage.includes("FORBIDDEN")) {
+                return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
+            }
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const parsed = await parseRequest(submitReviewContract, req);
+        if (!parsed.success) return parsed.response;
+
+        const { competitorId, scores, comment } = parsed.data;
+        const result = await submitReview(
+            competitorId,
+            { uid: adminUser.uid, email: adminUser.email || adminUser.uid },
+            { scores, comment },
+            {
+                requestId,
+                userAgent: req.headers.get('user-agent') || 'unknown',
+                ip: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+            }
+        );
+
+        if (!result.ok) {
+            if (result.reason === "invalid_scores") {
+                return apiError("Invalid scores", 400, {
+                    code: "INVALID_SCORES",
+                    issues: result.problems.map(message => ({ path: "scores", message })),
+                });
+            }
+            if (result.reason === "not_found") return apiError("Competitor not found", 404, { code: "NOT_FOUND" });
+            return apiError("This competitor's major has no review rubric", 400, { code: "UNKNOWN_TRACK" });
+        }
+
+        logger.info('Review submitted', { requestId, competitorId, reviewer: adminUser.email, count: result.summary.count });
+
+        return NextResponse.json<ContractResponse<typeof submitReviewContract>>({ success: true, summary: result.summary });
+    } catch (error) {
+        logger.error('Review submission failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to save review" }, { status: 500 });
+    }
+}
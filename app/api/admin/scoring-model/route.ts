@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { parseRequest } from "@/lib/apiRoute";
+import { publishScoringModelContract, type ContractResponse } from "@/lib/apiContracts";
+import { publishScoringModel } from "@/lib/scoringModelStore";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST: Publish an edited domain scoring model as the next version.
+ * Stored recommendations become outdated until they are recomputed.
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        let adminUser;
+        try {
+            adminUser = await verifyAdminSession();
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            logger.warn('Unauthorized scoring model publish attempt', { requestId, error: errorMessage });
+
+            if (errorMessage.includes("FORBIDDEN")) {
+                return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
+            }
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const parsed = await parseRequest(publishScoringModelContract, req);
+        if (!parsed.success) return parsed.response;
+
+        const version = await publishScoringModel(parsed.data.model, adminUser.email || adminUser.uid);
+
+        logger.info('Scoring model published', { requestId, admin: adminUser.email, version });
+
+        return NextResponse.json<ContractResponse<typeof publishScoringModelContract>>({
+            success: true,
+            version
+        });
+    } catch (error) {
+        logger.error('Scoring model publish failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to publish scoring model" }, { status: 500 });
+    }
+}
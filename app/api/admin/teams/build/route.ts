@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { isBlindViewer } from "@/lib/blindReview";
+import { apiError, parseRequest } from "@/lib/apiRoute";
+import { buildTeamsContract, type ContractResponse } from "@/lib/apiContracts";
+import { buildAndSaveTeams } from "@/lib/teams";
+import { logger } from "@/lib/logger";
+
+const BUILD_ERRORS = {
+    unknown_pinned: "Pinned emails that are not accepted competitors with a domain",
+    pinned_across_domains: "Pinned competitors are in different domains",
+    pinned_group_too_large: "Pinned competitors form a group larger than a team",
+} as const;
+
+/**
+ * POST: Form new teams in every domain, replacing the current (unpublished) ones
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        let adminUser;
+        try {
+            adminUser = await verifyAdminSession();
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            logger.warn('Unauthorized team build attempt', { requestId, error: errorMessage });
+
+            if (errorMessage.includes("FORBIDDEN")) {
+                return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
+            }
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        // Teams are built from competitor emails and list every member by name
+        if (isBlindViewer(adminUser)) {
+            return apiError("Only chairs can manage teams while blind review is on", 403, { code: "BLIND_REVIEW" });
+        }
+
+        const parsed = await parseRequest(buildTeamsContract, req);
+        if (!parsed.success) return parsed.response;
+
+        const result = await buildAndSaveTeams(parsed.data, adminUser.email || adminUser.uid);
+        if (!result.ok) {
+            return apiError(`${BUILD_ERRORS[result.reason]}: ${result.emails.join(", ")}`, 400, {
+                code: result.reason.toUpperCase(),
+            });
+        }
+
+        logger.info('Teams built', { requestId, admin: adminUser.email, teamSize: parsed.data.teamSize, ...result });
+
+        return NextResponse.json<ContractResponse<typeof buildTeamsContract>>({
+            success: true,
+            teams: result.teams,
+            members: result.members
+        });
+    } catch (error) {
+        logger.error('Team build failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to build teams" }, { status: 500 });
+    }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { isBlindViewer } from "@/lib/blindReview";
+import { apiError, parseRequest } from "@/lib/apiRoute";
+import { publishTeamsContract, type ContractResponse } from "@/lib/apiContracts";
+import { setTeamsPublished } from "@/lib/teams";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST: Show every team to its members on the registration page (or hide them again)
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        let adminUser;
+        try {
+            adminUser = await verifyAdminSession();
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            logger.warn('Unauthorized team publish attempt', { requestId, error: errorMessage });
+
+            if (errorMessage.includes("FORBIDDEN")) {
+                return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
+            }
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (isBlindViewer(adminUser)) {
+            return apiError("Only chairs can manage teams while blind review is on", 403, { code: "BLIND_REVIEW" });
+        }
+
+        const parsed = await parseRequest(publishTeamsContract, req);
+        if (!parsed.success) return parsed.response;
+
+        const { published } = parsed.data;
+        const teams = await setTeamsPublished(published);
+
+        logger.info(published ? 'Teams published' : 'Teams unpublished', { requestId, admin: adminUser.email, teams });
+
+        return NextResponse.json<ContractResponse<typeof publishTeamsContract>>({ success: true, published, teams });
+    } catch (error) {
+        logger.error('Team publish failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to update team visibility" }, { status: 500 });
+    }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { isBlindViewer } from "@/lib/blindReview";
+import { apiError, parseRequest } from "@/lib/apiRoute";
+import { swapTeamMembersContract, type ContractResponse } from "@/lib/apiContracts";
+import { swapTeamMembers } from "@/lib/teams";
+import { logger } from "@/lib/logger";
+
+const SWAP_ERRORS = {
+    not_in_team: "Both competitors must be in a team",
+    same_team: "The competitors are already in the same team",
+    different_domains: "Competitors can only be swapped between teams of the same domain",
+} as const;
+
+/**
+ * POST: Swap two competitors between their teams
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        let adminUser;
+        try {
+            adminUser = await verifyAdminSession();
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            logger.warn('Unauthorized team swap attempt', { requestId, error: errorMessage });
+
+            if (errorMessage.includes("FORBIDDEN")) {
+                return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
+            }
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        if (isBlindViewer(adminUser)) {
+            return apiError("Only chairs can manage teams while blind review is on", 403, { code: "BLIND_REVIEW" });
+        }
+
+        const parsed = await parseRequest(swapTeamMembersContract, req);
+        if (!parsed.success) return parsed.response;
+
+        const { uidA, uidB } = parsed.data;
+        const result = await swapTeamMembers(
+            uidA,
+            uidB,
+            { uid: adminUser.uid, email: adminUser.email || adminUser.uid },
+            {
+                requestId,
+                userAgent: req.headers.get('user-agent') || 'unknown',
+                ip: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+            }
+        );
+        if (!result.ok) {
+            return apiError(SWAP_ERRORS[result.reason], 400, { code: result.reason.toUpperCase() });
+        }
+
+        logger.info('Team members swapped', { requestId, admin: adminUser.email, uidA, uidB });
+
+        return NextResponse.json<ContractResponse<typeof swapTeamMembersContract>>({ success: true });
+    } catch (error) {
+        logger.error('Team swap failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to swap team members" }, { status: 500 });
+    }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAdminSession } from "@/lib/adminAuth";
+import { parseRequest } from "@/lib/apiRoute";
+import { bulkUpdateStatusContract, type ContractResponse } from "@/lib/apiContracts";
+import { bulkUpdateStatus } from "@/lib/applicationStatus";
+import { logger } from "@/lib/logger";
+
+/**
+ * POST: Set the status of many competitors at once, with a result per competitor
+ */
+export async function POST(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    try {
+        let adminUser;
+        try {
+            adminUser = await verifyAdminSession();
+        } catch (error: any) {
+            const errorMessage = error.message || String(error);
+            logger.warn('Unauthorized bulk status update attempt', { requestId, error: errorMessage });
+
+            if (errorMessage.includes("FORBIDDEN")) {
+                return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
+            }
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const parsed = await parseRequest(bulkUpdateStatusContract, req);
+        if (!parsed.success) return parsed.response;
+
+        const { competitorIds, status } = parsed.data;
+        const { bulkId, items } = await bulkUpdateStatus(
+            competitorIds,
+            status,
+            { uid: adminUser.uid, email: adminUser.email || adminUser.uid },
+            {
+                requestId,
+                userAgent: req.headers.get('user-agent') || 'unknown',
+                ip: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown'
+            }
+        );
+        const updated = items.filter(item => item.result === "updated").length;
+
+        logger.info('Bulk status update', {
+            requestId,
+            admin: adminUser.email,
+            status,
+            bulkId,
+            requested: competitorIds.length,
+            updated,
+            notFound: items.filter(item => item.result === "not_found").length,
+            needsReviews: items.filter(item => item.result === "needs_reviews").length
+        });
+
+        return NextResponse.json<ContractResponse<typeof bulkUpdateStatusContract>>({
+            success: true,
+            status,
+            bulkId,
+            updated,
+            results: items
+        });
+    } catch (error) {
+        logger.error('Bulk status update failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to update statuses" }, { status: 500 });
+    }
+}
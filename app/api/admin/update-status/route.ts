@@ -3,6 +3,9 @@ import { adminDb } from "@/lib/firebaseAdmin";
 import { verifyAdminSession } from "@/lib/adminAuth";
 import admin from "firebase-admin";
 import { logger } from "@/lib/logger";
+import { parseRequest } from "@/lib/apiRoute";
+import { updateStatusContract, type ContractResponse } from "@/lib/apiContracts";
+import { getRequiredReviews, hasRequiredReviews } from "@/lib/reviews";
 
 export async function POST(request: NextRequest) {
     const requestId = logger.getRequestId();
@@ -37,25 +40,9 @@ export async function POST(request: NextRequest) {
         // ============================================
         // 2. INPUT VALIDATION
         // ============================================
-        const body = await request.json();
-        const { competitorId, status } = body;
-
-        if (!competitorId || !status) {
-            return NextResponse.json(
-                { error: 'Missing competitorId or status' },
-                { status: 400 }
-            );
-        }
-
-        // Validate status values (standardized to lowercase/PascalCase as needed)
-        // Note: The UI seems to send 'Accepted', 'Rejected', or 'pending'
-        const validStatuses = ['Accepted', 'Rejected', 'pending'];
-        if (!validStatuses.includes(status)) {
-            return NextResponse.json(
-                { error: `Invalid status value. Must be one of: ${validStatuses.join(', ')}` },
-                { status: 400 }
-            );
-        }
+        const parsed = await parseRequest(updateStatusContract, request);
+        if (!parsed.success) return parsed.response;
+        const { competitorId, status } = parsed.data;
 
         // ============================================
         // 3. FETCH CURRENT STATUS & UPDATE
@@ -71,6 +58,18 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        // Decisions need enough rubric reviews; resetting to pending doesn't
+        if (status !== 'pending' && !hasRequiredReviews(competitorDoc.data()!)) {
+            logger.warn('Status decision without enough reviews', { requestId, competitorId, status });
+            return NextResponse.json(
+                {
+                    error: `A decision needs ${getRequiredReviews()} reviews. Submit the rubric first.`,
+                    code: 'REVIEWS_REQUIRED'
+                },
+                { status: 409 }
+            );
+        }
+
         const oldStatus = competitorDoc.data()?.status || 'pending';
         const now = new Date().toISOString();
 
@@ -116,7 +115,7 @@ export async function POST(request: NextRequest) {
             admin: adminUser.email
         });
 
-        return NextResponse.json({
+        return NextResponse.json<ContractResponse<typeof updateStatusContract>>({
             success: true,
             status,
             oldStatus,
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { adminAuth, adminDb } from "@/lib/firebaseAdmin";
+import { applicationContract } from "@/lib/apiContracts";
+import { withContract } from "@/lib/apiRoute";
+import { canEditApplication, getApplicationCollection, getEditDeadline, pickApplicationFields } from "@/lib/applications";
+import type { FormType } from "@/lib/formFields";
+import { logger } from "@/lib/logger";
+
+/**
+ * The signed-in applicant's own answers, used to prefill the form when they
+ * edit their application
+ */
+export const POST = withContract(applicationContract, async ({ idToken }, { ok }) => {
+    const requestId = logger.getRequestId();
+
+    try {
+        let decodedToken;
+        try {
+            decodedToken = await adminAuth.verifyIdToken(idToken, true);
+        } catch (error) {
+            logger.warn("Application fetch with invalid token", { requestId, error: error instanceof Error ? error.message : String(error) });
+            return NextResponse.json({ error: "Invalid authentication token" }, { status: 401 });
+        }
+
+        for (const type of ["competitor", "attendee"] as FormType[]) {
+            const doc = await adminDb.collection(getApplicationCollection(type)).doc(decodedToken.uid).get();
+            const data = doc.data();
+            if (!doc.exists || !data || data.submitted !== true) continue;
+
+            return ok({
+                application: {
+                    type,
+                    fields: pickApplicationFields(type, data),
+                    revision: data.revision || 1,
+                    canEdit: canEditApplication(data),
+                    editableUntil: getEditDeadline()?.toISOString() ?? null,
+                },
+            });
+        }
+
+        return ok({ application: null });
+    } catch (error) {
+        logger.error("Application fetch failed", { requestId, error });
+        return NextResponse.json({ error: "Failed to load application" }, { status: 500 });
+    }
+});
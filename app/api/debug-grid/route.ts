@@ -1,11 +1,12 @@
 import { NextResponse } from "next/server";
+import { getFormSource } from "@/lib/formSource";
 
 export async function GET() {
     try {
         const publishedId = process.env.GOOGLE_FORM_PUBLISHED_ID;
-        const url = `https://docs.google.com/forms/d/e/${publishedId}/viewform`;
-        const res = await fetch(url);
-        const html = await res.text();
+        if (!publishedId) return NextResponse.json({ error: "Published form ID not configured" });
+
+        const html = await getFormSource().getViewformHtml(publishedId);
         const regex = /var FB_PUBLIC_LOAD_DATA_ = (.*?);/;
         const match = html.match(regex);
 
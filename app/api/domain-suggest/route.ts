@@ -1,65 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
-import { google } from "googleapis";
-import { calculateDomainRecommendation, EngineerResponses, DomainRecommendation } from "@/lib/domainAlgorithm";
+import { z } from "zod";
+import { calculateDomainRecommendation } from "@/lib/domainAlgorithm";
+import { listEngineerRecommendations, MAX_PAGE_SIZE } from "@/lib/domainRecommendations";
+import { loadScoringModel } from "@/lib/scoringModelStore";
+import { ApplicationStatus, domainSuggestContract, type ContractResponse } from "@/lib/apiContracts";
+import { apiError, parseRequest } from "@/lib/apiRoute";
 import { verifyAdminSession } from "@/lib/adminAuth";
+import { hideApplicantIdentity, isBlindViewer, isIdentityRevealed } from "@/lib/blindReview";
+import { logger } from "@/lib/logger";
 
-interface SubmissionData {
-    responses: Record<string, any>;
-    timestamp: string;
-    email?: string;
-}
-
-// ============ IN-MEMORY CACHE ============
-// TODO: Replace with Firebase in future
-interface CacheEntry {
-    data: any;
-    timestamp: number;
-}
-
-const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
-let domainCache: CacheEntry | null = null;
-
-function getCachedData(): any | null {
-    if (!domainCache) return null;
-    const now = Date.now();
-    if (now - domainCache.timestamp > CACHE_TTL_MS) {
-        domainCache = null; // Cache expired
-        return null;
-    }
-    return domainCache.data;
-}
-
-function setCacheData(data: any): void {
-    domainCache = {
-        data,
-        timestamp: Date.now(),
-    };
-}
-
-function getCacheAge(): number {
-    if (!domainCache) return -1;
-    return Math.floor((Date.now() - domainCache.timestamp) / 1000);
-}
-// ==========================================
+const DomainSuggestQuery = z.object({
+    status: ApplicationStatus.optional(),
+    email: z.string().trim().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+    cursor: z.string().trim().min(1).optional(),
+});
 
 /**
- * GET: Fetch all engineering submissions and calculate domain recommendations
- * Returns a list of all engineers with their recommended domains
- * OPTIMIZED: Single Google Sheets API call + Real-time analysis
+ * GET: Engineering competitors (from Firestore) with their recommended domain
  *
- * Query params:
- * - email: (optional) Filter by specific email
+ * Query params (all optional):
+ * - status: Accepted | Rejected | pending
+ * - email: exact applicant email
+ * - limit: page size (default 50, max 200)
+ * - cursor: `nextCursor` from the previous page
  */
 export async function GET(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
     try {
         // ============================================
         // LAYER 1: Admin Authentication
         // ============================================
+        let adminUser;
         try {
-            await verifyAdminSession();
+            adminUser = await verifyAdminSession();
         } catch (error: any) {
             const errorMessage = error.message || String(error);
-            console.warn('[DomainSuggest] Unauthorized access attempt', { error: errorMessage });
+            logger.warn('Unauthorized domain suggest attempt', { requestId, error: errorMessage });
 
             if (errorMessage.includes("FORBIDDEN")) {
                 return NextResponse.json({ error: "Forbidden - Admin access required" }, { status: 403 });
@@ -68,251 +46,41 @@ export async function GET(req: NextRequest) {
         }
 
         const { searchParams } = new URL(req.url);
-        const filterEmail = searchParams.get("email");
-
-        // 1. Set up authentication for Google Sheets ONLY
-        const auth = new google.auth.GoogleAuth({
-            credentials: {
-                client_email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
-                private_key: process.env.GOOGLE_SERVICE_ACCOUNT_KEY?.replace(/\\n/g, "\n"),
-            },
-            scopes: ["https://www.googleapis.com/auth/spreadsheets.readonly"],
-        });
-
-        const sheets = google.sheets({ version: "v4", auth });
-        const sheetId = process.env.GOOGLE_SHEET_ID;
-
-        if (!sheetId) {
-            return NextResponse.json(
-                { error: "Configuration missing: Sheet ID not set" },
-                { status: 500 }
-            );
-        }
-
-        // 2. Fetch ONLY the sheet data (fast - single API call)
-        const sheetResponse = await sheets.spreadsheets.values.get({
-            spreadsheetId: sheetId,
-            range: "A:Z",
-        });
-
-        const rows = sheetResponse.data.values || [];
-
-        if (rows.length < 2) {
-            return NextResponse.json({
-                message: "No submissions found",
-                submissions: [],
+        const query = DomainSuggestQuery.safeParse(
+            Object.fromEntries([...searchParams].filter(([, value]) => value !== ""))
+        );
+        if (!query.success) {
+            return apiError("Invalid request", 400, {
+                code: "INVALID_REQUEST",
+                issues: query.error.issues.map(issue => ({
+                    path: issue.path.join("."),
+                    message: issue.message,
+                })),
             });
         }
 
-        // 3. Get headers and data directly from sheet (much simpler!)
-        const headers = rows[0] as string[];
-        const dataRows = rows.slice(1);
-
-        // 6. Process each submission
-        const results: Array<{
-            rowIndex: number;
-            timestamp: string;
-            email: string;
-            name: string;
-            major: string;
-            recommendation: DomainRecommendation | null;
-            rawResponses?: Record<string, any>;
-        }> = [];
-
-        for (let i = 0; i < dataRows.length; i++) {
-            const row = dataRows[i];
-            const rowData: Record<string, any> = {};
-
-            // Map row to headers
-            headers.forEach((header, idx) => {
-                if (row[idx] !== undefined) {
-                    rowData[header] = row[idx];
-                }
-            });
-
-            // Extract key fields
-            const timestamp = rowData["Timestamp"] || rowData["Submitted At"] || "";
-            const email = rowData["Email Address"] || rowData["User Email"] || rowData["University Email"] || "";
-            const name = rowData["Full Name"] || rowData["Name"] || "";
-
-            // Find major field - search for any header containing "major"
-            let major = "";
-            for (const header of headers) {
-                if (header.toLowerCase().includes("major") && !header.toLowerCase().includes("year")) {
-                    major = rowData[header] || "";
-                    if (major) break; // Use first non-empty match
-                }
-            }
-
-            // Filter by email if specified
-            if (filterEmail && !email.toLowerCase().includes(filterEmail.toLowerCase())) {
-                continue;
-            }
-
-            // FLEXIBLE ENGINEER DETECTION - Multiple strategies
-            let isEngineer = false;
-
-            // Strategy 1: Direct major field check
-            const majorLower = major.toLowerCase();
-            if (majorLower.includes("engineering") ||
-                majorLower.includes("engineer") ||
-                majorLower === "engineering" ||
-                majorLower.includes("mechanical") ||
-                majorLower.includes("electrical") ||
-                majorLower.includes("computer") ||
-                majorLower.includes("biomedical") ||
-                majorLower.includes("industrial") ||
-                majorLower.includes("chemical") ||
-                majorLower.includes("civil") ||
-                majorLower.includes("software")) {
-                isEngineer = true;
-            }
-
-            // Strategy 2: Check if they have engineering-specific skill groups (Domain A, B, C)
-            if (!isEngineer) {
-                for (const header of headers) {
-                    const headerLower = header.toLowerCase();
-                    if (headerLower.includes("group 1") ||
-                        headerLower.includes("group 2") ||
-                        headerLower.includes("group 3") ||
-                        headerLower.includes("physical systems") ||
-                        headerLower.includes("domain a") ||
-                        headerLower.includes("domain b") ||
-                        headerLower.includes("domain c")) {
-                        // If the row has a value for any engineering skill group, they're an engineer
-                        if (rowData[header] && rowData[header].trim()) {
-                            isEngineer = true;
-                            major = major || "Engineering (inferred from skills)";
-                            break;
-                        }
-                    }
-                }
-            }
-
-            // Strategy 3: Check for engineering-specific questions answered
-            if (!isEngineer) {
-                for (const header of headers) {
-                    const headerLower = header.toLowerCase();
-                    if ((headerLower.includes("hands-on") && headerLower.includes("project")) ||
-                        (headerLower.includes("high-speed team")) ||
-                        (headerLower.includes("medication") && headerLower.includes("scenario"))) {
-                        if (rowData[header] && rowData[header].trim()) {
-                            isEngineer = true;
-                            major = major || "Engineering (inferred from responses)";
-                            break;
-                        }
-                    }
-                }
-            }
-
-            // Strategy 4: Check ALL fields for "engineering" keyword
-            if (!isEngineer) {
-                for (const header of headers) {
-                    const val = (rowData[header] || "").toString().toLowerCase();
-                    if (val.includes("engineering") || val === "engineer") {
-                        isEngineer = true;
-                        major = major || "Engineering";
-                        break;
-                    }
-                }
-            }
-
-            if (!isEngineer) {
-                results.push({
-                    rowIndex: i + 2, // 1-indexed + header row
-                    timestamp,
-                    email,
-                    name,
-                    major: major || "(no major found)",
-                    recommendation: null, // Not an engineer
-                });
-                continue;
-            }
-
-            // 4. Build engineer responses directly from sheet headers (simplified!)
-            const engineerResponses: EngineerResponses = {};
-
-            // Also do direct header matching for better coverage
-            for (const header of headers) {
-                const value = rowData[header];
-                if (!value) continue;
-
-                const lowerHeader = header.toLowerCase();
-
-                // Direct mapping for common question patterns
-                if (lowerHeader.includes("group 1") || lowerHeader.includes("physical systems")) {
-                    engineerResponses.skillsGroupA = value.includes(",")
-                        ? value.split(",").map((s: string) => s.trim())
-                        : [value];
-                }
-                if (lowerHeader.includes("group 2") || lowerHeader.includes("systems & operations")) {
-                    engineerResponses.skillsGroupB = value.includes(",")
-                        ? value.split(",").map((s: string) => s.trim())
-                        : [value];
-                }
-                if (lowerHeader.includes("group 3") || lowerHeader.includes("digital")) {
-                    engineerResponses.skillsGroupC = value.includes(",")
-                        ? value.split(",").map((s: string) => s.trim())
-                        : [value];
-                }
-                if (lowerHeader.includes("group 4") || lowerHeader.includes("project management")) {
-                    engineerResponses.skillsGlobal = value.includes(",")
-                        ? value.split(",").map((s: string) => s.trim())
-                        : [value];
-                }
-                if (lowerHeader.includes("describes your contribution") || lowerHeader.includes("high-speed team")) {
-                    engineerResponses.workStylePersona = value;
-                }
-                if (lowerHeader.includes("hands-on")) {
-                    engineerResponses.handsOnProject = value;
-                }
-                if (lowerHeader.includes("professional") || lowerHeader.includes("internship")) {
-                    engineerResponses.professionalExp = value;
-                }
-                if (lowerHeader.includes("scenario") || lowerHeader.includes("medication")) {
-                    engineerResponses.scenarioResponse = value;
-                }
-            }
-
-            // 8. Calculate recommendation
-            const recommendation = calculateDomainRecommendation(engineerResponses);
-
-            results.push({
-                rowIndex: i + 2,
-                timestamp,
-                email,
-                name,
-                major,
-                recommendation,
-                rawResponses: engineerResponses,
-            });
+        // Blind reviewers only see who they have reviewed, and can't look competitors up by email
+        if (query.data.email && isBlindViewer(adminUser)) {
+            return apiError("Searching by email is off while blind review is on", 403, { code: "BLIND_REVIEW" });
         }
 
-        // Build response data
-        const responseData = {
-            message: "Domain recommendations calculated",
-            totalSubmissions: dataRows.length,
-            engineerCount: results.filter(r => r.recommendation !== null).length,
-            submissions: results,
-            // Debug info (can remove in production)
-            debug: {
-                headers: headers,
-                sampleRow: dataRows[0] ? Object.fromEntries(headers.map((h, i) => [h, dataRows[0][i] || ""])) : null,
-            },
-        };
-
-        if (!filterEmail) {
-            // No server-side cache - rely on client-side
-        }
+        const page = await listEngineerRecommendations(query.data);
+        const submissions = page.submissions.map(submission =>
+            isIdentityRevealed(adminUser, submission.reviewerUids) ? submission : hideApplicantIdentity(submission)
+        );
 
         return NextResponse.json({
-            ...responseData,
+            message: "Domain recommendations calculated",
+            totalSubmissions: page.total,
+            engineerCount: submissions.length,
+            submissions,
+            nextCursor: page.nextCursor,
         });
 
     } catch (error) {
-        console.error("Domain suggestion error:", error);
+        logger.error('Domain suggestion failed', { requestId, error });
         return NextResponse.json(
-            { error: "Failed to calculate domain recommendations", details: String(error) },
+            { error: "Failed to calculate domain recommendations" },
             { status: 500 }
         );
     }
@@ -339,22 +107,12 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
         }
 
-        const body = await req.json();
-        const { responses } = body;
+        const parsed = await parseRequest(domainSuggestContract, req);
+        if (!parsed.success) return parsed.response;
 
-        if (!responses) {
-            return NextResponse.json(
-                { error: "No responses provided" },
-                { status: 400 }
-            );
-        }
+        const recommendation = calculateDomainRecommendation(parsed.data.responses, await loadScoringModel());
 
-        // Calculate recommendation directly (responses should be EngineerResponses format)
-        const engineerResponses: EngineerResponses = responses;
-
-        const recommendation = calculateDomainRecommendation(engineerResponses);
-
-        return NextResponse.json({
+        return NextResponse.json<ContractResponse<typeof domainSuggestContract>>({
             success: true,
             recommendation,
         });
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { adminAuth } from "@/lib/firebaseAdmin";
+import { resumeDraftContract } from "@/lib/apiContracts";
+import { withContract } from "@/lib/apiRoute";
+import { loadDraft } from "@/lib/drafts";
+import { logger } from "@/lib/logger";
+
+export const POST = withContract(resumeDraftContract, async ({ idToken, type }, { ok }) => {
+    const requestId = logger.getRequestId();
+
+    try {
+        let decodedToken;
+        try {
+            decodedToken = await adminAuth.verifyIdToken(idToken);
+        } catch (error) {
+            logger.warn("Draft resume with invalid token", { requestId, error: error instanceof Error ? error.message : String(error) });
+            return NextResponse.json({ error: "Invalid authentication token" }, { status: 401 });
+        }
+
+        return ok({ draft: await loadDraft(decodedToken.uid, type) });
+    } catch (error) {
+        logger.error("Draft resume failed", { requestId, error });
+        return NextResponse.json({ error: "Failed to load draft" }, { status: 500 });
+    }
+});
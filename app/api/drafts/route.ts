@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { adminAuth, adminDb } from "@/lib/firebaseAdmin";
+import { saveDraftContract } from "@/lib/apiContracts";
+import { withContract } from "@/lib/apiRoute";
+import { saveDraft } from "@/lib/drafts";
+import { logger } from "@/lib/logger";
+
+export const POST = withContract(saveDraftContract, async ({ idToken, type, responses }, { ok }) => {
+    const requestId = logger.getRequestId();
+
+    try {
+        // 1. Verify User
+        let decodedToken;
+        try {
+            decodedToken = await adminAuth.verifyIdToken(idToken);
+        } catch (error) {
+            logger.warn("Draft save with invalid token", { requestId, error: error instanceof Error ? error.message : String(error) });
+            return NextResponse.json({ error: "Invalid authentication token" }, { status: 401 });
+        }
+
+        const uid = decodedToken.uid;
+
+        // 2. A submitted application has no draft (an autosave can race the submission)
+        const collection = type === "attendee" ? "attendees" : "competitors";
+        const submitted = await adminDb.collection(collection).doc(uid).get();
+        if (submitted.exists) {
+            return NextResponse.json(
+                { error: "Application already submitted", code: "ALREADY_SUBMITTED" },
+                { status: 409 }
+            );
+        }
+
+        // 3. Save
+        const savedAt = await saveDraft(uid, decodedToken.email || "", type, responses);
+        logger.debug("Draft saved", { requestId, uid, type });
+
+        return ok({ success: true, savedAt });
+    } catch (error) {
+        logger.error("Draft save failed", { requestId, error });
+        return NextResponse.json({ error: "Failed to save draft" }, { status: 500 });
+    }
+});
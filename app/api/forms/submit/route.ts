@@ -1,20 +1,51 @@
 import { NextRequest, NextResponse } from "next/server";
-import { google } from "googleapis";
+import crypto from "crypto";
 import { getServerSession } from "next-auth";
 import { authOptions } from "../../auth/[...nextauth]/route";
-import { getPublicEntryIds } from "@/lib/google-forms";
 import { auth } from "@/lib/Firebase";
 import admin from "firebase-admin";
 import { adminAuth, adminDb } from "@/lib/firebaseAdmin";
 import { validateFormSubmission } from "@/lib/validators";
+import { submitApplicationContract, type ContractResponse } from "@/lib/apiContracts";
+import { parseRequest } from "@/lib/apiRoute";
+import { resolveFieldSet, type ResponseKeyStyle } from "@/lib/formFields";
+import { loadFormSchema } from "@/lib/formSchema";
+import type { FormQuestion } from "@/lib/formTypes";
+import { deleteDraft } from "@/lib/drafts";
+import { buildApplicationFields, getApplicationCollection, reviseApplication } from "@/lib/applications";
+import { getSearchFields } from "@/lib/competitorQuery";
+import { buildDomainRecommendation } from "@/lib/domainRecommendations";
+import { loadScoringModel } from "@/lib/scoringModelStore";
+import { enqueueSubmission, getSubmissionOutboxIds, processOutboxEntries } from "@/lib/outbox";
 import { rateLimitMiddleware, recordSubmission } from "@/lib/rateLimiter";
 import { logger, logSubmission, logValidationError, logRateLimit } from "@/lib/logger";
 
 // Global token store for replay protection (use Redis in production)
+// Client-generated submission keys (UUIDs)
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
 declare global {
     var recentTokens: Map<string, number> | undefined;
 }
 
+// Firestore's gRPC status for a create() on an existing document
+const ALREADY_EXISTS = 6;
+
+function isAlreadyExists(error: unknown): boolean {
+    return (error as { code?: unknown } | null)?.code === ALREADY_EXISTS;
+}
+
+// The saved revision tells whether the replayed submission was the application or an edit of it
+async function replaySubmission(requestId: string, uid: string, type: string, submissionKey: string, revision: number | undefined) {
+    logger.info('Replayed submission', { requestId, uid, type, revision });
+    await processOutboxEntries(getSubmissionOutboxIds(uid, submissionKey));
+    return NextResponse.json<ContractResponse<typeof submitApplicationContract>>({
+        success: true,
+        message: (revision ?? 1) > 1 ? "Application updated successfully!" : "Form submitted successfully!",
+        replayed: true
+    });
+}
+
 export async function POST(req: NextRequest) {
     const requestId = logger.getRequestId();
     let session: any = null;
@@ -24,28 +55,16 @@ export async function POST(req: NextRequest) {
     try {
         logger.info('Form submission attempt', { requestId });
 
-        let body: any;
-        try {
-            body = await req.json();
-        } catch {
-            logger.warn('Invalid JSON payload', { requestId });
-            return NextResponse.json(
-                {
-                    error: "Invalid request body. Please refresh and try again.",
-                    code: "INVALID_JSON"
-                },
-                { status: 400 }
-            );
+        const parsed = await parseRequest(submitApplicationContract, req);
+        if (!parsed.success) {
+            logger.warn('Invalid submission payload', { requestId });
+            return parsed.response;
         }
-        const { responses, type = "competitor", idToken } = body;
+        const body = parsed.data;
+        const { type, idToken } = body;
         formType = type;
 
         // 1. Verify Firebase Authentication
-        if (!idToken) {
-            logger.warn('Missing ID token in request', { requestId });
-            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-        }
-
         try {
             console.log("Beginning submission to firebase and sheets ID Token: ");
             // Verify token and check for revocation (true) 
@@ -85,13 +104,31 @@ export async function POST(req: NextRequest) {
         logger.debug('Request body:', { requestId, body });
         logger.debug('Form type:', { requestId, type });
 
-        const validation = validateFormSubmission(body, type);
+        // Validate against the same schema the applicant was shown
+        let schemaQuestions: FormQuestion[] | undefined;
+        if (type === "attendee" || type === "competitor") {
+            try {
+                schemaQuestions = (await loadFormSchema(type)).questions;
+            } catch (schemaError) {
+                // Validating against looser rules could accept answers the form doesn't offer
+                logger.error('Form schema unavailable for validation', { requestId, error: schemaError });
+                return NextResponse.json(
+                    {
+                        error: "We couldn't check your answers right now. Please try submitting again in a moment.",
+                        code: "FORM_SCHEMA_UNAVAILABLE"
+                    },
+                    { status: 503, headers: { "Retry-After": "30" } }
+                );
+            }
+        }
+        const validation = validateFormSubmission(body, type, schemaQuestions);
 
         if (!validation.success) {
-            logValidationError(validation.details || [], decodedToken.email);
+            const messages = validation.details?.map(detail => detail.message) || [];
+            logValidationError(messages, decodedToken.email);
             return NextResponse.json(
                 {
-                    error: validation.details?.join(', ') || validation.error || "Invalid form data. Please check your input and try again.",
+                    error: messages.join(', ') || validation.error || "Invalid form data. Please check your input and try again.",
                     code: validation.code,
                     details: validation.details
                 },
@@ -99,31 +136,9 @@ export async function POST(req: NextRequest) {
             );
         }
 
-        // Additional security: Check if token was recently used (prevent replay attacks)
-        const tokenHash = Buffer.from(idToken).toString('base64').substring(0, 32);
-        const recentTokenKey = `recent_token_${decodedToken.uid}_${tokenHash}`;
-
-        // In production, use Redis for this. For now, using memory with cleanup
-        if (global.recentTokens?.has(recentTokenKey)) {
-            logger.warn('Token reuse detected', {
-                requestId,
-                uid: decodedToken.uid
-            });
-            return NextResponse.json({
-                error: "Invalid request - token already used"
-            }, { status: 401 });
-        }
-
-        // Store token hash to prevent reuse (expires in 5 minutes)
-        if (!global.recentTokens) {
-            global.recentTokens = new Map();
-        }
-        global.recentTokens.set(recentTokenKey, Date.now());
-
-        // Cleanup old tokens
-        setTimeout(() => {
-            global.recentTokens?.delete(recentTokenKey);
-        }, 5 * 60 * 1000);
+        // Answers to hidden questions have been stripped
+        const responses: Record<string, unknown> = validation.data.responses;
+        const keyedBy: ResponseKeyStyle = validation.data.keyedBy;
 
         logger.info('Authentication successful', {
             requestId,
@@ -135,149 +150,142 @@ export async function POST(req: NextRequest) {
         // === CODE ADDED BY AHMAD FOR FIREBASE === //
 
         // Storing form submission to Firebase
-        if (type === "attendee" && idToken) {
-            try {
-                // Use the already decoded token
-                const uid = decodedToken.uid;
-
-                // check if user already exists in attendees collection
-                const userDoc = await adminDb.collection("attendees").doc(uid).get();
-                if (userDoc.exists) {
-                    logger.warn('User already exists', {
-                        requestId,
-                        uid: decodedToken.uid,
-                        email: decodedToken.email
-                    });
-                    return NextResponse.json(
-                        { error: "User already exists" },
-                        { status: 409 }
-                    );
-                }
+        const uid = decodedToken.uid;
+        const fieldSet = resolveFieldSet(type, responses);
+        const collection = getApplicationCollection(type);
 
-                // Store the form submission to Firebase// Store in attendees collection (if user doesn't exist)
-                await adminDb.collection("attendees").doc(uid).set({
-                    fullName: responses["1706880442"] || "",
-                    email: responses["464604082"] || decodedToken.email,
-                    contactNo: responses["1329997643"] || "",
-                    nationality: responses["492691881"] || "",
-                    emiratesID: responses["1368274746"] || "",
-                    major: responses["1740303904"] || "",
-                    isPaid: false,
-                    submitted: true,
-                    submittedAt: admin.firestore.FieldValue.serverTimestamp(),
-                    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-                }, { merge: true });
-
-                logger.info("Form submitted successfully for user (attendee)", { uid });
+        // Retries of the same submission carry the same key (see CustomApplicationForm)
+        const clientKey = req.headers.get("idempotency-key");
+        const hasClientKey = !!clientKey && IDEMPOTENCY_KEY_PATTERN.test(clientKey);
+        const submissionKey = hasClientKey ? clientKey : crypto.randomUUID();
 
-            } catch (fbError) {
-                logger.error('Firebase submission failed', {
-                    requestId,
-                    type: 'attendee',
-                    error: fbError
-                });
+        let isEdit = false;
+        let outboxIds: string[] = [];
 
-                // Return proper error response to client
-                return NextResponse.json(
-                    {
-                        error: "Failed to save application to database",
-                        code: "FIREBASE_SAVE_ERROR"
-                    },
-                    { status: 500 }
-                );
-            }
-        } else if (type === "competitor" && idToken) {
+        if (fieldSet) {
             try {
-                // Use the already decoded token
-                const uid = decodedToken.uid;
+                const applicationFields = buildApplicationFields(fieldSet, responses, decodedToken.email, keyedBy);
 
-                // check if user already exists in attendees collection
-                const userDoc = await adminDb.collection("competitors").doc(uid).get();
-                if (userDoc.exists) {
-                    logger.warn('User already exists', {
+                // check if user already exists in the collection
+                const userDoc = await adminDb.collection(collection).doc(uid).get();
+
+                // A retry of a submission that was already saved: answer as the first attempt did
+                if (userDoc.exists && hasClientKey && userDoc.data()?.submissionKey === submissionKey) {
+                    return replaySubmission(requestId, uid, type, submissionKey, userDoc.data()?.revision);
+                }
+
+                // Additional security: Check if token was recently used (prevent replay attacks)
+                const tokenHash = Buffer.from(idToken).toString('base64').substring(0, 32);
+                const recentTokenKey = `recent_token_${decodedToken.uid}_${tokenHash}`;
+
+                // In production, use Redis for this. For now, using memory with cleanup
+                if (global.recentTokens?.has(recentTokenKey)) {
+                    logger.warn('Token reuse detected', {
                         requestId,
-                        uid: decodedToken.uid,
-                        email: decodedToken.email
+                        uid: decodedToken.uid
                     });
-                    return NextResponse.json(
-                        { error: "User already exists" },
-                        { status: 409 }
-                    );
+                    return NextResponse.json({
+                        error: "Invalid request - token already used"
+                    }, { status: 401 });
                 }
 
-                if (responses["563534208"] === "Engineering") {
-                    // Store the form submission to Firebase collection competitor (Engineering)
-                    await adminDb.collection("competitors").doc(uid).set({
-                        fullName: responses["1706880442"] || "",
-                        university: responses["805706027"] || "",
-                        universityEmail: responses["464604082"] || "",
-                        email: decodedToken.email,
-                        contactNo: responses["1329997643"] || "",
-                        nationality: responses["492691881"] || "",
-                        emiratesID: responses["1368274746"] || "",
-                        major: responses["563534208"] || "",
-                        majorType: responses["1921732712"] || "",
-                        year: responses["2106989264"] || "",
-                        linkedIn: responses["1706787055"] || "",
-                        googleDrive: responses["979885116"] || "",
-                        group1: responses["2005954606"] || [],
-                        group2: responses["909777607"] || [],
-                        group3: responses["1618805851"] || [],
-                        group4: responses["342956899"] || [],
-                        workStyle: responses["1475281755"] || "",
-                        projects: responses["1889236055"] || "",
-                        experience: responses["913830966"] || "",
-                        challengeAnswer: responses["1822551769"] || "",
+                if (userDoc.exists) {
+                    // Applicants editing their application within the edit window
+                    if (body.edit) {
+                        const result = await reviseApplication(type, uid, applicationFields, decodedToken.email, { submissionKey, responses });
+                        if (!result.ok) {
+                            logger.warn('Application edit rejected', { requestId, uid, reason: result.reason });
+                            return NextResponse.json(
+                                {
+                                    error: "Your application can no longer be edited.",
+                                    code: "EDIT_CLOSED"
+                                },
+                                { status: 403 }
+                            );
+                        }
+
+                        isEdit = true;
+                        outboxIds = result.outboxIds;
+                        logger.info("Application edited", { uid, type, revision: result.revision, changedFields: result.changedFields });
+                    } else {
+                        logger.warn('User already exists', {
+                            requestId,
+                            uid: decodedToken.uid,
+                            email: decodedToken.email
+                        });
+                        return NextResponse.json(
+                            { error: "User already exists" },
+                            { status: 409 }
+                        );
+                    }
+                } else {
+                    const initialState = type === "attendee"
+                        ? { isPaid: false }
+                        : { isPaid: false, status: "pending", domain: "", attended: false };
+
+                    // The application and its deliveries (Google Forms, Sheets) are saved together,
+                    // so a failed delivery is retried from the outbox instead of failing the submission.
+                    // create() fails if a concurrent attempt saved the application first
+                    const batch = adminDb.batch();
+                    batch.create(adminDb.collection(collection).doc(uid), {
+                        ...applicationFields,
+                        ...getSearchFields(applicationFields),
+                        ...initialState,
+                        ...(fieldSet === "engineering" && {
+                            domainRecommendation: buildDomainRecommendation(applicationFields, await loadScoringModel()),
+                        }),
+                        revision: 1,
+                        submissionKey,
                         submitted: true,
                         submittedAt: admin.firestore.FieldValue.serverTimestamp(),
                         updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-                        isPaid: false,
-                        status: "pending",
-                        domain: "",
-                        attended: false,
-                    }, { merge: true });
+                    });
+                    outboxIds = enqueueSubmission(batch, {
+                        uid,
+                        type,
+                        submissionKey,
+                        responses,
+                    });
+                    try {
+                        await batch.commit();
+                    } catch (commitError) {
+                        if (!isAlreadyExists(commitError)) throw commitError;
+
+                        // Lost the race: a retry of this submission is a replay, anything else a duplicate
+                        const saved = await adminDb.collection(collection).doc(uid).get();
+                        if (hasClientKey && saved.data()?.submissionKey === submissionKey) {
+                            return replaySubmission(requestId, uid, type, submissionKey, saved.data()?.revision);
+                        }
+                        logger.warn('User already exists', { requestId, uid, email: decodedToken.email });
+                        return NextResponse.json(
+                            { error: "User already exists" },
+                            { status: 409 }
+                        );
+                    }
+
+                    logger.info(`Form submitted successfully for user (${type})`, { uid, fieldSet, outbox: outboxIds.length });
                 }
 
-                if (responses["563534208"] === "Medicine" || responses["563534208"] === "Healthcare") {
-                    // Store the form submission to Firebase collection competitor (Medicine/Healthcare)
-                    await adminDb.collection("competitors").doc(uid).set({
-                        fullName: responses["1706880442"] || "",
-                        university: responses["805706027"] || "",
-                        universityEmail: responses["464604082"] || "",
-                        email: decodedToken.email,
-                        contactNo: responses["1329997643"] || "",
-                        nationality: responses["492691881"] || "",
-                        emiratesID: responses["1368274746"] || "",
-                        major: responses["563534208"] || "",
-                        majorType: responses["1945900292"] || "",
-                        year: responses["257116715"] || "",
-                        skillSet: responses["697380523"] || "",
-                        linkedIn: responses["1745529891"] || "",
-                        resume: responses["2111396898"] || "",
-                        googleDrive: responses["934276771"] || "",
-                        challenge1: responses["1644031809"] || "",
-                        challenge2: responses["1176839290"] || "",
-                        enthusiasmCheck: responses["1213229623"] || "",
-                        collaborativeSpirit: responses["1628051962"] || "",
-                        submitted: true,
-                        submittedAt: admin.firestore.FieldValue.serverTimestamp(),
-                        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-                        isPaid: false,
-                        status: "pending",
-                        domain: "",
-                        attended: false,
-                    }, { merge: true });
+                // Store token hash to prevent reuse (expires in 5 minutes).
+                // Only once saved, so a failed attempt can be retried with the same token
+                if (!global.recentTokens) {
+                    global.recentTokens = new Map();
                 }
+                global.recentTokens.set(recentTokenKey, Date.now());
 
-                logger.info("Form submitted successfully for user (competitor)", { uid, major: responses["563534208"] });
+                // Cleanup old tokens
+                setTimeout(() => {
+                    global.recentTokens?.delete(recentTokenKey);
+                }, 5 * 60 * 1000);
 
             } catch (fbError) {
                 logger.error('Firebase submission failed', {
                     requestId,
-                    type: 'competitor',
+                    type,
                     error: fbError
                 });
 
+                // Return proper error response to client
                 return NextResponse.json(
                     {
                         error: "Failed to save application to database",
@@ -288,103 +296,14 @@ export async function POST(req: NextRequest) {
             }
         }
 
-        // 2. Identify Configuration
-        const formId = type === "attendee"
-            ? process.env.ATTENDEE_FORM_ID
-            : process.env.GOOGLE_FORM_ID;
-
-        const publishedFormId = type === "attendee"
-            ? process.env.ATTENDEE_FORM_PUBLISHED_ID
-            : process.env.GOOGLE_FORM_PUBLISHED_ID;
-
-        if (!formId || !publishedFormId) {
-            return NextResponse.json(
-                { error: `Configuration Error: Missing Form ID for '${type}'` },
-                { status: 500 }
-            );
-        }
-
-        // Build form submission data (shared between Forms submission)
-        const submitData = new URLSearchParams();
-        submitData.append('pageHistory', '0');
-        submitData.append('fvv', '1');
-
-        // Process responses for Google Forms format
-        Object.entries(responses).forEach(([key, value]) => {
-            if (Array.isArray(value)) {
-                value.forEach(item => submitData.append(`entry.${key}`, String(item)));
-            }
-            else if (typeof value === 'object' && value !== null) {
-                const valObj = value as Record<string, any>;
-                const isDate = 'date' in valObj || 'year' in valObj;
-                const isTime = 'time' in valObj || ('hours' in valObj && 'minutes' in valObj);
-
-                if (isDate || isTime) {
-                    if (valObj.date) {
-                        const [y, m, d] = valObj.date.split('-');
-                        submitData.append(`entry.${key}_year`, y);
-                        submitData.append(`entry.${key}_month`, m);
-                        submitData.append(`entry.${key}_day`, d);
-                    }
-                    if (valObj.time) {
-                        const [h, min] = valObj.time.split(':');
-                        submitData.append(`entry.${key}_hour`, h);
-                        submitData.append(`entry.${key}_minute`, min);
-                    }
-                    if ('hours' in valObj) {
-                        submitData.append(`entry.${key}_hour`, String(valObj.hours));
-                        submitData.append(`entry.${key}_minute`, String(valObj.minutes));
-                        submitData.append(`entry.${key}_second`, String(valObj.seconds || 0));
-                    }
-                } else {
-                    Object.entries(valObj).forEach(([rowEntryId, colVal]) => {
-                        if (Array.isArray(colVal)) {
-                            colVal.forEach(c => submitData.append(`entry.${rowEntryId}`, String(c)));
-                        } else {
-                            submitData.append(`entry.${rowEntryId}`, String(colVal));
-                        }
-                    });
-                }
-            }
-            else {
-                const strValue = String(value);
-                const dateMatch = strValue.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-                if (dateMatch) {
-                    submitData.append(`entry.${key}_year`, dateMatch[1]);
-                    submitData.append(`entry.${key}_month`, dateMatch[2]);
-                    submitData.append(`entry.${key}_day`, dateMatch[3]);
-                    return;
-                }
-                const timeMatch = strValue.match(/^(\d{2}):(\d{2})$/);
-                if (timeMatch) {
-                    submitData.append(`entry.${key}_hour`, timeMatch[1]);
-                    submitData.append(`entry.${key}_minute`, timeMatch[2]);
-                    return;
-                }
-                submitData.append(`entry.${key}`, strValue);
-            }
-        });
-
-        // ============================================
-        // SUBMIT TO FORMS (Primary - must succeed)
-        // ============================================
-        const submitUrl = `https://docs.google.com/forms/d/e/${publishedFormId}/formResponse`;
-
-        const formSubmitResponse = await fetch(submitUrl, {
-            method: "POST",
-            body: submitData,
-            headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        });
+        // 2. First delivery attempt; whatever fails stays in the outbox for the drain worker
+        await processOutboxEntries(outboxIds);
 
-        const formsSuccess = formSubmitResponse.ok || formSubmitResponse.status === 302 || formSubmitResponse.status === 303;
-
-        if (!formsSuccess) {
-            const errorText = await formSubmitResponse.text();
-            logger.error("Google Forms submission failed", { status: formSubmitResponse.status, error: errorText, requestId });
-            return NextResponse.json(
-                { error: "Form submission failed", details: errorText },
-                { status: 500 }
-            );
+        // 3. The saved draft is now the application
+        try {
+            await deleteDraft(decodedToken.uid);
+        } catch (draftError) {
+            logger.warn("Failed to delete draft after submission", { requestId, error: draftError });
         }
 
         // Record successful submission for rate limiting
@@ -396,9 +315,9 @@ export async function POST(req: NextRequest) {
             email: decodedToken.email
         });
 
-        return NextResponse.json({
+        return NextResponse.json<ContractResponse<typeof submitApplicationContract>>({
             success: true,
-            message: "Form submitted successfully!"
+            message: isEdit ? "Application updated successfully!" : "Form submitted successfully!"
         });
 
     } catch (error) {
@@ -418,101 +337,3 @@ export async function POST(req: NextRequest) {
         );
     }
 }
-
-// Background function for Sheets submission
-async function submitToSheets(
-    sheetId: string,
-    formId: string,
-    publishedFormId: string,
-    responses: Record<string, unknown>,
-    userEmail: string
-) {
-    const auth = new google.auth.GoogleAuth({
-        credentials: {
-            client_email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
-            private_key: process.env.GOOGLE_SERVICE_ACCOUNT_KEY?.replace(/\\n/g, "\n"),
-        },
-        scopes: [
-            "https://www.googleapis.com/auth/forms.body.readonly",
-            "https://www.googleapis.com/auth/spreadsheets",
-        ],
-    });
-
-    const forms = google.forms({ version: "v1", auth });
-    const sheets = google.sheets({ version: "v4", auth });
-
-    // Fetch Form Structure
-    const formResponse = await forms.forms.get({ formId });
-    const form = formResponse.data;
-
-    // Get Entry ID map
-    const entryIdMap = await getPublicEntryIds(publishedFormId);
-
-    const validHeaders = ["Submitted At", "User Email"];
-    const rowValues: string[] = [new Date().toISOString(), userEmail];
-
-    // Iterate through form items and build row
-    if (form.items) {
-        for (const item of form.items) {
-            const title = item.title || "";
-
-            if (item.questionItem) {
-                validHeaders.push(title);
-                const potentialIds = entryIdMap.get(title) || [];
-                let answer = "";
-                for (const pid of potentialIds) {
-                    if (typeof pid === "string" && responses[pid] !== undefined) {
-                        answer = responses[pid] as string;
-                        break;
-                    }
-                }
-                rowValues.push(Array.isArray(answer) ? answer.join(", ") : String(answer || ""));
-            }
-            else if (item.questionGroupItem && item.questionGroupItem.questions) {
-                const gridTitle = item.title || "";
-                for (const q of item.questionGroupItem.questions) {
-                    const rowLabel = q.rowQuestion?.title || "";
-                    const fullHeader = `${gridTitle} [${rowLabel}]`;
-                    validHeaders.push(fullHeader);
-
-                    const potentialGrids = entryIdMap.get(gridTitle) || [];
-                    let rowEntryId = "";
-                    for (const pg of potentialGrids) {
-                        if (typeof pg === "object" && pg !== null && (pg as any)[rowLabel]) {
-                            rowEntryId = (pg as any)[rowLabel];
-                            break;
-                        }
-                    }
-                    const answer = rowEntryId ? responses[rowEntryId] : "";
-                    rowValues.push(String(answer || ""));
-                }
-            }
-        }
-    }
-
-    // Check if headers exist
-    const sheetMetadata = await sheets.spreadsheets.values.get({
-        spreadsheetId: sheetId,
-        range: "A1:Z1",
-    });
-
-    const currentHeaders = sheetMetadata.data.values?.[0];
-    if (!currentHeaders || currentHeaders.length === 0) {
-        await sheets.spreadsheets.values.update({
-            spreadsheetId: sheetId,
-            range: "A1",
-            valueInputOption: "USER_ENTERED",
-            requestBody: { values: [validHeaders] },
-        });
-    }
-
-    // Append data
-    await sheets.spreadsheets.values.append({
-        spreadsheetId: sheetId,
-        range: "A1",
-        valueInputOption: "USER_ENTERED",
-        requestBody: { values: [rowValues] },
-    });
-
-    console.log("Google Sheets submission successful!");
-}
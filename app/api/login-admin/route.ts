@@ -1,13 +1,14 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { adminAuth } from '@/lib/firebaseAdmin'
 import { cookies } from 'next/headers'
+import { withContract } from '@/lib/apiRoute'
+import { adminLoginContract } from '@/lib/apiContracts'
 
 // Session cookie duration: 5 days in milliseconds
 const SESSION_DURATION_MS = 60 * 60 * 24 * 5 * 1000
 
-export async function POST(request: NextRequest) {
+export const POST = withContract(adminLoginContract, async ({ idToken }, { ok }) => {
     try {
-        const { idToken } = await request.json()
 
         // Verify the ID token
         const decodedToken = await adminAuth.verifyIdToken(idToken)
@@ -35,9 +36,9 @@ export async function POST(request: NextRequest) {
             sameSite: 'lax',
         })
 
-        return NextResponse.json({ success: true }, { status: 200 })
+        return ok({ success: true }, { status: 200 })
     } catch (error) {
         console.error('Login error:', error)
         return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
-}
\ No newline at end of file
+})
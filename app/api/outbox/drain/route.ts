@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { drainOutbox } from "@/lib/outbox";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET: Retry due outbox deliveries. Meant for a scheduled job (e.g. a Vercel
+ * cron every few minutes) that sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+        logger.warn('Unauthorized outbox drain attempt', { requestId });
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await drainOutbox();
+        logger.info('Outbox drained', { requestId, ...result });
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        logger.error('Outbox drain failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to drain outbox" }, { status: 500 });
+    }
+}
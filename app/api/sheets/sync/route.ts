@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { syncApplicationsToSheets } from "@/lib/sheetsSync";
+import { logger } from "@/lib/logger";
+
+/**
+ * GET: Incremental Sheets sync (applications updated since the last run).
+ * Meant for a scheduled job that sends `Authorization: Bearer $CRON_SECRET`;
+ * full backfills run from `npm run sync-sheets -- --full`.
+ */
+export async function GET(req: NextRequest) {
+    const requestId = logger.getRequestId();
+
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+        logger.warn('Unauthorized Sheets sync attempt', { requestId });
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await syncApplicationsToSheets(adminDb);
+        logger.info('Sheets synced', { requestId, ...result });
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        logger.error('Sheets sync failed', { requestId, error });
+        return NextResponse.json({ error: "Failed to sync Sheets" }, { status: 500 });
+    }
+}
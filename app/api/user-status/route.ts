@@ -1,19 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { adminDb, adminAuth } from "@/lib/firebaseAdmin";
+import { userStatusContract } from "@/lib/apiContracts";
+import { withContract } from "@/lib/apiRoute";
+import { canEditApplication, getEditDeadline } from "@/lib/applications";
 
-export async function POST(req: NextRequest) {
+export const POST = withContract(userStatusContract, async ({ uid, idToken }, { ok }) => {
     try {
-        const body = await req.json();
-        const { uid, idToken } = body;
-
-        if (!uid) {
-            return NextResponse.json({ error: "uid is required" }, { status: 400 });
-        }
-
-        if (!idToken) {
-            return NextResponse.json({ error: "Authentication required" }, { status: 401 });
-        }
-
         // ============================================
         // AUTHENTICATION & AUTHORIZATION
         // ============================================
@@ -48,12 +40,14 @@ export async function POST(req: NextRequest) {
         if (userDoc.exists && userDoc.data()?.submitted === true) {
             const userData = userDoc.data();
             if (userData) {
-                return NextResponse.json({
+                return ok({
                     status: true,
                     type: "attendee",
                     actualStatus: userData.status || "pending",
-                    isPaid: userData.isPaid || userData.isPayed || false,
-                    major: userData.major || ""
+                    isPaid: Boolean(userData.isPaid || userData.isPayed),
+                    major: userData.major || "",
+                    canEdit: canEditApplication(userData),
+                    editableUntil: getEditDeadline()?.toISOString() ?? null
                 }, { status: 200 });
             }
         }
@@ -63,19 +57,21 @@ export async function POST(req: NextRequest) {
         if (competitorDoc.exists && competitorDoc.data()?.submitted === true) {
             const competitorData = competitorDoc.data();
             if (competitorData) {
-                return NextResponse.json({
+                return ok({
                     status: true,
                     type: "competitor",
                     actualStatus: competitorData.status || "pending",
-                    isPaid: competitorData.isPaid || competitorData.isPayed || false,
-                    major: competitorData.major || ""
+                    isPaid: Boolean(competitorData.isPaid || competitorData.isPayed),
+                    major: competitorData.major || "",
+                    canEdit: canEditApplication(competitorData),
+                    editableUntil: getEditDeadline()?.toISOString() ?? null
                 }, { status: 200 });
             }
         }
 
-        return NextResponse.json({ status: false }, { status: 200 });
+        return ok({ status: false }, { status: 200 });
     } catch (error) {
         console.error("Error checking user submission status:", error);
         return NextResponse.json({ error: "Failed to check status" }, { status: 500 });
     }
-}
+});
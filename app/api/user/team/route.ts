@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { adminAuth } from "@/lib/firebaseAdmin";
+import { userTeamContract } from "@/lib/apiContracts";
+import { withContract } from "@/lib/apiRoute";
+import { getPublishedTeamForMember } from "@/lib/teams";
+import { logger } from "@/lib/logger";
+
+/**
+ * The signed-in competitor's team, once teams are published
+ */
+export const POST = withContract(userTeamContract, async ({ idToken }, { ok }) => {
+    const requestId = logger.getRequestId();
+
+    try {
+        let decodedToken;
+        try {
+            decodedToken = await adminAuth.verifyIdToken(idToken, true);
+        } catch (error) {
+            logger.warn("Team fetch with invalid token", { requestId, error: error instanceof Error ? error.message : String(error) });
+            return NextResponse.json({ error: "Invalid authentication token" }, { status: 401 });
+        }
+
+        const team = await getPublishedTeamForMember(decodedToken.uid);
+        if (!team) return ok({ team: null });
+
+        return ok({
+            team: {
+                name: team.name,
+                domain: team.domain,
+                members: team.members.map(member => ({
+                    name: member.name,
+                    track: member.track,
+                    university: member.university,
+                    major: member.major,
+                    persona: member.persona,
+                    isYou: member.uid === decodedToken.uid,
+                })),
+            },
+        });
+    } catch (error) {
+        logger.error("Team fetch failed", { requestId, error });
+        return NextResponse.json({ error: "Failed to load team" }, { status: 500 });
+    }
+});
@@ -1,17 +1,11 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { adminDb, adminAuth } from "@/lib/firebaseAdmin";
 import admin from "firebase-admin";
+import { updateDomainContract } from "@/lib/apiContracts";
+import { apiError, withContract } from "@/lib/apiRoute";
 
-export async function POST(req: NextRequest) {
+export const POST = withContract(updateDomainContract, async ({ idToken, domain }, { ok }) => {
     try {
-
-        const body = await req.json();
-        const { idToken, domain } = body;
-
-        if (!idToken || !domain) {
-            return NextResponse.json({ error: "idToken and domain are required" }, { status: 400 });
-        }
-
         // 1. Verify User
         let decodedToken;
         try {
@@ -24,16 +18,26 @@ export async function POST(req: NextRequest) {
         const uid = decodedToken.uid;
 
         // 2. Find and Update User in Firestore
-        // Check competitors first as it's the primary collection for this flow
+        // Check competitors first as it's the primary collection for this flow.
+        // Once organizers have assigned a domain (lib/domainAssignment.ts) it is no longer the competitor's choice
         const competitorRef = adminDb.collection("competitors").doc(uid);
-        const competitorDoc = await competitorRef.get();
+        const result = await adminDb.runTransaction(async (tx) => {
+            const competitorDoc = await tx.get(competitorRef);
+            if (!competitorDoc.exists) return "not_found" as const;
+            if (competitorDoc.data()!.domainAssignedBy) return "assigned" as const;
 
-        if (competitorDoc.exists) {
-            await competitorRef.update({
+            tx.update(competitorRef, {
                 domain: domain,
                 updatedAt: admin.firestore.FieldValue.serverTimestamp()
             });
-            return NextResponse.json({ success: true, message: "Domain updated in competitors" }, { status: 200 });
+            return "updated" as const;
+        });
+
+        if (result === "assigned") {
+            return apiError("Your domain has already been assigned by the organizers.", 409, { code: "DOMAIN_ASSIGNED" });
+        }
+        if (result === "updated") {
+            return ok({ success: true, message: "Domain updated in competitors" }, { status: 200 });
         }
 
         return NextResponse.json({ error: "User not found in competitors" }, { status: 404 });
@@ -42,4 +46,4 @@ export async function POST(req: NextRequest) {
         console.error("[UpdateDomain] Internal Error:", error);
         return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
     }
-}
+});
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb, adminAuth } from "@/lib/firebaseAdmin";
+import admin from "firebase-admin";
 import crypto from "crypto";
 
 export async function POST(req: NextRequest) {
@@ -148,7 +149,8 @@ export async function POST(req: NextRequest) {
             const updateData: any = {
                 isPaid: true,
                 paymentDate: now,
-                updatedAt: now,
+                // A timestamp like every other writer, so the Sheets sync picks the payment up
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
                 ticketId: order.id
             };
 
@@ -1,41 +1,30 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/lib/AuthContext";
 import ReactMarkdown from "react-markdown";
-import { storeFormData, retrieveFormData, clearStoredData } from "@/lib/secureStorage";
+import { storeFormData, retrieveFormData, clearStoredData, hasValidStoredData } from "@/lib/secureStorage";
 import { createCSRFToken, validateCSRFToken, clearCSRFToken, getStoredCSRFToken } from "@/lib/csrfProtection";
+import type { FormData, FormQuestion } from "@/lib/formTypes";
+import { getFieldAnswers, isConditionMet, stripHiddenAnswers } from "@/lib/formVisibility";
+import { validateAnswer, type FieldError } from "@/lib/formValidation";
+import { ApiError, callApi } from "@/lib/apiClient";
+import { applicationContract, resumeDraftContract, saveDraftContract } from "@/lib/apiContracts";
 
 
-// Type definitions for form data
-interface FormQuestion {
-    id: string;
-    entryId?: string; // Actual Google Form Entry ID
-    type: string;
-    label: string;
-    description?: string; // Question description/help text
-    required: boolean;
-    options?: string[];
-    min?: number;
-    max?: number;
-    minLabel?: string;
-    maxLabel?: string;
-    rows?: { id: string, entryId?: string, label: string }[];
-    columns?: string[];
-    placeholder?: string;
-}
+type FormResponses = Record<string, unknown>;
 
-interface FormData {
-    title: string;
-    description: string;
-    questions: FormQuestion[];
-}
+// Drafts are saved to the applicant's account once they stop typing for this long
+const DRAFT_AUTOSAVE_DELAY_MS = 2000;
 
-type FormResponses = Record<string, unknown>;
+type DraftState = "idle" | "saving" | "saved" | "error";
 
 interface CustomApplicationFormProps {
     onSubmitSuccess?: () => void;
+    // Reopen the signed-in applicant's submitted application instead of starting a new one
+    editing?: boolean;
+    onCancelEdit?: () => void;
 }
 
-export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationFormProps) {
+export function CustomApplicationForm({ onSubmitSuccess, editing = false, onCancelEdit }: CustomApplicationFormProps) {
     const { user, loading: authLoading, signInWithGoogle, signOut } = useAuth();
     const [formData, setFormData] = useState<FormData | null>(null);
     const [loading, setLoading] = useState(true);
@@ -51,6 +40,16 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
     const [selectedMajor, setSelectedMajor] = useState<string | null>(null);
     const [validationErrors, setValidationErrors] = useState<Record<string, string | null>>({});
     const [isFormValid, setIsFormValid] = useState(false);
+    // Server-side draft: which user/form it was loaded for, and the last save
+    const [draftLoadedFor, setDraftLoadedFor] = useState<string | null>(null);
+    const [draftState, setDraftState] = useState<DraftState>("idle");
+    const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+    const [draftResumedAt, setDraftResumedAt] = useState<string | null>(null);
+    const lastSavedDraft = useRef(JSON.stringify({}));
+    // Idempotency key for the submission in flight; retries after a failure reuse it
+    const submissionKey = useRef<string | null>(null);
+    // Edit mode: the form schema the submitted answers were prefilled into
+    const [editLoadedFor, setEditLoadedFor] = useState<FormData | null>(null);
     // FRONTEND-ONLY SECTION HEADERS
     // These will be displayed BEFORE the question with the matching title
     // This allows us to remove sections from Google Forms (which break Entry ID scraping)
@@ -99,22 +98,13 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
         // "The Why" is valid for Healthcare too
     };
 
-    // Skip logic configuration: question ranges for each major (1-indexed)
-    // Each major shows questions from 'start' up to but not including 'end'
-    // Questions before the major question (e.g., 1-6) are always shown
-    // NOTE: These indices assume SECTIONS HAVE BEEN REMOVED from Google Forms
-    const SKIP_LOGIC: Record<string, { start: number; end: number | null }> = {
-        "Engineering": { start: 8, end: 20 },   // Items 8-19 (Engineering-only questions)
-        "Medicine": { start: 20, end: null },   // Items 20+ (Medicine-only questions) - Maintain legacy support
-        "Healthcare": { start: 20, end: null }, // Items 20+ (Healthcare questions)
-    };
+    // Visibility comes from each question's `visibleWhen` condition (lib/formVisibility.ts).
+    // The major question is the one most conditions depend on
+    const isMajorQuestion = (q: FormQuestion) => q.field === "major";
 
-    // No common ending - both tracks have their own final questions
-    const COMMON_ENDING_START = 9999; // Disabled - no common ending section
-
-    // The question index (0-indexed) that triggers the skip logic
-    // This is typically "What major are you in?" - we'll detect it by label
-    const MAJOR_QUESTION_KEYWORDS = ["what major are you in", "what is your major and year of study", "what field are you in"];
+    // Answers keyed by field name, which is what conditions are written against
+    const fieldAnswersOf = (source: FormResponses) =>
+        getFieldAnswers(formData?.questions || [], source, q => q.id);
 
     // ===== TEST DATA GENERATOR =====
     const fillTestData = (targetMajor: "Engineering" | "Healthcare") => {
@@ -148,26 +138,15 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
             "Scenario: A hospital’s medication delivery system is failing": "I would build a smart dispenser ward-side to save nurse travel time."
         };
 
-        // Determine visibility based on SKIP_LOGIC
-        const checkVisibility = (index: number, major: string): boolean => {
-            const majorQuestionIndex = formData.questions.findIndex(q =>
-                MAJOR_QUESTION_KEYWORDS.some(kw => q.label.toLowerCase().includes(kw))
-            );
-            if (index <= majorQuestionIndex) return true;
-            const range = SKIP_LOGIC[major];
-            if (!range) return true;
-            const questionNumber = index + 1;
-            const afterStart = questionNumber >= range.start;
-            const beforeEnd = range.end === null || questionNumber < range.end;
-            const isCommonEnding = questionNumber >= COMMON_ENDING_START;
-            return (afterStart && beforeEnd) || isCommonEnding;
-        };
+        // Answers are filled in order, so the major is known before any track question
+        const checkVisibility = (index: number): boolean =>
+            isConditionMet(formData.questions[index].visibleWhen, fieldAnswersOf(newResponses));
 
         formData.questions.forEach((q, index) => {
-            if (!checkVisibility(index, targetMajor)) return;
+            if (!checkVisibility(index)) return;
 
             // Handle major question itself first
-            if (MAJOR_QUESTION_KEYWORDS.some(kw => q.label.toLowerCase().includes(kw))) {
+            if (isMajorQuestion(q)) {
                 newResponses[q.id] = targetMajor; // "Engineering" or "Healthcare"
                 return;
             }
@@ -264,210 +243,27 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
         setValidationErrors({}); // Clear errors as we filled valid data
     };
 
-    const isValidEmail = (email: string) => {
-        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-    };
-
-    const isValidNumber = (value: string | number) => {
-        if (value === "") return false;
-        const num = Number(value);
-        return !isNaN(num);
-    };
-
-    const countWords = (value: string) => value.trim().split(/\s+/).filter(Boolean).length;
-
-    const isQuestionRequiredForCurrentForm = (question: FormQuestion, currentFormType: string) => {
-        // Competitor flow: all visible questions are required except Technical Toolkit groups LinkedIn URL.
-        if (currentFormType === "competitor") {
-            const label = question.label.toLowerCase().trim();
-            const isToolkitGroup =
-                label.startsWith("group 1:") ||
-                label.startsWith("group 2:") ||
-                label.startsWith("group 3:") ||
-                label.startsWith("group 4:");
-            const isLinkedInField = label.includes("linkedin");
-
-            if (isToolkitGroup || isLinkedInField) return false;
-            return true;
-        }
-        return question.required;
-    };
-
-    const validateQuestion = (question: FormQuestion, value: unknown, currentFormType: string): string | null => {
-        // For competitor form: ALL visible questions are generally required, BUT we respect explicit false.
-        // For attendee form: respect the Google Form's required settings
-
-        const isRequired = isQuestionRequiredForCurrentForm(question, currentFormType);
-
-        const cleanLabel = question.label
-            .replace(/\s*\(optional\)\s*/gi, "")
-            .replace(/\s+/g, " ")
-            .trim();
-
-        // 1. Required check
-        if (isRequired) {
-            if (value === undefined || value === "" || value === null) return `${cleanLabel} is required`;
-            if (Array.isArray(value) && value.length === 0) return `${cleanLabel} is required`;
-            if (typeof value === 'object' && Object.keys(value as object).length === 0) return `${cleanLabel} is required`;
-        }
-
-        // Validate select/radio values against available options when applicable
-        if ((question.type === "radio" || question.type === "dropdown") && typeof value === "string" && question.options?.length) {
-            const optionsWithoutOther = question.options.filter(opt => opt !== "__OTHER__");
-            const hasOtherOption = question.options.includes("__OTHER__");
-            const isKnownOption = optionsWithoutOther.includes(value);
-            const isOtherText = hasOtherOption && value.trim() !== "" && !isKnownOption;
-            if (!isKnownOption && !isOtherText) {
-                return `Please select a valid option for ${cleanLabel}`;
-            }
-        }
-
-        // Return early if empty and not required (optional fields)
-        if (value === undefined || value === "" || value === null) return null;
-
-        // Only apply partial text validation (Email/Number heuristics) to text inputs
-        // This prevents false positives on Select, Radio, Checkbox where values might contain text like "Year 1"
-        if (question.type !== "short_answer" && question.type !== "paragraph") return null;
-
-        const valString = String(value).trim();
-        const labelLower = question.label.toLowerCase();
-
-        // 2. Full Name Validation
-        if (labelLower.includes("full name")) {
-            const namePattern = /^[a-zA-Z\s'-]+$/;
-            if (!namePattern.test(valString)) {
-                return "Full name can only contain letters, spaces, hyphens, and apostrophes";
-            }
-            if (valString.length < 2) {
-                return "Full name must be at least 2 characters";
-            }
-        }
-
-        // 3. Nationality validation
-        if (labelLower.includes("nationality")) {
-            const nationalityPattern = /^[a-zA-Z\s'-]+$/;
-            if (!nationalityPattern.test(valString)) {
-                return "Nationality can only contain letters, spaces, hyphens, and apostrophes";
-            }
-            if (valString.length < 2) {
-                return "Nationality must be at least 2 characters";
-            }
-        }
-
-        // 4. University validation
-        if (labelLower.includes("university") && !labelLower.includes("email")) {
-            const universityPattern = /^[a-zA-Z\s'-]+$/;
-            if (!universityPattern.test(valString)) {
-                return "University name can only contain letters, spaces, hyphens, and apostrophes";
-            }
-            if (valString.length < 2) {
-                return "University name must be at least 2 characters";
-            }
-        }
-
-        // 5. "What is your major?" (major title) validation
-        if (labelLower.includes("what is your major?")) {
-            const majorPattern = /^[a-zA-Z\s'-]+$/;
-            if (!majorPattern.test(valString)) {
-                return "Major title can only contain letters, spaces, hyphens, and apostrophes";
-            }
-            if (valString.length < 2) {
-                return "Major title must be at least 2 characters";
-            }
-        }
-
-        // 6. Emirates ID / Passport ID Validation
-        // if (labelLower.includes("emirates id")) {
-        //     const digitsOnly = valString.replace(/\D/g, "");
-        //     if (digitsOnly.length !== 15) {
-        //         return "Emirates ID must be exactly 15 digits";
-        //     }
-        // }
-
-        // 7. Phone Number Validation (allows +, -, spaces, and numbers)
-        if (
-            labelLower.includes("phone") ||
-            labelLower.includes("whatsapp") ||
-            labelLower.includes("contact number")
-        ) {
-            // Phone format: allows +971-XX-XXX-XXXX or similar
-            const phonePattern = /^[0-9+\-\s()]+$/;
-            if (!phonePattern.test(valString)) {
-                return "Phone number should only contain numbers, +, -, and spaces";
-            }
-        }
-
-        // 8. Email Validation
-        if (labelLower.includes("email")) {
-            if (!isValidEmail(valString)) return "Please enter a valid email address";
-        }
-
-        // 9. URL validation for portfolio/resume/link fields
-        if (
-            labelLower.includes("linkedin") ||
-            labelLower.includes("portfolio") ||
-            labelLower.includes("google drive") ||
-            labelLower.includes("resume") ||
-            labelLower.includes("url")
-        ) {
-            try {
-                new URL(valString);
-            } catch {
-                return `${cleanLabel} must be a valid URL (include https://)`;
-            }
-        }
-
-        // 10. Generic Number Validation (for other numeric fields)
-        if (
-            (question.type === "short_answer" && labelLower.includes("number") && !labelLower.includes("contact number") && !labelLower.includes("phone")) ||
-            labelLower.includes("gpa") ||
-            (labelLower.includes("year") && !labelLower.includes("major and year"))
-        ) {
-            if (!isValidNumber(valString)) return "Please enter a valid number";
-        }
-
-        // 11. Word limits for long-answer fields
-        if (question.type === "paragraph" || question.type === "short_answer") {
-            const words = countWords(valString);
-
-            if (labelLower.includes("hands-on") && labelLower.includes("project")) {
-                if (words > 100) return `Projects description is too long (${words} words). Please keep it to 100 words or fewer.`;
-            }
-
-            if (labelLower.includes("professional") && labelLower.includes("internship")) {
-                if (words > 200) return `Experience description is too long (${words} words). Please keep it to 200 words or fewer.`;
-            }
-
-            if (labelLower.includes("medication delivery system is failing")) {
-                if (words > 500) return `Challenge answer is too long (${words} words). Please keep it to 500 words or fewer.`;
-            }
-
-            // Healthcare-specific limits
-            if (labelLower.includes("clinical efficiency")) {
-                if (words > 200) return `Clinical efficiency response is too long (${words} words). Please keep it to 200 words or fewer.`;
-            }
-
-            if (labelLower.includes("data paradox")) {
-                if (words > 200) return `Data paradox response is too long (${words} words). Please keep it to 200 words or fewer.`;
-            }
-
-            if (labelLower.includes("enthusiasm")) {
-                if (words > 100) return `Enthusiasm response is too long (${words} words). Please keep it to 100 words or fewer.`;
-            }
+    // Required flags, options, patterns and word limits all come from the schema,
+    // which is exactly what the server validates against
+    const validateQuestion = (question: FormQuestion, value: unknown): string | null =>
+        validateAnswer(question, value)?.message ?? null;
 
-            if (labelLower.includes("collaborative spirit")) {
-                if (words > 100) return `Collaborative spirit response is too long (${words} words). Please keep it to 100 words or fewer.`;
-            }
-        }
-
-        // 12. Min/Max Logic (for number inputs)
-        if (isValidNumber(valString) && (question.min !== undefined || question.max !== undefined)) {
-            const num = Number(valString);
-            if (question.min !== undefined && num < question.min) return `Minimum value is ${question.min}`;
-            if (question.max !== undefined && num > question.max) return `Maximum value is ${question.max}`;
+    // Attach server-side field errors to their questions; returns a summary for the banner
+    const showServerFieldErrors = (details: FieldError[]): string => {
+        if (formData) {
+            const fieldErrors: Record<string, string> = {};
+            const fieldTouched: Record<string, boolean> = {};
+            formData.questions.forEach(q => {
+                const detail = details.find(d => d.field === (q.field || q.entryId || q.id));
+                if (detail) {
+                    fieldErrors[q.id] = detail.message;
+                    fieldTouched[q.id] = true;
+                }
+            });
+            setValidationErrors(prev => ({ ...prev, ...fieldErrors }));
+            setTouched(prev => ({ ...prev, ...fieldTouched }));
         }
-
-        return null;
+        return details.map(detail => detail.message).join('. ');
     };
 
     // 1. Initial Fetch
@@ -478,26 +274,6 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                 const res = await fetch(`/api/forms?type=${formType}`);
                 if (!res.ok) throw new Error("Failed to fetch form");
                 const data = await res.json();
-
-                // DATA TRANSFORMATION:
-                // Make "Your Technical Toolkit" questions optional
-                let inToolkitSection = false;
-                data.questions = data.questions.map((q: FormQuestion) => {
-                    if (q.type === 'section_header' && q.label?.includes("Your Technical Toolkit")) {
-                        inToolkitSection = true;
-                    } else if (inToolkitSection && q.type === 'section_header') {
-                        // End of toolkit section (next header found)
-                        inToolkitSection = false;
-                    }
-
-                    if (inToolkitSection && q.type !== 'section_header') {
-                        // This is a toolkit question -> Make OPTIONAL
-                        return { ...q, required: false };
-                    }
-
-                    return q;
-                });
-
                 setFormData(data);
                 setError(null);
             } catch (err) {
@@ -518,13 +294,16 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
     }, [formType]);
 
     const updateResponse = (questionId: string, value: unknown) => {
-        setResponses((prev) => ({ ...prev, [questionId]: value }));
+        // Drop answers to questions that this answer hides
+        setResponses((prev) => formData
+            ? stripHiddenAnswers(formData.questions, { ...prev, [questionId]: value }, q => q.id)
+            : { ...prev, [questionId]: value });
 
         // Real-time validation
         if (formData) {
             const question = formData.questions.find(q => q.id === questionId);
             if (question) {
-                const error = validateQuestion(question, value, formType);
+                const error = validateQuestion(question, value);
                 setValidationErrors(prev => ({ ...prev, [questionId]: error }));
             }
         }
@@ -532,34 +311,8 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
         // Check if this is the major question and update selectedMajor
         if (formData) {
             const question = formData.questions.find(q => q.id === questionId);
-            if (question && MAJOR_QUESTION_KEYWORDS.some(kw => question.label.toLowerCase().includes(kw))) {
-                const newMajor = value as string;
-
-                // If major is changing, clear responses for questions that will become hidden
-                if (newMajor !== selectedMajor) {
-                    setSelectedMajor(newMajor);
-
-                    // Clear responses for all questions after the major question
-                    // (these are the section-specific questions that may have stale data)
-                    const majorQuestionIndex = formData.questions.findIndex(q =>
-                        MAJOR_QUESTION_KEYWORDS.some(kw => q.label.toLowerCase().includes(kw))
-                    );
-
-                    if (majorQuestionIndex !== -1) {
-                        setResponses(prev => {
-                            const cleaned: FormResponses = {};
-                            // Only keep responses for questions up to and including the major question
-                            formData.questions.forEach((q, idx) => {
-                                if (idx <= majorQuestionIndex && prev[q.id] !== undefined) {
-                                    cleaned[q.id] = prev[q.id];
-                                }
-                            });
-                            // Add the new major selection
-                            cleaned[questionId] = value;
-                            return cleaned;
-                        });
-                    }
-                }
+            if (question && isMajorQuestion(question)) {
+                setSelectedMajor(value as string);
             }
         }
     };
@@ -623,7 +376,7 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
         // Transform responses to use Entry IDs instead of React Keys
         const submissionPayload: Record<string, unknown> = {};
 
-        // Debug: Log the skip logic state
+        // Debug: Log the visibility state
         console.log("=== SUBMISSION DEBUG ===");
         console.log("Selected Major:", selectedMajor);
         console.log("Form Type:", formType);
@@ -642,6 +395,12 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
 
                 if (answer === undefined || answer === "") return;
 
+                // Native definitions: submit raw answers keyed by field name
+                if (formData.source === "native") {
+                    if (q.field) submissionPayload[q.field] = answer;
+                    return;
+                }
+
                 // Handle standard questions
                 if (q.entryId) {
                     let finalAnswer = answer;
@@ -747,8 +506,10 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                 // The form data is already cleared above, but we can reset state if needed
             });
 
-            // Store securely with integrity checks using secureStorage
-            const stored = await storeFormData(submissionPayload, formType);
+            // Store securely with integrity checks using secureStorage; the auto-submit
+            // and any retry after it reuse the stored idempotency key
+            submissionKey.current ??= crypto.randomUUID();
+            const stored = await storeFormData(submissionPayload, formType, submissionKey.current);
             if (!stored) {
                 setError("Failed to prepare form for submission. Please try again.");
                 return;
@@ -772,13 +533,18 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
 
         try {
             console.log("Form submission started");
+            submissionKey.current ??= crypto.randomUUID();
             const res = await fetch("/api/forms/submit", {
                 method: "POST",
-                headers: { "Content-Type": "application/json" },
+                headers: {
+                    "Content-Type": "application/json",
+                    "Idempotency-Key": submissionKey.current
+                },
                 body: JSON.stringify({
                     responses: submissionPayload,
                     type: formType,
-                    idToken: await user.getIdToken()
+                    idToken: await user.getIdToken(),
+                    ...(editing && { edit: true })
                 }),
             });
 
@@ -801,12 +567,15 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                 if (res.status === 400) {
                     // Show specific validation error if available
                     if (data.details && Array.isArray(data.details)) {
-                        const errorMessage = data.details.join('. ');
-                        setError(`Please fix the following issues: ${errorMessage}`);
+                        setError(`Please fix the following issues: ${showServerFieldErrors(data.details)}`);
                     } else {
                         setError(data.error || "Invalid form data. Please check your input and try again.");
                     }
                 }
+                // Handle edits after the edit window closed
+                else if (res.status === 403 && data.code === "EDIT_CLOSED") {
+                    setError(data.error);
+                }
                 // Handle duplicate submission specifically
                 else if (res.status === 409) {
                     setError("You have already submitted an application. Please check your email for status updates.");
@@ -823,6 +592,10 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                 return;
             }
 
+            // The server removed the draft along with saving the application
+            submissionKey.current = null;
+            setDraftState("idle");
+            setDraftResumedAt(null);
             onSubmitSuccess?.();
         } catch (err) {
             console.error("Submit error:", err);
@@ -843,6 +616,8 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
 
                 if (storedData) {
                     const { payload, formType } = storedData;
+                    const idempotencyKey = storedData.submissionKey ?? crypto.randomUUID();
+                    submissionKey.current = idempotencyKey;
 
                     // Validate CSRF token
                     const urlParams = new URLSearchParams(window.location.search);
@@ -905,7 +680,10 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                             // Payload is already transformed with Entry IDs
                             const res = await fetch("/api/forms/submit", {
                                 method: "POST",
-                                headers: { "Content-Type": "application/json" },
+                                headers: {
+                                    "Content-Type": "application/json",
+                                    "Idempotency-Key": idempotencyKey
+                                },
                                 body: JSON.stringify({
                                     responses: payload,
                                     type: formType || "competitor",
@@ -935,7 +713,7 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                                 }
 
                                 if (res.status === 400 && Array.isArray(data.details)) {
-                                    setError(`Please fix the following issues: ${data.details.join('. ')}`);
+                                    setError(`Please fix the following issues: ${showServerFieldErrors(data.details)}`);
                                 } else if (res.status === 429) {
                                     setError(data.error || "Too many requests. Please try again later.");
                                 } else {
@@ -946,7 +724,10 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                                 return;
                             }
 
+                            submissionKey.current = null;
                             setAutoSubmitSuccess(true);
+                            setDraftState("idle");
+                            setDraftResumedAt(null);
 
                             // Wait for checkmark animation (2000ms), then fade out
                             setTimeout(() => {
@@ -976,43 +757,152 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
         }
     }, [user, authLoading]);
 
-    // Helper to determine if a question should be visible based on skip logic
-    const isQuestionVisible = (index: number): boolean => {
-        if (!formData) return true;
+    // Prefill the submitted answers when editing an application
+    useEffect(() => {
+        if (!editing || !user || authLoading || loading || !formData) return;
+        if (editLoadedFor === formData) return;
 
-        // Find the major question index
-        const majorQuestionIndex = formData.questions.findIndex(q =>
-            MAJOR_QUESTION_KEYWORDS.some(kw => q.label.toLowerCase().includes(kw))
-        );
+        let cancelled = false;
+        (async () => {
+            try {
+                const { application } = await callApi(applicationContract, { idToken: await user.getIdToken() });
+                if (cancelled) return;
 
-        // If no major question found, show all questions
-        if (majorQuestionIndex === -1) return true;
+                if (!application || !application.canEdit) {
+                    setError("Your application can no longer be edited.");
+                    return;
+                }
+
+                // Switch to the form that was submitted; this runs again once it is loaded
+                if (application.type !== formType) {
+                    setFormType(application.type);
+                    return;
+                }
+
+                // Submitted answers are stored by field name
+                const prefilled: FormResponses = {};
+                formData.questions.forEach(q => {
+                    if (q.type === "section_header" || !q.field) return;
+                    const value = application.fields[q.field];
+                    if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) return;
+                    prefilled[q.id] = value;
+                });
+
+                // Tracks share field names, keep only the answers for the submitted track
+                const visibleAnswers = stripHiddenAnswers(formData.questions, prefilled, q => q.id);
+                setResponses(visibleAnswers);
+                const majorQuestion = formData.questions.find(isMajorQuestion);
+                if (majorQuestion && typeof visibleAnswers[majorQuestion.id] === "string") {
+                    setSelectedMajor(visibleAnswers[majorQuestion.id] as string);
+                }
+                setError(null);
+            } catch (err) {
+                console.error("Failed to load application for editing:", err);
+                setError("Failed to load your application. Please refresh and try again.");
+            } finally {
+                if (!cancelled) setEditLoadedFor(formData);
+            }
+        })();
+
+        return () => { cancelled = true; };
+    }, [editing, user, authLoading, loading, formData, formType, editLoadedFor]);
+
+    // Resume the applicant's saved draft once they are signed in and the form is loaded
+    useEffect(() => {
+        if (editing || !user || authLoading || loading || !formData) return;
 
-        // If we haven't selected a major yet, only show questions up to and including the major question
-        if (!selectedMajor) {
-            return index <= majorQuestionIndex;
+        const draftKey = `${user.uid}:${formType}`;
+        if (draftLoadedFor === draftKey) return;
+
+        // A submission waiting on the sign-in redirect takes priority over the draft
+        if (hasValidStoredData()) {
+            setDraftLoadedFor(draftKey);
+            return;
         }
 
-        // Get the range for the selected major
-        const range = SKIP_LOGIC[selectedMajor];
+        let cancelled = false;
+        (async () => {
+            try {
+                const { draft } = await callApi(resumeDraftContract, {
+                    idToken: await user.getIdToken(),
+                    type: formType,
+                });
+                if (cancelled || !draft) return;
+
+                // Questions can change between form versions; drop answers to ones that are gone
+                const questionIds = new Set(formData.questions.map(q => q.id));
+                const restored = Object.fromEntries(
+                    Object.entries(draft.responses).filter(([id]) => questionIds.has(id))
+                );
+                if (Object.keys(restored).length === 0) return;
+
+                // Anything typed while the draft was loading wins
+                setResponses(prev => ({ ...restored, ...prev }));
+                const majorQuestion = formData.questions.find(isMajorQuestion);
+                if (majorQuestion && typeof restored[majorQuestion.id] === "string") {
+                    setSelectedMajor(restored[majorQuestion.id] as string);
+                }
+
+                lastSavedDraft.current = JSON.stringify(restored);
+                setDraftSavedAt(draft.savedAt);
+                setDraftResumedAt(draft.savedAt);
+                setDraftState("saved");
+            } catch (err) {
+                console.warn("Failed to load saved draft:", err);
+            } finally {
+                if (!cancelled) setDraftLoadedFor(draftKey);
+            }
+        })();
 
-        // If no skip logic defined for this major, show all questions
-        if (!range) return true;
+        return () => { cancelled = true; };
+    }, [editing, user, authLoading, loading, formData, formType, draftLoadedFor]);
 
-        // Questions up to and including the major question are always visible
-        if (index <= majorQuestionIndex) return true;
+    // Autosave to the applicant's account (signed-in applicants only, after the draft was resumed)
+    useEffect(() => {
+        if (editing || !user || !formData || success || submitting || autoSubmitting) return;
+        if (draftLoadedFor !== `${user.uid}:${formType}`) return;
 
-        // Convert to 1-indexed for comparison with skip logic config
-        const questionNumber = index + 1;
+        const serialized = JSON.stringify(responses);
+        if (serialized === lastSavedDraft.current) return;
 
-        // Check if question falls within the range for this major
-        const afterStart = questionNumber >= range.start;
-        const beforeEnd = range.end === null || questionNumber < range.end;
+        const timer = setTimeout(async () => {
+            setDraftState("saving");
+            try {
+                const { savedAt } = await callApi(saveDraftContract, {
+                    idToken: await user.getIdToken(),
+                    type: formType,
+                    responses,
+                });
+                lastSavedDraft.current = serialized;
+                setDraftSavedAt(savedAt);
+                setDraftState("saved");
+            } catch (err) {
+                if (err instanceof ApiError && err.status === 409) {
+                    // Already submitted - nothing left to save
+                    lastSavedDraft.current = serialized;
+                    setDraftState("idle");
+                    return;
+                }
+                console.warn("Failed to save draft:", err);
+                setDraftState("error");
+            }
+        }, DRAFT_AUTOSAVE_DELAY_MS);
 
-        // Also show questions in the common ending section (shown to everyone)
-        const isCommonEnding = questionNumber >= COMMON_ENDING_START;
+        return () => clearTimeout(timer);
+    }, [responses, editing, user, formData, formType, draftLoadedFor, success, submitting, autoSubmitting]);
 
-        return (afterStart && beforeEnd) || isCommonEnding;
+    const startOver = () => {
+        setResponses({});
+        setSelectedMajor(null);
+        setValidationErrors({});
+        setTouched({});
+        setDraftResumedAt(null);
+    };
+
+    // Helper to determine if a question should be visible based on its visibleWhen condition
+    const isQuestionVisible = (index: number): boolean => {
+        if (!formData) return true;
+        return isConditionMet(formData.questions[index].visibleWhen, fieldAnswersOf(responses));
     };
 
     // Check overall form validity
@@ -1035,7 +925,7 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
             // (which are required but not visible) do NOT block submission.
             if (visible) {
                 const val = responses[q.id];
-                const error = validateQuestion(q, val, formType);
+                const error = validateQuestion(q, val);
                 if (error) {
                     valid = false;
                     if (!firstInvalidReason) firstInvalidReason = `Q${index + 1} (${q.label.substring(0, 15)}...): ${error}`;
@@ -1078,7 +968,7 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
 
                 // Try to extract limit from description (e.g., "limited to 100 words")
                 const limitMatch = question.description?.match(/limit(?:ed)? to (\d+) words/i);
-                const limit = limitMatch ? parseInt(limitMatch[1]) : null;
+                const limit = question.wordLimit ?? (limitMatch ? parseInt(limitMatch[1]) : null);
                 const isOverLimit = limit ? wordCount > limit : false;
 
                 return (
@@ -1624,6 +1514,21 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                 </div>
             )}
 
+            {/* Resumed draft banner */}
+            {draftResumedAt && (
+                <div className="bg-[#007b8a]/5 dark:bg-[#007b8a]/10 border-b border-[#007b8a]/20 px-4 py-3 flex flex-wrap items-center justify-center gap-3 text-center">
+                    <p className="text-sm text-zinc-700 dark:text-zinc-300">
+                        We restored the draft you saved on {new Date(draftResumedAt).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}.
+                    </p>
+                    <button
+                        onClick={startOver}
+                        className="text-sm font-semibold text-[#007b8a] hover:underline"
+                    >
+                        Start over
+                    </button>
+                </div>
+            )}
+
             {/* Form Header */}
             <div className="bg-white dark:bg-zinc-900 px-8 py-10 border-b border-zinc-100 dark:border-zinc-800 relative">
                 <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-6">
@@ -1687,8 +1592,20 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                     )}
 
 
+                    {/* Leave edit mode without saving */}
+                    {editing && onCancelEdit && (
+                        <div className="shrink-0">
+                            <button
+                                onClick={onCancelEdit}
+                                className="px-4 py-2 rounded-md text-sm font-semibold text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-200 bg-zinc-100 dark:bg-zinc-800 transition-all"
+                            >
+                                Cancel editing
+                            </button>
+                        </div>
+                    )}
+
                     {/* Type Toggle - Segmented Control */}
-                    <div className="shrink-0">
+                    {!editing && <div className="shrink-0">
                         <div className="inline-flex p-1 bg-zinc-100 dark:bg-zinc-800 rounded-lg">
                             <button
                                 onClick={() => setFormType("competitor")}
@@ -1710,7 +1627,7 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                                 Attendee
                             </button> */}
                         </div>
-                    </div>
+                    </div>}
                 </div>
             </div>
 
@@ -1762,7 +1679,8 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                         const questionNumber = visibleCount;
 
                         // Check if we need to inject a frontend section header BEFORE this question
-                        const frontendSection = FRONTEND_SECTIONS[question.label];
+                        // (native definitions bring their own section headers)
+                        const frontendSection = formData.source !== "native" ? FRONTEND_SECTIONS[question.label] : undefined;
                         // Only show section if showFor matches current major (or showFor is not specified)
                         const shouldShowSection = frontendSection &&
                             (!frontendSection.showFor || frontendSection.showFor === selectedMajor);
@@ -1795,7 +1713,7 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                                             </span>
                                             <h4 className="text-xl font-medium text-zinc-900 dark:text-white leading-snug">
                                                 {question.label}
-                                                {isQuestionRequiredForCurrentForm(question, formType) && <span className="text-red-500 ml-1" title="Required">*</span>}
+                                                {question.required && <span className="text-red-500 ml-1" title="Required">*</span>}
                                             </h4>
                                         </div>
                                         {question.description && (
@@ -1855,7 +1773,7 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
                                     <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
                                 </svg>
-                                Submit Application
+                                {editing ? "Save Changes" : "Submit Application"}
                             </>
                         ) : (
                             <>
@@ -1875,10 +1793,24 @@ export function CustomApplicationForm({ onSubmitSuccess }: CustomApplicationForm
                         Please complete all visible required fields to submit.
                     </p>
                 )}
+                {user && draftState !== "idle" && (
+                    <p className={`mt-3 text-center text-xs ${draftState === "error" ? "text-amber-600 dark:text-amber-400" : "text-zinc-500 dark:text-zinc-400"}`}>
+                        {draftState === "saving"
+                            ? "Saving draft..."
+                            : draftState === "error"
+                                ? "Couldn't save your draft. We'll try again when you make another change."
+                                : draftSavedAt && `Draft saved at ${new Date(draftSavedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+                        }
+                    </p>
+                )}
                 <p className="mt-3 text-center text-xs text-zinc-500 dark:text-zinc-400">
-                    {user
-                        ? "Your application will be submitted to Google Forms"
-                        : "You'll be asked to sign in with Google to submit your application"
+                    {user && editing
+                        ? "Your changes replace your submitted answers. Reviewers can see earlier versions."
+                        : user
+                            ? formData.source === "native"
+                                ? "Your application will be saved to your MedHack account"
+                                : "Your application will be submitted to Google Forms"
+                            : "You'll be asked to sign in with Google to submit your application"
                     }
                 </p>
             </div>
@@ -7,6 +7,14 @@ import { auth } from "@/lib/Firebase";
 import { Button } from "@/components/ui/button";
 import { retrieveFormData, hasValidStoredData, clearStoredData } from "@/lib/secureStorage";
 import { useAuth } from "@/lib/AuthContext";
+import { callApi } from "@/lib/apiClient";
+import {
+  updateDomainContract,
+  userStatusContract,
+  userTeamContract,
+  type ContractResponse,
+  type DomainId,
+} from "@/lib/apiContracts";
 
 type UserStatus = "guest" | "pending" | "approved" | "pending_payment" | "rejected" | "loading" | "domain_ai" | "payment_success" | "final_phase" | "domain_selection";
 
@@ -26,10 +34,13 @@ interface DomainRecommendation {
 }
 
 interface SubmissionResult {
+  uid: string;
   name: string;
   email: string;
   major: string;
   recommendation: DomainRecommendation | null;
+  // Computed by an older algorithm version; an admin recompute refreshes it
+  stale: boolean;
   rawResponses?: Record<string, any>;
 }
 
@@ -47,7 +58,8 @@ export function RegistrationSection() {
   const [paymentSuccessDismissed, setPaymentSuccessDismissed] = useState(false);
 
   // States for Domain Selection (Dev View)
-  const [selectedDomain, setSelectedDomain] = useState<string | null>(null);
+  const [isEditingApplication, setIsEditingApplication] = useState(false);
+  const [selectedDomain, setSelectedDomain] = useState<DomainId | null>(null);
   const [expandedDomain, setExpandedDomain] = useState<string | null>(null);
   const [isUpdatingDomain, setIsUpdatingDomain] = useState(false);
   const [isDomainConfirmed, setIsDomainConfirmed] = useState(false);
@@ -70,13 +82,7 @@ export function RegistrationSection() {
       // Get fresh ID token for authentication
       const idToken = await user.getIdToken();
 
-      const res = await fetch("/api/user-status", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ uid: user.uid, idToken }),
-      });
-
-      const data = await res.json();
+      const data = await callApi(userStatusContract, { uid: user.uid, idToken });
       console.log("Status API Response:", data);
 
       // If the API confirms submission (submitted: true)
@@ -118,7 +124,9 @@ export function RegistrationSection() {
           submissionType: data.type,
           actualStatus: actualStatus,
           isPaid: isPaid,
-          major: data.major
+          major: data.major,
+          canEdit: data.canEdit,
+          editableUntil: data.editableUntil
         });
 
       } else {
@@ -209,13 +217,7 @@ export function RegistrationSection() {
             return;
           }
 
-          const res = await fetch("/api/user-status", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ uid: currentUser.uid, idToken }),
-          });
-
-          const data = await res.json();
+          const data = await callApi(userStatusContract, { uid: currentUser.uid, idToken });
           if (data.status === true) {
             const actualStatus = data.actualStatus?.toLowerCase();
             const isPaid = data.isPaid === true;
@@ -229,6 +231,11 @@ export function RegistrationSection() {
               return;
             }
 
+            // The edit window closes at the deadline or once a reviewer decides
+            if (!data.canEdit) {
+              setCurrentUser((prev: any) => prev && prev.canEdit ? { ...prev, canEdit: false } : prev);
+            }
+
             // Handle transition from pending to approved/rejected for all tracks
             if (status === "pending") {
               if (actualStatus === "accepted") {
@@ -267,19 +274,7 @@ export function RegistrationSection() {
       const idToken = await auth.currentUser?.getIdToken();
       if (!idToken) throw new Error("Authentication token missing");
 
-      const res = await fetch("/api/user/update-domain", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          idToken,
-          domain: selectedDomain
-        }),
-      });
-
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || "Failed to update domain");
-      }
+      await callApi(updateDomainContract, { idToken, domain: selectedDomain });
 
       // Success! Move to final phase after a short delay for visual confirmation
       setTimeout(() => {
@@ -314,7 +309,6 @@ export function RegistrationSection() {
   const [domainLoading, setDomainLoading] = useState(false);
   const [domainResults, setDomainResults] = useState<SubmissionResult[]>([]);
   const [domainError, setDomainError] = useState<string | null>(null);
-  const [debugInfo, setDebugInfo] = useState<any>(null);
 
   // Fetch data when switching to domain_ai view
   useEffect(() => {
@@ -323,61 +317,37 @@ export function RegistrationSection() {
     }
   }, [status]);
 
-  // Fetch data with LocalStorage caching
-  const fetchDomainRecommendations = async (background = false) => {
-    if (!background) setDomainLoading(true);
+  // Recommendations are stored on each application, so this is a plain read
+  const fetchDomainRecommendations = async () => {
+    setDomainLoading(true);
     setDomainError(null);
 
-    // 1. Try to load from LocalStorage first (instant result)
-    if (!background) {
-      try {
-        const cached = localStorage.getItem("medhack_domain_data");
-        if (cached) {
-          const { data, timestamp } = JSON.parse(cached);
-          // If valid data exists, show it immediately
-          if (data && Array.isArray(data.submissions)) {
-            setDomainResults(data.submissions);
-            setDomainLoading(false); // Stop loading spinner if we have data
-            console.log("Loaded from LocalStorage cache");
-          }
-        }
-      } catch (e) {
-        console.warn("Failed to load from cache", e);
-      }
-    }
-
-    // 2. Fresh data from API
+    // Paginated, so follow the cursor to the last page
     try {
-      const res = await fetch("/api/domain-suggest");
-      if (!res.ok) {
-        const err = await res.json();
-        throw new Error(err.error || "Failed to fetch");
-      }
-      const data = await res.json();
-
-      // Update UI with fresh data
-      setDomainResults(data.submissions || []);
-
-      // Update LocalStorage
-      localStorage.setItem("medhack_domain_data", JSON.stringify({
-        data,
-        timestamp: Date.now()
-      }));
+      const submissions: SubmissionResult[] = [];
+      let cursor: string | null = null;
+      do {
+        const params = new URLSearchParams({ limit: "200" });
+        if (cursor) params.set("cursor", cursor);
+
+        const res = await fetch(`/api/domain-suggest?${params}`);
+        if (!res.ok) {
+          const err = await res.json();
+          throw new Error(err.error || "Failed to fetch");
+        }
+        const page = await res.json();
+        submissions.push(...(page.submissions || []));
+        cursor = page.nextCursor ?? null;
+      } while (cursor);
 
+      setDomainResults(submissions);
     } catch (err) {
-      // Only show error if we have NO data at all
-      if (domainResults.length === 0) {
-        setDomainError(err instanceof Error ? err.message : "Failed to load");
-      } else {
-        console.error("Background refresh failed:", err);
-      }
+      setDomainError(err instanceof Error ? err.message : "Failed to load");
     } finally {
       setDomainLoading(false);
     }
   };
 
-
-
   const getDomainColor = (domain: string) => {
     switch (domain) {
       case "A": return { bg: "#e9456015", border: "#e94560", text: "#e94560", gradient: "from-red-500 to-pink-600" };
@@ -572,7 +542,7 @@ export function RegistrationSection() {
             {domainLoading && (
               <div className="text-center py-20">
                 <div className="animate-spin w-12 h-12 border-3 border-purple-500 border-t-transparent rounded-full mx-auto mb-6" />
-                <p className="text-zinc-400 text-lg">Analyzing submissions with AI...</p>
+                <p className="text-zinc-400 text-lg">Loading recommendations...</p>
               </div>
             )}
 
@@ -582,7 +552,7 @@ export function RegistrationSection() {
                 <span className="text-4xl mb-4 block">⚠️</span>
                 <p className="text-red-400 text-lg">{domainError}</p>
                 <button
-                  onClick={() => fetchDomainRecommendations(false)}
+                  onClick={() => fetchDomainRecommendations()}
                   className="mt-4 px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700"
                 >
                   Retry
@@ -602,13 +572,13 @@ export function RegistrationSection() {
             {/* Results Grid */}
             {!domainLoading && !domainError && domainResults.filter(r => r.recommendation).length > 0 && (
               <div className="space-y-4">
-                {domainResults.filter(r => r.recommendation).map((result, idx) => {
+                {domainResults.filter(r => r.recommendation).map((result) => {
                   const rec = result.recommendation!;
                   const colors = getDomainColor(rec.recommended.domain);
 
                   return (
                     <div
-                      key={idx}
+                      key={result.uid}
                       className="bg-zinc-900 rounded-2xl overflow-hidden border border-zinc-800 hover:border-zinc-700 transition-colors"
                     >
                       {/* Card Header with gradient */}
@@ -639,6 +609,7 @@ export function RegistrationSection() {
                           >
                             <div className="text-2xl">Domain {rec.recommended.domain}</div>
                             <div className="text-sm opacity-80">{rec.recommended.percentage}% Match</div>
+                            {result.stale && <div className="text-xs opacity-80">Outdated algorithm version</div>}
                           </div>
                         </div>
                       </div>
@@ -726,7 +697,7 @@ export function RegistrationSection() {
             {/* Refresh Button */}
             <div className="mt-8 text-center">
               <button
-                onClick={() => fetchDomainRecommendations(false)}
+                onClick={() => fetchDomainRecommendations()}
                 disabled={domainLoading}
                 className="px-6 py-3 bg-zinc-800 text-white rounded-lg font-medium hover:bg-zinc-700 transition-colors disabled:opacity-50"
               >
@@ -870,8 +841,22 @@ export function RegistrationSection() {
           </div>
         )}
 
+        {/* 2a. EDIT VIEW: Reopened application (pending applicants, until the edit deadline) */}
+        {status === "pending" && isEditingApplication && (
+          <div className="mx-auto max-w-4xl animate-in fade-in duration-500">
+            <CustomApplicationForm
+              editing
+              onCancelEdit={() => setIsEditingApplication(false)}
+              onSubmitSuccess={() => {
+                setIsEditingApplication(false);
+                checkUserStatus(auth.currentUser || currentUser);
+              }}
+            />
+          </div>
+        )}
+
         {/* 2. PENDING VIEW: Status Dashboard */}
-        {status === "pending" && (
+        {status === "pending" && !isEditingApplication && (
           <div className="mx-auto max-w-2xl text-center py-16 animate-in zoom-in-95 duration-500">
             <div className="mb-6 flex justify-center">
               <div className="h-20 w-20 rounded-full bg-yellow-100 dark:bg-yellow-900/30 flex items-center justify-center">
@@ -900,6 +885,23 @@ export function RegistrationSection() {
                   <p suppressHydrationWarning><strong>Applied:</strong> {new Date().toLocaleDateString()}</p>
                 </div>
 
+                {currentUser.canEdit && (
+                  <div>
+                    <Button
+                      variant="outline"
+                      onClick={() => setIsEditingApplication(true)}
+                      className="rounded-full border-[#007b8a]/40 text-[#007b8a] hover:bg-[#007b8a]/10"
+                    >
+                      Edit Application
+                    </Button>
+                    {currentUser.editableUntil && (
+                      <p suppressHydrationWarning className="mt-2 text-xs text-zinc-400 dark:text-zinc-500">
+                        You can edit your answers until {new Date(currentUser.editableUntil).toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div className="text-xs text-zinc-400 dark:text-zinc-500">
                   <p>This page automatically refreshes every 10 seconds to check for status updates.</p>
                 </div>
@@ -1184,6 +1186,8 @@ export function RegistrationSection() {
                 Choose the domain that best fits your project. You can always refine this choice later with your team.
               </p>
 
+              <TeamCard />
+
 
               {/* Domain Grid: Reworked for Premium Feel */}
               {!isDomainConfirmed ? (
@@ -1243,7 +1247,7 @@ export function RegistrationSection() {
                   ].map((domain) => (
                     <div
                       key={domain.id}
-                      onClick={() => setSelectedDomain(domain.id)}
+                      onClick={() => setSelectedDomain(domain.id as DomainId)}
                       className={`group relative p-8 rounded-3xl border transition-all duration-500 cursor-pointer ${selectedDomain === domain.id
                         ? "bg-zinc-50 dark:bg-[#007b8a]/5 border-[#007b8a] shadow-[0_0_40px_rgba(0,123,138,0.15)] ring-1 ring-[#007b8a]/20"
                         : "bg-white dark:bg-black border-zinc-200 dark:border-zinc-800 hover:border-[#007b8a]/40"
@@ -1450,6 +1454,8 @@ export function RegistrationSection() {
                 <CountdownTimer targetDate="2026-03-28T00:00:00" />
               </div>
 
+              <TeamCard />
+
               {/* Mission Briefing Section (Reworked from "Words of Encouragement") */}
               <div className="mt-20 max-w-2xl mx-auto">
                 <div className="relative p-1 bg-gradient-to-b from-[#007b8a]/20 to-transparent rounded-3xl">
@@ -1552,3 +1558,45 @@ function CountdownTimer({ targetDate }: { targetDate: string }) {
     </div>
   );
 }
+
+// The competitor's team, once an admin has published teams
+function TeamCard() {
+  const { user } = useAuth();
+  const [team, setTeam] = useState<ContractResponse<typeof userTeamContract>["team"]>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const result = await callApi(userTeamContract, { idToken: await user.getIdToken() });
+        if (!cancelled) setTeam(result.team);
+      } catch (error) {
+        console.error("Failed to load team:", error);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [user]);
+
+  if (!team) return null;
+
+  return (
+    <div className="max-w-2xl mx-auto mb-12 text-left bg-zinc-50 dark:bg-zinc-900 rounded-3xl border-2 border-zinc-200 dark:border-zinc-800 p-6 sm:p-8">
+      <span className="text-[10px] font-black uppercase tracking-widest text-zinc-400">Your Team · Domain {team.domain}</span>
+      <h3 className="text-2xl font-bold text-zinc-900 dark:text-white mt-1 mb-4">{team.name}</h3>
+      <ul className="space-y-3">
+        {team.members.map((member, idx) => (
+          <li key={idx} className="flex items-baseline justify-between gap-4 border-b border-zinc-200 dark:border-zinc-800 pb-2">
+            <span className="font-medium text-zinc-900 dark:text-white">
+              {member.name}{member.isYou && <span className="text-[#007b8a]"> (you)</span>}
+            </span>
+            <span className="text-sm text-zinc-500 text-right">
+              {member.track === "medicine" ? "Clinician" : member.persona || "Engineer"} · {member.major} · {member.university}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ export interface AdminUser {
     uid: string;
     email: string;
     admin: boolean;
+    // Review chair: sees applicant identities under blind review (lib/blindReview.ts)
+    chair: boolean;
 }
 
 /**
@@ -38,6 +40,7 @@ export async function verifyAdminSession(): Promise<AdminUser> {
             uid: decodedClaims.uid,
             email: decodedClaims.email || "",
             admin: decodedClaims.admin,
+            chair: decodedClaims.chair === true,
         };
     } catch (error: any) {
         // Re-throw with context
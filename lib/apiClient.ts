@@ -0,0 +1,47 @@
+import {
+    ApiErrorBody,
+    type ApiContract,
+    type ContractRequest,
+    type ContractResponse,
+} from "@/lib/apiContracts";
+
+/**
+ * Typed client for contract routes (see lib/apiContracts.ts).
+ * Non-2xx responses throw an ApiError carrying the HTTP status.
+ */
+
+export class ApiError extends Error {
+    status: number;
+    code?: string;
+    issues?: ApiErrorBody["issues"];
+
+    constructor(status: number, body: Partial<ApiErrorBody>) {
+        super(body.error || `Request failed with status ${status}`);
+        this.name = "ApiError";
+        this.status = status;
+        this.code = body.code;
+        this.issues = body.issues;
+    }
+}
+
+export async function callApi<C extends ApiContract>(
+    contract: C,
+    input: ContractRequest<C>,
+    init: Pick<RequestInit, "credentials" | "signal"> = {}
+): Promise<ContractResponse<C>> {
+    const res = await fetch(contract.path, {
+        method: contract.method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+        ...init,
+    });
+
+    const data = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+        const parsed = ApiErrorBody.safeParse(data);
+        throw new ApiError(res.status, parsed.success ? parsed.data : {});
+    }
+
+    return contract.response.parse(data) as ContractResponse<C>;
+}
@@ -0,0 +1,456 @@
+import { z } from "zod";
+import { ScoringModelBody } from "@/lib/scoringModel";
+import type { DomainRecommendation } from "@/lib/domainAlgorithm";
+
+/**
+ * API contracts
+ *
+ * Request and response schemas for the JSON API routes. Routes parse their
+ * input through withContract() (lib/apiRoute.ts) and clients call them through
+ * callApi() (lib/apiClient.ts), so both sides share one definition and a
+ * contract change breaks the build instead of production.
+ */
+
+// ============================================================================
+// SHARED
+// ============================================================================
+
+export interface ApiContract<Req extends z.ZodType = z.ZodType, Res extends z.ZodType = z.ZodType> {
+    path: string;
+    method: "POST";
+    request: Req;
+    response: Res;
+}
+
+export type ContractRequest<C extends ApiContract> = z.input<C["request"]>;
+export type ContractResponse<C extends ApiContract> = z.output<C["response"]>;
+
+// Body of every non-2xx response
+export const ApiErrorBody = z.object({
+    error: z.string(),
+    code: z.string().optional(),
+    issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+export type ApiErrorBody = z.infer<typeof ApiErrorBody>;
+
+export const APPLICATION_STATUSES = ["Accepted", "Rejected", "pending"] as const;
+export const ApplicationStatus = z.enum(APPLICATION_STATUSES);
+export type ApplicationStatus = z.infer<typeof ApplicationStatus>;
+
+export const DomainId = z.enum(["A", "B", "C"]);
+export type DomainId = z.infer<typeof DomainId>;
+
+// An engineer's answers as the domain algorithm reads them (see EngineerResponses)
+const OptionList = z.array(z.string().max(500)).max(100).optional();
+const AnswerText = z.string().max(10_000).optional();
+
+export const EngineerResponsesBody = z.object({
+    skillsGroupA: OptionList,
+    skillsGroupB: OptionList,
+    skillsGroupC: OptionList,
+    skillsGlobal: OptionList,
+    workStylePersona: AnswerText,
+    handsOnProject: AnswerText,
+    professionalExp: AnswerText,
+    scenarioResponse: AnswerText,
+});
+
+const FormTypeParam = z.enum(["competitor", "attendee"]);
+
+const nonEmpty = (label: string) => z.string().trim().min(1, `${label} is required`);
+
+// ============================================================================
+// APPLICANT ROUTES
+// ============================================================================
+
+export const userStatusContract = {
+    path: "/api/user-status",
+    method: "POST",
+    request: z.object({
+        uid: nonEmpty("uid"),
+        idToken: nonEmpty("idToken"),
+    }),
+    response: z.union([
+        z.object({
+            status: z.literal(true),
+            type: z.enum(["attendee", "competitor"]),
+            actualStatus: z.string(),
+            isPaid: z.boolean(),
+            major: z.string(),
+            // Applicants can reopen their application until the edit deadline
+            canEdit: z.boolean(),
+            editableUntil: z.string().nullable(),
+        }),
+        z.object({ status: z.literal(false) }),
+    ]),
+} satisfies ApiContract;
+
+export const applicationContract = {
+    path: "/api/application",
+    method: "POST",
+    request: z.object({
+        idToken: nonEmpty("idToken"),
+    }),
+    response: z.object({
+        application: z
+            .object({
+                type: FormTypeParam,
+                fields: z.record(z.string(), z.unknown()),
+                revision: z.number(),
+                canEdit: z.boolean(),
+                editableUntil: z.string().nullable(),
+            })
+            .nullable(),
+    }),
+} satisfies ApiContract;
+
+export const updateDomainContract = {
+    path: "/api/user/update-domain",
+    method: "POST",
+    request: z.object({
+        idToken: nonEmpty("idToken"),
+        domain: DomainId,
+    }),
+    response: z.object({
+        success: z.literal(true),
+        message: z.string(),
+    }),
+} satisfies ApiContract;
+
+// A competitor's published team, as their teammates see it (no contact details)
+export const userTeamContract = {
+    path: "/api/user/team",
+    method: "POST",
+    request: z.object({
+        idToken: nonEmpty("idToken"),
+    }),
+    response: z.object({
+        team: z
+            .object({
+                name: z.string(),
+                domain: DomainId,
+                members: z.array(
+                    z.object({
+                        name: z.string(),
+                        track: z.enum(["engineering", "medicine"]),
+                        university: z.string(),
+                        major: z.string(),
+                        persona: z.string().nullable(),
+                        isYou: z.boolean(),
+                    })
+                ),
+            })
+            .nullable(),
+    }),
+} satisfies ApiContract;
+
+export const paymentLinkContract = {
+    path: "/api/payment/generate",
+    method: "POST",
+    request: z.object({
+        uid: nonEmpty("uid"),
+    }),
+    response: z.object({
+        url: z.string().url(),
+    }),
+} satisfies ApiContract;
+
+// Form answers are checked against the form schema by validateFormSubmission()
+export const submitApplicationContract = {
+    path: "/api/forms/submit",
+    method: "POST",
+    request: z.object({
+        type: FormTypeParam.default("competitor"),
+        idToken: nonEmpty("idToken"),
+        responses: z.record(z.string(), z.unknown()),
+        // Revise an existing application within its edit window
+        edit: z.boolean().optional(),
+    }),
+    response: z.object({
+        success: z.literal(true),
+        message: z.string(),
+        replayed: z.boolean().optional(),
+    }),
+} satisfies ApiContract;
+
+// Drafts are stored as the form state (question id -> answer) and must fit
+// comfortably inside a Firestore document
+const MAX_DRAFT_BYTES = 200_000;
+
+const DraftResponses = z
+    .record(z.string(), z.unknown())
+    .refine(responses => JSON.stringify(responses).length <= MAX_DRAFT_BYTES, "Draft is too large");
+
+export const saveDraftContract = {
+    path: "/api/drafts",
+    method: "POST",
+    request: z.object({
+        idToken: nonEmpty("idToken"),
+        type: FormTypeParam,
+        responses: DraftResponses,
+    }),
+    response: z.object({
+        success: z.literal(true),
+        savedAt: z.string(),
+    }),
+} satisfies ApiContract;
+
+export const resumeDraftContract = {
+    path: "/api/drafts/resume",
+    method: "POST",
+    request: z.object({
+        idToken: nonEmpty("idToken"),
+        type: FormTypeParam,
+    }),
+    response: z.object({
+        draft: z
+            .object({
+                type: FormTypeParam,
+                responses: z.record(z.string(), z.unknown()),
+                savedAt: z.string(),
+            })
+            .nullable(),
+    }),
+} satisfies ApiContract;
+
+// ============================================================================
+// ADMIN ROUTES
+// ============================================================================
+
+export const adminLoginContract = {
+    path: "/api/login-admin",
+    method: "POST",
+    request: z.object({
+        idToken: nonEmpty("idToken"),
+    }),
+    response: z.object({
+        success: z.literal(true),
+    }),
+} satisfies ApiContract;
+
+export const updateStatusContract = {
+    path: "/api/admin/update-status",
+    method: "POST",
+    request: z.object({
+        competitorId: nonEmpty("competitorId"),
+        status: ApplicationStatus,
+    }),
+    response: z.object({
+        success: z.literal(true),
+        status: ApplicationStatus,
+        oldStatus: z.string(),
+        changedBy: z.string(),
+    }),
+} satisfies ApiContract;
+
+export const submitReviewContract = {
+    path: "/api/admin/reviews",
+    method: "POST",
+    request: z.object({
+        competitorId: nonEmpty("competitorId"),
+        // Criterion id -> 1..5, checked against the track's rubric (lib/reviewRubric.ts)
+        scores: z.record(z.string(), z.number().int().min(1).max(5)),
+        comment: z.string().trim().max(4000).default(""),
+    }),
+    response: z.object({
+        success: z.literal(true),
+        summary: z.object({
+            count: z.number(),
+            average: z.number().nullable(),
+            criteria: z.record(z.string(), z.number()),
+            disagreement: z.number(),
+            updatedAt: z.string(),
+        }),
+    }),
+} satisfies ApiContract;
+
+// Two writes per competitor (update + audit entry) within Firestore's 500-write batch limit
+export const MAX_BULK_STATUS_UPDATES = 250;
+
+// Accept, reject or reset (to pending) many competitors in one batch
+export const bulkUpdateStatusContract = {
+    path: "/api/admin/update-status/bulk",
+    method: "POST",
+    request: z.object({
+        competitorIds: z.array(z.string().trim().min(1)).min(1, "Select at least one competitor").max(MAX_BULK_STATUS_UPDATES),
+        status: ApplicationStatus,
+    }),
+    response: z.object({
+        success: z.literal(true),
+        status: ApplicationStatus,
+        bulkId: z.string(),
+        updated: z.number(),
+        results: z.array(
+            z.object({
+                competitorId: z.string(),
+                result: z.enum(["updated", "unchanged", "not_found", "needs_reviews"]),
+                oldStatus: z.string().nullable(),
+            })
+        ),
+    }),
+} satisfies ApiContract;
+
+export const deleteEntryContract = {
+    path: "/api/admin/delete-entry",
+    method: "POST",
+    request: z.object({
+        uid: nonEmpty("uid"),
+    }),
+    response: z.object({
+        success: z.literal(true),
+        message: z.string(),
+        deletedFrom: z.string(),
+        deletedBy: z.string(),
+    }),
+} satisfies ApiContract;
+
+export const drainOutboxContract = {
+    path: "/api/admin/outbox",
+    method: "POST",
+    request: z.object({
+        // Requeue one dead entry before draining
+        entryId: z.string().trim().min(1).optional(),
+    }),
+    response: z.object({
+        success: z.literal(true),
+        requeued: z.boolean(),
+        processed: z.number(),
+        delivered: z.number(),
+        retrying: z.number(),
+        dead: z.number(),
+    }),
+} satisfies ApiContract;
+
+export const recomputeDomainsContract = {
+    path: "/api/admin/domain-recommendations",
+    method: "POST",
+    request: z.object({
+        // Recompute every recommendation, not only missing or outdated ones
+        force: z.boolean().optional(),
+    }),
+    response: z.object({
+        success: z.literal(true),
+        algorithmVersion: z.number(),
+        modelVersion: z.number(),
+        scanned: z.number(),
+        updated: z.number(),
+    }),
+} satisfies ApiContract;
+
+// Score one set of answers with the published scoring model
+export const domainSuggestContract = {
+    path: "/api/domain-suggest",
+    method: "POST",
+    request: z.object({
+        responses: EngineerResponsesBody,
+    }),
+    response: z.object({
+        success: z.literal(true),
+        recommendation: z.custom<DomainRecommendation>(),
+    }),
+} satisfies ApiContract;
+
+export const publishScoringModelContract = {
+    path: "/api/admin/scoring-model",
+    method: "POST",
+    request: z.object({
+        model: ScoringModelBody,
+    }),
+    response: z.object({
+        success: z.literal(true),
+        version: z.number(),
+    }),
+} satisfies ApiContract;
+
+// How many competitors each domain takes
+const DomainCapacities = z.object({
+    A: z.number().int().min(0).max(10_000),
+    B: z.number().int().min(0).max(10_000),
+    C: z.number().int().min(0).max(10_000),
+});
+
+const DomainAssignments = z.record(z.string().min(1), DomainId);
+
+export const proposeDomainAssignmentContract = {
+    path: "/api/admin/domain-assignment",
+    method: "POST",
+    request: z.object({
+        capacities: DomainCapacities,
+        // uid -> domain the competitor must keep
+        locks: DomainAssignments.optional(),
+        // Lock competitors who already have a domain to it
+        keepExisting: z.boolean().optional(),
+    }),
+    response: z.object({
+        rows: z.array(
+            z.object({
+                uid: z.string(),
+                name: z.string(),
+                email: z.string(),
+                currentDomain: DomainId.nullable(),
+                recommended: DomainId,
+                fit: z.object({ A: z.number(), B: z.number(), C: z.number() }),
+                domain: DomainId.nullable(),
+                locked: z.boolean(),
+            })
+        ),
+        counts: z.object({ A: z.number(), B: z.number(), C: z.number() }),
+        totalFit: z.number(),
+        missingRecommendation: z.array(z.object({ uid: z.string(), name: z.string(), email: z.string() })),
+    }),
+} satisfies ApiContract;
+
+export const commitDomainAssignmentContract = {
+    path: "/api/admin/domain-assignment/commit",
+    method: "POST",
+    request: z.object({
+        capacities: DomainCapacities,
+        assignments: DomainAssignments.refine(assignments => Object.keys(assignments).length > 0, "No assignments to commit"),
+    }),
+    response: z.object({
+        success: z.literal(true),
+        assignmentId: z.string(),
+        updated: z.number(),
+        unchanged: z.number(),
+    }),
+} satisfies ApiContract;
+
+export const buildTeamsContract = {
+    path: "/api/admin/teams/build",
+    method: "POST",
+    request: z.object({
+        teamSize: z.number().int().min(2).max(10),
+        // Competitor emails that must end up in the same team
+        pinnedPairs: z.array(z.tuple([z.string().trim().email(), z.string().trim().email()])).max(200).default([]),
+    }),
+    response: z.object({
+        success: z.literal(true),
+        teams: z.number(),
+        members: z.number(),
+    }),
+} satisfies ApiContract;
+
+export const swapTeamMembersContract = {
+    path: "/api/admin/teams/swap",
+    method: "POST",
+    request: z.object({
+        uidA: nonEmpty("uidA"),
+        uidB: nonEmpty("uidB"),
+    }),
+    response: z.object({
+        success: z.literal(true),
+    }),
+} satisfies ApiContract;
+
+export const publishTeamsContract = {
+    path: "/api/admin/teams/publish",
+    method: "POST",
+    request: z.object({
+        published: z.boolean(),
+    }),
+    response: z.object({
+        success: z.literal(true),
+        published: z.boolean(),
+        teams: z.number(),
+    }),
+} satisfies ApiContract;
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiContract, ApiErrorBody, ContractResponse } from "@/lib/apiContracts";
+import type { z } from "zod";
+
+/**
+ * Route handler wrapper for API contracts.
+ *
+ * Parses the JSON body against the contract's request schema and answers
+ * malformed input with a uniform 400 before the handler runs:
+ *
+ *   { error: "Invalid request", code: "INVALID_REQUEST", issues: [{ path, message }] }
+ *
+ * The handler receives the parsed input and a typed `ok()` that only accepts
+ * the contract's response shape. Errors are still plain NextResponse.json calls.
+ */
+
+type ContractHandler<C extends ApiContract> = (
+    input: z.output<C["request"]>,
+    context: {
+        req: NextRequest;
+        ok: (body: ContractResponse<C>, init?: ResponseInit) => NextResponse;
+    }
+) => Promise<NextResponse>;
+
+export function apiError(error: string, status: number, extra: Omit<ApiErrorBody, "error"> = {}) {
+    return NextResponse.json<ApiErrorBody>({ error, ...extra }, { status });
+}
+
+/**
+ * Parse a request body against a contract. Routes that must authenticate
+ * before looking at the body (admin routes) call this directly.
+ */
+export async function parseRequest<C extends ApiContract>(
+    contract: C,
+    req: NextRequest
+): Promise<{ success: true; data: z.output<C["request"]> } | { success: false; response: NextResponse }> {
+    let body: unknown;
+    try {
+        body = await req.json();
+    } catch {
+        return { success: false, response: apiError("Invalid request body", 400, { code: "INVALID_JSON" }) };
+    }
+
+    const parsed = contract.request.safeParse(body);
+    if (!parsed.success) {
+        return {
+            success: false,
+            response: apiError("Invalid request", 400, {
+                code: "INVALID_REQUEST",
+                issues: parsed.error.issues.map(issue => ({
+                    path: issue.path.join("."),
+                    message: issue.message,
+                })),
+            }),
+        };
+    }
+
+    return { success: true, data: parsed.data as z.output<C["request"]> };
+}
+
+export function withContract<C extends ApiContract>(contract: C, handler: ContractHandler<C>) {
+    return async (req: NextRequest): Promise<NextResponse> => {
+        const parsed = await parseRequest(contract, req);
+        if (!parsed.success) return parsed.response;
+
+        return handler(parsed.data, {
+            req,
+            ok: (body, init) => NextResponse.json(body, init),
+        });
+    };
+}
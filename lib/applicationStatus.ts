@@ -0,0 +1,74 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import type { ApplicationStatus } from "@/lib/apiContracts";
+import { hasRequiredReviews } from "@/lib/reviews";
+
+/**
+ * Bulk review decisions on competitor applications.
+ *
+ * Every change is written in one Firestore batch with one admin_audit_logs
+ * entry per competitor (action "update_status", like the single-competitor
+ * route, plus a shared bulkId), so either the whole selection changes or
+ * none of it. The contract caps a request at MAX_BULK_STATUS_UPDATES.
+ * Competitors without enough reviews (lib/reviews.ts) are skipped for
+ * Accepted/Rejected and reported as "needs_reviews".
+ */
+
+const COMPETITORS_COLLECTION = "competitors";
+const AUDIT_COLLECTION = "admin_audit_logs";
+
+export interface BulkStatusItem {
+    competitorId: string;
+    result: "updated" | "unchanged" | "not_found" | "needs_reviews";
+    oldStatus: string | null;
+}
+
+export async function bulkUpdateStatus(
+    competitorIds: string[],
+    status: ApplicationStatus,
+    adminUser: { uid: string; email: string },
+    metadata: Record<string, string>
+): Promise<{ bulkId: string; items: BulkStatusItem[] }> {
+    const ids = [...new Set(competitorIds)];
+    const docs = await adminDb.getAll(...ids.map(id => adminDb.collection(COMPETITORS_COLLECTION).doc(id)));
+
+    const bulkId = adminDb.collection(AUDIT_COLLECTION).doc().id;
+    const now = new Date().toISOString();
+    const batch = adminDb.batch();
+
+    const items = docs.map((doc): BulkStatusItem => {
+        if (!doc.exists) return { competitorId: doc.id, result: "not_found", oldStatus: null };
+
+        const oldStatus: string = doc.data()!.status || "pending";
+        if (oldStatus === status) return { competitorId: doc.id, result: "unchanged", oldStatus };
+        if (status !== "pending" && !hasRequiredReviews(doc.data()!)) {
+            return { competitorId: doc.id, result: "needs_reviews", oldStatus };
+        }
+
+        batch.update(doc.ref, {
+            status,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            lastStatusChangeBy: adminUser.email,
+            lastStatusChangeAt: now,
+        });
+        batch.create(adminDb.collection(AUDIT_COLLECTION).doc(), {
+            action: "update_status",
+            adminUid: adminUser.uid,
+            adminEmail: adminUser.email,
+            targetCollection: COMPETITORS_COLLECTION,
+            targetUid: doc.id,
+            oldStatus,
+            newStatus: status,
+            bulkId,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+            timestampISO: now,
+            metadata,
+        });
+        return { competitorId: doc.id, result: "updated", oldStatus };
+    });
+
+    if (items.some(item => item.result === "updated")) await batch.commit();
+
+    return { bulkId, items };
+}
@@ -0,0 +1,104 @@
+import { getFieldRules } from "./formFields";
+import { countWords } from "./formValidation";
+import { isConditionMet } from "./formVisibility";
+import type { FormDefinition, FormDefinitionQuestion } from "./formDefinition";
+
+/**
+ * Competitor application laid out for the admin detail page
+ *
+ * Answers are grouped into the sections of the competitor form definition
+ * (lib/formDefinitions/competitor.json, whose titled sections are the ones
+ * CustomApplicationForm adds to Google Forms as FRONTEND_SECTIONS) and shown
+ * under the question that asked them. Sections and questions hidden for the
+ * applicant's major are left out. Everything else on the document (status,
+ * payment, timestamps...) is listed separately as the application record.
+ */
+
+export interface AnswerView {
+    field: string;
+    question: string;
+    description?: string;
+    type: FormDefinitionQuestion["type"];
+    value: unknown;
+    // Long answers only
+    words: number | null;
+    wordLimit?: number;
+    isLink: boolean;
+}
+
+export interface SectionView {
+    id: string;
+    title: string;
+    answers: AnswerView[];
+}
+
+export interface ApplicationView {
+    sections: SectionView[];
+    record: [string, unknown][];
+}
+
+// Sections the form shows without a header
+const UNTITLED_SECTIONS: Record<string, string> = {
+    personal: "Personal Details",
+    engineering_background: "Background",
+    healthcare_background: "Background",
+};
+
+// Stored copies and data with their own panels on the page
+const RECORD_EXCLUDED_FIELDS = [
+    "id",
+    "domainRecommendation",
+    "reviewSummary",
+    "fullNameLower",
+    "universityLower",
+    "majorTypeLower",
+];
+
+function toAnswer(question: FormDefinitionQuestion, value: unknown): AnswerView {
+    const rules = getFieldRules("competitor", question.field);
+    return {
+        field: question.field,
+        question: question.label,
+        description: question.description,
+        type: question.type,
+        value,
+        words: question.type === "paragraph" && typeof value === "string" ? countWords(value) : null,
+        wordLimit: question.wordLimit ?? rules?.wordLimit,
+        isLink: rules?.pattern === "url",
+    };
+}
+
+/**
+ * Lay out a competitor document. `hiddenFields` are left out entirely, both
+ * from the sections and from the record (blind review).
+ */
+export function buildApplicationView(
+    definition: FormDefinition,
+    data: Record<string, unknown>,
+    hiddenFields: readonly string[] = []
+): ApplicationView {
+    const asked = new Set<string>();
+    const sections: SectionView[] = [];
+
+    for (const section of definition.sections) {
+        if (!isConditionMet(section.visibleWhen, data)) continue;
+
+        const answers = section.questions
+            .filter(question => isConditionMet(question.visibleWhen, data))
+            .filter(question => {
+                asked.add(question.field);
+                return !hiddenFields.includes(question.field);
+            })
+            .map(question => toAnswer(question, data[question.field]));
+
+        if (answers.length > 0) {
+            sections.push({ id: section.id, title: section.title ?? UNTITLED_SECTIONS[section.id] ?? "Details", answers });
+        }
+    }
+
+    const record = Object.entries(data)
+        .filter(([key]) => !asked.has(key) && !hiddenFields.includes(key) && !RECORD_EXCLUDED_FIELDS.includes(key))
+        .sort(([a], [b]) => a.localeCompare(b));
+
+    return { sections, record };
+}
@@ -0,0 +1,255 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import {
+    extractFields,
+    getFieldSpecs,
+    resolveFieldSet,
+    FORM_TYPE_FIELD_SETS,
+    type FieldSet,
+    type FormType,
+    type ResponseKeyStyle,
+} from "@/lib/formFields";
+import { buildDomainRecommendation } from "@/lib/domainRecommendations";
+import { getSearchFields } from "@/lib/competitorQuery";
+import { loadScoringModel } from "@/lib/scoringModelStore";
+import { enqueueSubmission } from "@/lib/outbox";
+
+/**
+ * Submitted applications and applicant edits.
+ *
+ * competitors/{uid} | attendees/{uid}     -> the current application
+ * .../{uid}/revisions/{revision}          -> the answers each edit replaced
+ *
+ * Applicants may edit their own application until APPLICATION_EDIT_DEADLINE
+ * (an ISO date) as long as it has not been reviewed yet. Without the variable
+ * applications cannot be edited.
+ */
+
+const REVISIONS_COLLECTION = "revisions";
+
+export interface ApplicationRevision {
+    revision: number;
+    fields: Record<string, unknown>;
+    changedFields: string[];
+    editedBy: string;
+    replacedAt: string;
+}
+
+export type ApplicationEditResult =
+    | { ok: true; revision: number; changedFields: string[]; outboxIds: string[] }
+    | { ok: false; reason: "not_found" | "closed" };
+
+export function getApplicationCollection(type: FormType): "attendees" | "competitors" {
+    return type === "attendee" ? "attendees" : "competitors";
+}
+
+// ============================================================================
+// EDIT WINDOW
+// ============================================================================
+
+export function getEditDeadline(): Date | null {
+    const raw = process.env.APPLICATION_EDIT_DEADLINE;
+    if (!raw) return null;
+
+    const deadline = new Date(raw);
+    return isNaN(deadline.getTime()) ? null : deadline;
+}
+
+/**
+ * Whether an application document can still be edited by its applicant.
+ * Once a reviewer has scored or decided, the answers they saw are frozen.
+ */
+export function canEditApplication(data: Record<string, unknown>, now: Date = new Date()): boolean {
+    const deadline = getEditDeadline();
+    if (!deadline || now > deadline) return false;
+
+    const reviewCount = (data.reviewSummary as { count?: number } | undefined)?.count ?? 0;
+    return (data.status || "pending") === "pending" && reviewCount === 0;
+}
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+/**
+ * The answers stored on an application document, as written by the submit route
+ */
+export function buildApplicationFields(
+    fieldSet: FieldSet,
+    responses: Record<string, unknown>,
+    email: string,
+    keyedBy: ResponseKeyStyle
+): Record<string, unknown> {
+    if (fieldSet === "attendee") {
+        const fields = extractFields("attendee", responses, keyedBy);
+        return {
+            fullName: fields.fullName || "",
+            email: fields.email || email,
+            contactNo: fields.contactNo || "",
+            nationality: fields.nationality || "",
+            emiratesID: fields.emiratesID || "",
+            major: fields.major || "",
+        };
+    }
+
+    if (fieldSet === "engineering") {
+        const fields = extractFields("engineering", responses, keyedBy);
+        return {
+            fullName: fields.fullName || "",
+            university: fields.university || "",
+            universityEmail: fields.universityEmail || "",
+            email,
+            contactNo: fields.contactNo || "",
+            nationality: fields.nationality || "",
+            emiratesID: fields.emiratesID || "",
+            major: fields.major || "",
+            majorType: fields.majorType || "",
+            year: fields.year || "",
+            linkedIn: fields.linkedIn || "",
+            googleDrive: fields.googleDrive || "",
+            group1: fields.group1 || [],
+            group2: fields.group2 || [],
+            group3: fields.group3 || [],
+            group4: fields.group4 || [],
+            workStyle: fields.workStyle || "",
+            projects: fields.projects || "",
+            experience: fields.experience || "",
+            challengeAnswer: fields.challengeAnswer || "",
+        };
+    }
+
+    const fields = extractFields("medicine", responses, keyedBy);
+    return {
+        fullName: fields.fullName || "",
+        university: fields.university || "",
+        universityEmail: fields.universityEmail || "",
+        email,
+        contactNo: fields.contactNo || "",
+        nationality: fields.nationality || "",
+        emiratesID: fields.emiratesID || "",
+        major: fields.major || "",
+        majorType: fields.majorType || "",
+        year: fields.year || "",
+        skillSet: fields.skillSet || "",
+        linkedIn: fields.linkedIn || "",
+        resume: fields.resume || "",
+        googleDrive: fields.googleDrive || "",
+        challenge1: fields.challenge1 || "",
+        challenge2: fields.challenge2 || "",
+        enthusiasmCheck: fields.enthusiasmCheck || "",
+        collaborativeSpirit: fields.collaborativeSpirit || "",
+    };
+}
+
+// Every answer field an application of this type can hold (all tracks)
+function getApplicationFieldNames(type: FormType): Set<string> {
+    const names = new Set<string>(["email"]);
+    for (const set of FORM_TYPE_FIELD_SETS[type]) {
+        for (const [field] of getFieldSpecs(set)) names.add(field);
+    }
+    return names;
+}
+
+/**
+ * The applicant's answers on an application document, without review state
+ */
+export function pickApplicationFields(type: FormType, data: Record<string, unknown>): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    for (const name of getApplicationFieldNames(type)) {
+        if (data[name] !== undefined) fields[name] = data[name];
+    }
+    return fields;
+}
+
+// ============================================================================
+// REVISIONS
+// ============================================================================
+
+/**
+ * Replace the answers on a submitted application, keeping the previous
+ * answers as a numbered revision. Review state (status, payment, domain) is
+ * left untouched; answers for the other track are removed when the major changes.
+ * The Sheets row refresh is queued in the same transaction (Google Forms
+ * responses cannot be updated).
+ */
+export async function reviseApplication(
+    type: FormType,
+    uid: string,
+    fields: Record<string, unknown>,
+    editedBy: string,
+    submission: { submissionKey: string; responses: Record<string, unknown> }
+): Promise<ApplicationEditResult> {
+    const ref = adminDb.collection(getApplicationCollection(type)).doc(uid);
+    const scoringModel = type === "competitor" ? await loadScoringModel() : null;
+
+    return adminDb.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        if (!doc.exists) return { ok: false, reason: "not_found" } as const;
+
+        const current = doc.data()!;
+        if (!canEditApplication(current)) return { ok: false, reason: "closed" } as const;
+
+        const revision: number = current.revision || 1;
+        const previous = pickApplicationFields(type, current);
+
+        const changedFields = [...getApplicationFieldNames(type)].filter(name =>
+            JSON.stringify(previous[name] ?? null) !== JSON.stringify(fields[name] ?? null)
+        );
+        if (changedFields.length === 0) {
+            return { ok: true, revision, changedFields, outboxIds: [] } as const;
+        }
+
+        const replacedAt = new Date().toISOString();
+        tx.set(ref.collection(REVISIONS_COLLECTION).doc(String(revision)), {
+            revision,
+            fields: previous,
+            changedFields,
+            editedBy,
+            replacedAt,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        const update: Record<string, unknown> = {
+            submissionKey: submission.submissionKey,
+            revision: revision + 1,
+            lastEditedAt: replacedAt,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        };
+        for (const name of getApplicationFieldNames(type)) {
+            update[name] = fields[name] !== undefined ? fields[name] : admin.firestore.FieldValue.delete();
+        }
+        Object.assign(update, getSearchFields(fields));
+        // Derived from the answers, so it follows every edit (and a move out of Engineering)
+        if (scoringModel) {
+            update.domainRecommendation = resolveFieldSet(type, fields) === "engineering"
+                ? buildDomainRecommendation(fields, scoringModel)
+                : admin.firestore.FieldValue.delete();
+        }
+        tx.update(ref, update);
+
+        const outboxIds = enqueueSubmission(tx, { uid, type, ...submission }, ["google_sheets"]);
+
+        return { ok: true, revision: revision + 1, changedFields, outboxIds } as const;
+    });
+}
+
+export async function getApplicationRevisions(type: FormType, uid: string): Promise<ApplicationRevision[]> {
+    const snapshot = await adminDb
+        .collection(getApplicationCollection(type))
+        .doc(uid)
+        .collection(REVISIONS_COLLECTION)
+        .orderBy("revision", "desc")
+        .get();
+
+    return snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+            revision: data.revision,
+            fields: data.fields || {},
+            changedFields: data.changedFields || [],
+            editedBy: data.editedBy || "",
+            replacedAt: data.replacedAt || "",
+        };
+    });
+}
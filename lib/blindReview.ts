@@ -0,0 +1,95 @@
+import crypto from "crypto";
+import type { CompetitorFilters } from "@/lib/competitorQuery";
+import type { CompetitorRow } from "@/lib/competitors";
+
+/**
+ * Blind review
+ *
+ * With BLIND_REVIEW=true, reviewers see a competitor under an applicant code
+ * with only their answers: no name, contact details, IDs, university or
+ * links. A reviewer sees who the applicant is once they have submitted their
+ * own review (reviewSummary.reviewerUids, lib/reviews.ts). Chairs, admins with
+ * the `chair` claim (`npm run set-admin <email> --chair`, `--no-chair` to
+ * remove it), always see it.
+ * Views that list applicants by name regardless of reviews (domain
+ * assignment, teams) are for chairs only while blind review is on.
+ */
+
+// Competitor fields that identify the applicant, hidden until identity is revealed
+export const IDENTIFYING_FIELDS: readonly string[] = [
+    "fullName",
+    "university",
+    "universityEmail",
+    "contactNo",
+    "nationality",
+    "emiratesID",
+    "linkedIn",
+    "resume",
+    "googleDrive",
+    // Stored alongside the answers
+    "email",
+    "fullNameLower",
+    "universityLower",
+];
+
+export interface BlindReviewer {
+    uid: string;
+    chair: boolean;
+}
+
+export function isBlindReviewEnabled(): boolean {
+    return process.env.BLIND_REVIEW === "true";
+}
+
+/**
+ * Stable, non-reversible code shown instead of the applicant's name
+ */
+export function getApplicantCode(uid: string): string {
+    const hash = crypto.createHash("sha256").update(uid).digest("hex");
+    return `APP-${hash.slice(0, 6).toUpperCase()}`;
+}
+
+/**
+ * Whether blind review is on for this viewer at all (off for chairs)
+ */
+export function isBlindViewer(viewer: BlindReviewer | null): boolean {
+    return isBlindReviewEnabled() && !viewer?.chair;
+}
+
+/**
+ * Whether the viewer may see who a competitor is, given the admins who have
+ * reviewed them
+ */
+export function isIdentityRevealed(viewer: BlindReviewer | null, reviewerUids: string[]): boolean {
+    if (!isBlindViewer(viewer)) return true;
+    return !!viewer && reviewerUids.includes(viewer.uid);
+}
+
+/**
+ * A dashboard row with its identifying columns blanked
+ */
+export function hideRowIdentity(row: CompetitorRow): CompetitorRow {
+    return { ...row, fullName: "", email: "", university: "", identityHidden: true };
+}
+
+/**
+ * An applicant in an admin API response with their name and email blanked
+ */
+export function hideApplicantIdentity<T extends { name: string; email: string }>(applicant: T): T {
+    return { ...applicant, name: "", email: "" };
+}
+
+/**
+ * Drop filters and sorts that would tie a hidden row to a name: name and
+ * email searches, the university filter and sorting by name or email
+ */
+export function blindFilters(filters: CompetitorFilters): CompetitorFilters {
+    const sortable = filters.sort !== "fullName" && filters.sort !== "email";
+    return {
+        ...filters,
+        q: undefined,
+        university: undefined,
+        sort: sortable ? filters.sort : "submittedAt",
+        dir: sortable ? filters.dir : "desc",
+    };
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { ApplicationStatus, DomainId } from "./apiContracts";
+
+/**
+ * Admin dashboard table filters
+ *
+ * Each competitor table keeps its filters, sort and page in the URL under its
+ * own prefix (`eng.status=Accepted&eng.sort=fullName`), so a filtered view can
+ * be shared as a link and both tables page independently. Parsed on the
+ * server by the dashboard page and written by the table's filter bar. The
+ * competitor detail page reads the same params to step through the list.
+ */
+
+// URL param prefix of each track's table
+export const COMPETITOR_TABLE_PREFIXES = {
+    medicine: "med",
+    engineering: "eng",
+} as const;
+
+export const COMPETITOR_SORT_FIELDS = ["submittedAt", "fullName", "email", "status"] as const;
+export type CompetitorSortField = typeof COMPETITOR_SORT_FIELDS[number];
+
+// Blank form inputs mean "no filter"
+const optionalText = z.string().trim().max(200).transform(value => value || undefined).optional().catch(undefined);
+const DateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().catch(undefined);
+
+// Invalid values are dropped rather than failing the page
+export const CompetitorFilters = z.object({
+    q: optionalText,
+    status: ApplicationStatus.optional().catch(undefined),
+    major: optionalText,
+    university: optionalText,
+    paid: z.enum(["yes", "no"]).optional().catch(undefined),
+    // "none": no domain chosen yet
+    domain: z.union([DomainId, z.literal("none")]).optional().catch(undefined),
+    from: DateParam,
+    to: DateParam,
+    sort: z.enum(COMPETITOR_SORT_FIELDS).default("submittedAt").catch("submittedAt"),
+    dir: z.enum(["asc", "desc"]).default("desc").catch("desc"),
+    // Paging: rows after `cursor`, or the page that ends just before `before`
+    cursor: optionalText,
+    before: optionalText,
+    page: z.coerce.number().int().min(1).default(1).catch(1),
+});
+export type CompetitorFilters = z.infer<typeof CompetitorFilters>;
+
+// Filters that narrow the results (not sort or paging)
+export const NARROWING_FILTERS = ["q", "status", "major", "university", "paid", "domain", "from", "to"] as const;
+
+export const DEFAULT_COMPETITOR_FILTERS = CompetitorFilters.parse({});
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+/**
+ * The filters stored under `prefix.` in the page's search params
+ */
+export function parseCompetitorFilters(searchParams: SearchParams, prefix: string): CompetitorFilters {
+    const values: Record<string, string> = {};
+    for (const [key, value] of Object.entries(searchParams)) {
+        const single = Array.isArray(value) ? value[0] : value;
+        if (key.startsWith(`${prefix}.`) && single) values[key.slice(prefix.length + 1)] = single;
+    }
+    return CompetitorFilters.parse(values);
+}
+
+/**
+ * Write `filters` under `prefix.` into a copy of `current`, leaving defaults
+ * (and the other table's params) out of or untouched in the URL
+ */
+export function withCompetitorFilters(current: URLSearchParams, prefix: string, filters: CompetitorFilters): URLSearchParams {
+    const next = new URLSearchParams(current);
+    for (const key of [...next.keys()]) {
+        if (key.startsWith(`${prefix}.`)) next.delete(key);
+    }
+
+    for (const [key, value] of Object.entries(filters)) {
+        if (value === undefined || value === "") continue;
+        if (value === DEFAULT_COMPETITOR_FILTERS[key as keyof CompetitorFilters]) continue;
+        next.set(`${prefix}.${key}`, String(value));
+    }
+    return next;
+}
+
+// ============================================================================
+// SEARCH FIELDS
+// ============================================================================
+
+/**
+ * The form of a name, university or major that the dashboard searches and
+ * filters on (Firestore only compares exact, case-sensitive values)
+ */
+export function toSearchValue(value: unknown): string {
+    return typeof value === "string" ? value.trim().replace(/\s+/g, " ").toLowerCase() : "";
+}
+
+/**
+ * Lowercased copies of the answers stored next to them on each application
+ */
+export function getSearchFields(fields: Record<string, unknown>) {
+    return {
+        fullNameLower: toSearchValue(fields.fullName),
+        universityLower: toSearchValue(fields.university),
+        majorTypeLower: toSearchValue(fields.majorType),
+    };
+}
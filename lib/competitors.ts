@@ -0,0 +1,262 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getMajorsForFieldSet } from "@/lib/formFields";
+import { toSearchValue, type CompetitorFilters, type CompetitorSortField } from "@/lib/competitorQuery";
+import { getApplicantCode } from "@/lib/blindReview";
+import { logger } from "@/lib/logger";
+
+/**
+ * Competitor tables on the admin dashboard.
+ *
+ * Each table is one track (Medicine/Healthcare or Engineering), filtered,
+ * sorted, paged and counted by Firestore (filters: lib/competitorQuery.ts).
+ * Name, major and university filters match the lowercased copies saved with
+ * each application (fullNameLower, majorTypeLower, universityLower).
+ * Applications saved before those fields, or without submittedAt, drop out
+ * of sorted views until `npm run backfill-search-fields` has run.
+ *
+ * Every filter with every sort order needs a composite index; they are in
+ * firestore.indexes.json (`firebase deploy --only firestore:indexes`). Query
+ * failures are thrown, so callers can tell them apart from an empty result.
+ */
+
+const COMPETITORS_COLLECTION = "competitors";
+export const COMPETITOR_PAGE_SIZE = 25;
+
+export type CompetitorTrack = "medicine" | "engineering";
+
+export interface CompetitorRow {
+    id: string;
+    // Shown in place of the name under blind review (lib/blindReview.ts)
+    applicantCode: string;
+    identityHidden: boolean;
+    fullName: string;
+    email: string;
+    major: string;          // majorType, falling back to the track
+    university: string;
+    status: string;
+    isPaid: boolean;
+    domain: string;
+    submittedAt: string;
+    // From competitors/{uid}.reviewSummary (lib/reviews.ts)
+    reviews: { count: number; average: number | null; disagreement: number; reviewerUids: string[] } | null;
+}
+
+type SearchField = "fullNameLower" | "email";
+
+export interface CompetitorPage {
+    rows: CompetitorRow[];
+    total: number;
+    // Pass back as `cursor` for the next page; null on the last page
+    nextCursor: string | null;
+    // Pass back as `before` for the previous page; null on the first page
+    previousCursor: string | null;
+    // The order actually used: searches and date ranges decide it (see orderFor)
+    sort: CompetitorSortField;
+    dir: "asc" | "desc";
+    searchedBy: "name" | "email" | null;
+}
+
+export interface CompetitorNeighbours {
+    previous: string | null;
+    next: string | null;
+    // The table's query failed, so there is no order to step through
+    failed: boolean;
+}
+
+export interface CompetitorStats {
+    total: number;
+    accepted: number;
+    rejected: number;
+}
+
+const SORT_FIELDS: Record<CompetitorSortField, string> = {
+    submittedAt: "submittedAt",
+    fullName: "fullNameLower",
+    email: "email",
+    status: "status",
+};
+
+function formatTimestamp(value: unknown): string {
+    if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+    return typeof value === "string" ? value : "";
+}
+
+// Dates are whole UTC days; `to` is inclusive
+function dayStart(date: string, offsetDays = 0): admin.firestore.Timestamp {
+    const day = new Date(`${date}T00:00:00Z`);
+    day.setUTCDate(day.getUTCDate() + offsetDays);
+    return admin.firestore.Timestamp.fromDate(day);
+}
+
+function trackQuery(track: CompetitorTrack): admin.firestore.Query {
+    return adminDb
+        .collection(COMPETITORS_COLLECTION)
+        .where("major", "in", getMajorsForFieldSet(track));
+}
+
+function filteredQuery(track: CompetitorTrack, filters: CompetitorFilters, searchField: SearchField | null): admin.firestore.Query {
+    let query = trackQuery(track);
+
+    if (filters.status) query = query.where("status", "==", filters.status);
+    if (filters.major) query = query.where("majorTypeLower", "==", toSearchValue(filters.major));
+    if (filters.university) query = query.where("universityLower", "==", toSearchValue(filters.university));
+    if (filters.paid) query = query.where("isPaid", "==", filters.paid === "yes");
+    if (filters.domain) query = query.where("domain", "==", filters.domain === "none" ? "" : filters.domain);
+    if (filters.from) query = query.where("submittedAt", ">=", dayStart(filters.from));
+    if (filters.to) query = query.where("submittedAt", "<", dayStart(filters.to, 1));
+
+    // Prefix match
+    if (searchField && filters.q) {
+        const prefix = searchField === "email" ? filters.q.trim().toLowerCase() : toSearchValue(filters.q);
+        query = query.where(searchField, ">=", prefix).where(searchField, "<=", `${prefix}\uf8ff`);
+    }
+
+    return query;
+}
+
+/**
+ * A range filter's field has to come first in the ordering, so a search sorts
+ * by the searched field and a date range by submission date
+ */
+function orderFor(filters: CompetitorFilters, searchField: SearchField | null): Pick<CompetitorPage, "sort" | "dir"> {
+    if (searchField) return { sort: searchField === "email" ? "email" : "fullName", dir: "asc" };
+    if (filters.from || filters.to) return { sort: "submittedAt", dir: filters.sort === "submittedAt" ? filters.dir : "desc" };
+    return { sort: filters.sort, dir: filters.dir };
+}
+
+function toRow(doc: admin.firestore.DocumentSnapshot): CompetitorRow {
+    const data = doc.data()!;
+    return {
+        id: doc.id,
+        applicantCode: getApplicantCode(doc.id),
+        identityHidden: false,
+        fullName: data.fullName || "",
+        email: data.email || "",
+        major: data.majorType || data.major || "",
+        university: data.university || "",
+        status: data.status || "pending",
+        isPaid: !!data.isPaid,
+        domain: data.domain || "",
+        submittedAt: formatTimestamp(data.submittedAt ?? data.timestamp),
+        reviews: data.reviewSummary
+            ? {
+                count: data.reviewSummary.count ?? 0,
+                average: data.reviewSummary.average ?? null,
+                disagreement: data.reviewSummary.disagreement ?? 0,
+                reviewerUids: data.reviewSummary.reviewerUids ?? [],
+            }
+            : null,
+    };
+}
+
+interface ResolvedQuery {
+    query: admin.firestore.Query;
+    total: number;
+    searchField: SearchField | null;
+}
+
+/**
+ * The filtered query for a track. Text searches match a name prefix, or an
+ * email prefix when the text contains "@" or no name matches.
+ */
+async function resolveQuery(track: CompetitorTrack, filters: CompetitorFilters): Promise<ResolvedQuery> {
+    const candidates: (SearchField | null)[] = !filters.q ? [null]
+        : filters.q.includes("@") ? ["email"]
+        : ["fullNameLower", "email"];
+
+    let resolved: ResolvedQuery = { query: trackQuery(track), total: 0, searchField: null };
+    for (const candidate of candidates) {
+        const query = filteredQuery(track, filters, candidate);
+        resolved = { query, total: (await query.count().get()).data().count, searchField: candidate };
+        if (resolved.total > 0) break;
+    }
+    return resolved;
+}
+
+function ordered(query: admin.firestore.Query, sort: CompetitorSortField, dir: "asc" | "desc"): admin.firestore.Query {
+    return query
+        .orderBy(SORT_FIELDS[sort], dir)
+        // Ties keep a stable order, so cursors don't skip or repeat rows
+        .orderBy(admin.firestore.FieldPath.documentId(), dir);
+}
+
+/**
+ * One page of a track's competitors. The page before `before` is read in
+ * reverse order, the same way getCompetitorNeighbours finds the previous row.
+ */
+export async function listCompetitors(track: CompetitorTrack, filters: CompetitorFilters): Promise<CompetitorPage> {
+    const { query, total, searchField } = await resolveQuery(track, filters);
+
+    const { sort, dir } = orderFor(filters, searchField);
+    const backwards = !!filters.before;
+    let page = ordered(query, sort, backwards ? (dir === "asc" ? "desc" : "asc") : dir).limit(COMPETITOR_PAGE_SIZE + 1);
+
+    const cursorId = filters.before ?? filters.cursor;
+    if (cursorId) {
+        const cursorDoc = await adminDb.collection(COMPETITORS_COLLECTION).doc(cursorId).get();
+        if (cursorDoc.exists) page = page.startAfter(cursorDoc);
+    }
+
+    const snapshot = await page.get();
+    const hasMore = snapshot.docs.length > COMPETITOR_PAGE_SIZE;
+    const docs = snapshot.docs.slice(0, COMPETITOR_PAGE_SIZE);
+    if (backwards) docs.reverse();
+
+    return {
+        rows: docs.map(toRow),
+        total,
+        nextCursor: (backwards ? docs.length > 0 : hasMore) ? docs[docs.length - 1].id : null,
+        previousCursor: (backwards ? hasMore : !!filters.cursor && docs.length > 0) ? docs[0].id : null,
+        sort,
+        dir,
+        searchedBy: !searchField ? null : searchField === "email" ? "email" : "name",
+    };
+}
+
+/**
+ * The competitors before and after one in a table's order, for stepping
+ * through a filtered list from the detail page. Both are null when the
+ * competitor has no place in that order (e.g. missing the sort field).
+ */
+export async function getCompetitorNeighbours(
+    track: CompetitorTrack,
+    filters: CompetitorFilters,
+    competitorId: string
+): Promise<CompetitorNeighbours> {
+    const none = { previous: null, next: null, failed: false };
+    const doc = await adminDb.collection(COMPETITORS_COLLECTION).doc(competitorId).get();
+    if (!doc.exists) return none;
+
+    try {
+        const { query, searchField } = await resolveQuery(track, filters);
+        const { sort, dir } = orderFor(filters, searchField);
+        const [previous, next] = await Promise.all([
+            ordered(query, sort, dir === "asc" ? "desc" : "asc").startAfter(doc).limit(1).get(),
+            ordered(query, sort, dir).startAfter(doc).limit(1).get(),
+        ]);
+        return { previous: previous.docs[0]?.id ?? null, next: next.docs[0]?.id ?? null, failed: false };
+    } catch (error) {
+        logger.error("Failed to find the neighbours of a competitor", { competitorId, error });
+        return { ...none, failed: true };
+    }
+}
+
+/**
+ * Application counts for a whole track (ignoring the table's filters)
+ */
+export async function getCompetitorStats(track: CompetitorTrack): Promise<CompetitorStats> {
+    const query = trackQuery(track);
+    const [total, accepted, rejected] = await Promise.all([
+        query.count().get(),
+        query.where("status", "==", "Accepted").count().get(),
+        query.where("status", "==", "Rejected").count().get(),
+    ]);
+
+    return {
+        total: total.data().count,
+        accepted: accepted.data().count,
+        rejected: rejected.data().count,
+    };
+}
@@ -9,6 +9,9 @@
  * Domain C: Digital Health & AI (software, apps, ML/CV solutions)
  */
 
+import { BUNDLED_SCORING_MODEL, normalizeOption, type ScoringModel } from "./scoringModel";
+import { findKeywordMatches, getSnippet } from "./textMatcher";
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
@@ -38,6 +41,65 @@ export interface DomainRecommendation {
     allScores: DomainScore[];
     confidence: 'high' | 'medium' | 'low';
     reasoning: string;
+    explanation: DomainExplanation;
+    modelVersion: number;  // Scoring model the scores were computed with
+}
+
+/**
+ * What each score component was built from, so reviewers can see (and
+ * defend or override) why a domain was recommended
+ */
+export interface DomainExplanation {
+    skills: MatchedOption[];          // Catalog entries for the selected Technical Toolkit options
+    unmatchedSkills: string[];        // Selected options not in the catalog (scored nothing)
+    persona: MatchedOption | null;
+    keywords: KeywordEvidence[];      // In field and text order
+    scenarioBonuses: ScenarioBonus[];
+    // Weighted points each component added to each domain's score
+    contributions: Record<'A' | 'B' | 'C', ComponentPoints>;
+}
+
+export interface MatchedOption {
+    option: string;
+    A: number;
+    B: number;
+    C: number;
+}
+
+export interface ComponentPoints {
+    skills: number;
+    persona: number;
+    project: number;
+    scenario: number;
+}
+
+export type TextField = 'handsOnProject' | 'professionalExp' | 'scenarioResponse';
+
+/**
+ * A keyword found in a free-text answer. start/end index into the answer;
+ * A/B/C are the keyword's points before weighting (all 0 unless status is
+ * 'scored'; hands-on project points count 1.5x).
+ */
+export interface KeywordEvidence {
+    field: TextField;
+    keyword: string;
+    text: string;
+    snippet: string;
+    start: number;
+    end: number;
+    status: 'scored' | 'negated' | 'capped';
+    A: number;
+    B: number;
+    C: number;
+}
+
+// A solution approach found in the scenario answer
+export interface ScenarioBonus {
+    domain: 'A' | 'B' | 'C';
+    keyword: string;
+    text: string;
+    snippet: string;
+    points: number;
 }
 
 export interface EngineerResponses {
@@ -56,184 +118,24 @@ export interface EngineerResponses {
     scenarioResponse?: string;  // Hospital medication scenario answer
 }
 
-// ============================================================================
-// CONFIGURATION - SKILL TO DOMAIN MAPPINGS
-// ============================================================================
-
 /**
- * Maps specific skills from each group to domain scores.
- * Some skills may contribute to multiple domains with different weights.
+ * Bump whenever the scoring code changes (matching, thresholds, reasoning).
+ * Skill/persona/keyword weights live in the scoring model, which is
+ * versioned separately (lib/scoringModel.ts). Recommendations stored with an
+ * older algorithm or model version are recomputed in bulk.
  */
-const SKILL_DOMAIN_MAP: Record<string, { A: number; B: number; C: number }> = {
-    // === Group 1: Physical Systems (Primarily Domain A) ===
-    "CAD / 3D Modeling (SolidWorks, Fusion 360, etc.)": { A: 3, B: 0, C: 0 },
-    "3D Printing / Rapid Prototyping": { A: 3, B: 0, C: 0 },
-    "Electronics / Soldering": { A: 3, B: 0, C: 0 },
-    "Arduino / Microcontrollers": { A: 3, B: 1, C: 1 },
-    "Sensor Integration": { A: 3, B: 1, C: 1 },
-    "Mechanical Assembly / Fabrication": { A: 3, B: 0, C: 0 },
-    "Biomedical Device Design": { A: 3, B: 1, C: 0 },
-    "Wearable Technology": { A: 3, B: 0, C: 2 },
-
-    // === Group 2: Systems & Operations (Primarily Domain B) ===
-    "Process Mapping / Flowcharting (BPMN, Lucidchart)": { A: 0, B: 3, C: 0 },
-    "Data Analysis (Excel, Python for Data)": { A: 0, B: 2, C: 2 },
-    "Scheduling / Resource Optimization": { A: 0, B: 3, C: 0 },
-    "Simulation & Modeling (Arena, AnyLogic)": { A: 0, B: 3, C: 1 },
-    "Lean / Six Sigma Principles": { A: 0, B: 3, C: 0 },
-    "Supply Chain / Logistics": { A: 0, B: 3, C: 0 },
-    "Quality Management Systems": { A: 1, B: 3, C: 0 },
-    "RFID / Asset Tracking Systems": { A: 2, B: 3, C: 0 },
-
-    // === Group 3: Digital & Intelligence (Primarily Domain C) ===
-    "Programming (Python, C++, Java, JavaScript)": { A: 1, B: 1, C: 3 },
-    "Machine Learning / AI Fundamentals": { A: 0, B: 1, C: 3 },
-    "Computer Vision / Image Processing": { A: 0, B: 0, C: 3 },
-    "Mobile App Development": { A: 0, B: 0, C: 3 },
-    "Web Development (Frontend / Backend)": { A: 0, B: 1, C: 3 },
-    "Database Design / SQL": { A: 0, B: 2, C: 2 },
-    "Cloud Platforms (AWS, GCP, Azure)": { A: 0, B: 1, C: 2 },
-    "API Integration": { A: 0, B: 1, C: 3 },
-    "NLP / Natural Language Processing": { A: 0, B: 0, C: 3 },
-    "Deep Learning Frameworks (TensorFlow, PyTorch)": { A: 0, B: 0, C: 3 },
-
-    // === Group 4: Global Skills (Boost all domains slightly) ===
-    "Technical Writing & Documentation": { A: 1, B: 1, C: 1 },
-    "Project Management": { A: 1, B: 2, C: 1 },
-    "Team Leadership": { A: 1, B: 1, C: 1 },
-    "Presentation / Pitching": { A: 1, B: 1, C: 1 },
-    "Prototyping Methodologies": { A: 2, B: 1, C: 1 },
-    "User Research / UX": { A: 1, B: 1, C: 2 },
-};
+export const ALGORITHM_VERSION = 5;
 
-/**
- * Work Style Persona mappings
- * Higher values indicate stronger domain fit
- */
-const PERSONA_DOMAIN_MAP: Record<string, { A: number; B: number; C: number }> = {
-    // Builder archetype -> Domain A
-    "The Builder": { A: 5, B: 1, C: 1 },
-    "Builder": { A: 5, B: 1, C: 1 },
-    "I am happiest when I am physically assembling something": { A: 5, B: 1, C: 1 },
-
-    // Analyst/Optimizer archetype -> Domain B  
-    "The Analyst": { A: 1, B: 5, C: 2 },
-    "Analyst": { A: 1, B: 5, C: 2 },
-    "The Optimizer": { A: 1, B: 5, C: 1 },
-    "Optimizer": { A: 1, B: 5, C: 1 },
-    "I find joy in mapping out processes and finding inefficiencies": { A: 1, B: 5, C: 1 },
-
-    // Coder/Developer archetype -> Domain C
-    "The Coder": { A: 1, B: 1, C: 5 },
-    "Coder": { A: 1, B: 1, C: 5 },
-    "The Developer": { A: 1, B: 1, C: 5 },
-    "Developer": { A: 1, B: 1, C: 5 },
-    "I love writing code and building digital solutions": { A: 1, B: 1, C: 5 },
-
-    // Hybrid archetypes
-    "The Integrator": { A: 2, B: 2, C: 2 },
-    "Generalist": { A: 2, B: 2, C: 2 },
-};
+// Distinct keywords scored per free-text answer, so long or keyword-stuffed answers can't dominate
+const MAX_KEYWORDS_PER_RESPONSE = 8;
 
-/**
- * Keywords for analyzing free-text responses
- * Weighted by relevance to each domain
- */
-const TEXT_KEYWORDS: Record<string, { A: number; B: number; C: number }> = {
-    // Domain A keywords (hardware, physical, sensors)
-    "3d print": { A: 3, B: 0, C: 0 },
-    "prototype": { A: 3, B: 1, C: 1 },
-    "sensor": { A: 3, B: 1, C: 1 },
-    "arduino": { A: 3, B: 0, C: 1 },
-    "raspberry": { A: 3, B: 0, C: 1 },
-    "circuit": { A: 3, B: 0, C: 0 },
-    "solder": { A: 3, B: 0, C: 0 },
-    "wearable": { A: 3, B: 0, C: 1 },
-    "hardware": { A: 3, B: 0, C: 0 },
-    "physical": { A: 2, B: 0, C: 0 },
-    "device": { A: 2, B: 0, C: 1 },
-    "haptic": { A: 3, B: 0, C: 0 },
-    "motor": { A: 3, B: 0, C: 0 },
-    "mechanical": { A: 3, B: 0, C: 0 },
-    "cad": { A: 3, B: 0, C: 0 },
-    "design": { A: 2, B: 1, C: 1 },
-    "build": { A: 2, B: 0, C: 1 },
-    "fabricat": { A: 3, B: 0, C: 0 },
-    "assemble": { A: 3, B: 0, C: 0 },
-    "drone": { A: 3, B: 0, C: 0 },
-    "robot": { A: 3, B: 1, C: 1 },
-    "peltier": { A: 3, B: 0, C: 0 },
-    "temperature": { A: 2, B: 1, C: 0 },
-    "infrared": { A: 3, B: 0, C: 0 },
-    "clamp": { A: 3, B: 0, C: 0 },
-
-    // Domain B keywords (operations, systems, optimization)
-    "process": { A: 0, B: 3, C: 0 },
-    "optimize": { A: 0, B: 3, C: 0 },
-    "efficien": { A: 0, B: 3, C: 0 },
-    "workflow": { A: 0, B: 3, C: 0 },
-    "schedule": { A: 0, B: 3, C: 0 },
-    "logistics": { A: 0, B: 3, C: 0 },
-    "supply chain": { A: 0, B: 3, C: 0 },
-    "inventory": { A: 0, B: 3, C: 0 },
-    "tracking": { A: 1, B: 3, C: 0 },
-    "rfid": { A: 2, B: 3, C: 0 },
-    "queue": { A: 0, B: 3, C: 1 },
-    "triage": { A: 0, B: 3, C: 1 },
-    "allocat": { A: 0, B: 3, C: 0 },
-    "resource": { A: 0, B: 3, C: 0 },
-    "bottleneck": { A: 0, B: 3, C: 0 },
-    "lean": { A: 0, B: 3, C: 0 },
-    "six sigma": { A: 0, B: 3, C: 0 },
-    "simulation": { A: 0, B: 3, C: 1 },
-    "model": { A: 1, B: 2, C: 2 },
-    "predict": { A: 0, B: 2, C: 2 },
-    "forecast": { A: 0, B: 3, C: 1 },
-    "staff": { A: 0, B: 3, C: 0 },
-    "roster": { A: 0, B: 3, C: 0 },
-    "asset": { A: 0, B: 3, C: 0 },
-    "hospital": { A: 1, B: 2, C: 1 },
-    "clinical": { A: 1, B: 2, C: 1 },
-    "wait time": { A: 0, B: 3, C: 0 },
-    "bed": { A: 0, B: 3, C: 0 },
-
-    // Domain C keywords (software, AI, digital)
-    "app": { A: 0, B: 0, C: 3 },
-    "software": { A: 0, B: 1, C: 3 },
-    "algorithm": { A: 0, B: 1, C: 3 },
-    "machine learning": { A: 0, B: 1, C: 3 },
-    "ai": { A: 0, B: 1, C: 3 },
-    "artificial intelligence": { A: 0, B: 1, C: 3 },
-    "deep learning": { A: 0, B: 0, C: 3 },
-    "neural": { A: 0, B: 0, C: 3 },
-    "computer vision": { A: 0, B: 0, C: 3 },
-    "nlp": { A: 0, B: 0, C: 3 },
-    "website": { A: 0, B: 0, C: 3 },
-    "web": { A: 0, B: 0, C: 3 },
-    "mobile": { A: 0, B: 0, C: 3 },
-    "ios": { A: 0, B: 0, C: 3 },
-    "android": { A: 0, B: 0, C: 3 },
-    "python": { A: 0, B: 1, C: 3 },
-    "javascript": { A: 0, B: 0, C: 3 },
-    "react": { A: 0, B: 0, C: 3 },
-    "tensorflow": { A: 0, B: 0, C: 3 },
-    "pytorch": { A: 0, B: 0, C: 3 },
-    "database": { A: 0, B: 1, C: 2 },
-    "api": { A: 0, B: 1, C: 3 },
-    "cloud": { A: 0, B: 1, C: 2 },
-    "diagnos": { A: 0, B: 1, C: 3 },
-    "detect": { A: 0, B: 0, C: 3 },
-    "classif": { A: 0, B: 0, C: 3 },
-    "image": { A: 0, B: 0, C: 3 },
-    "audio": { A: 0, B: 0, C: 3 },
-    "voice": { A: 0, B: 0, C: 3 },
-    "speech": { A: 0, B: 0, C: 3 },
-    "camera": { A: 1, B: 0, C: 3 },
-    "webcam": { A: 0, B: 0, C: 3 },
-    "screen": { A: 0, B: 0, C: 3 },
-    "platform": { A: 0, B: 1, C: 2 },
-    "dashboard": { A: 0, B: 2, C: 2 },
+// Solution approaches in the scenario answer, worth +3 to their domain
+const SCENARIO_APPROACHES: Record<'A' | 'B' | 'C', string[]> = {
+    A: ["dispenser", "cart", "device"],
+    B: ["system", "reorganize", "layout"],
+    C: ["app", "notification", "automat*"],
 };
+const SCENARIO_APPROACH_BONUS = 3;
 
 // ============================================================================
 // DOMAIN NAMES & DESCRIPTIONS
@@ -261,8 +163,13 @@ const DOMAIN_INFO: Record<'A' | 'B' | 'C', { name: string; description: string }
 /**
  * Calculate skill-based scores from the checkbox responses
  */
-function calculateSkillScores(responses: EngineerResponses): { A: number; B: number; C: number; max: number } {
+function calculateSkillScores(
+    responses: EngineerResponses,
+    model: ScoringModel
+): { A: number; B: number; C: number; max: number; matched: MatchedOption[]; unmatched: string[] } {
     const scores = { A: 0, B: 0, C: 0 };
+    const matched: MatchedOption[] = [];
+    const unmatched: string[] = [];
     let maxPossible = 0;
 
     const allSkills = [
@@ -272,77 +179,108 @@ function calculateSkillScores(responses: EngineerResponses): { A: number; B: num
         ...(responses.skillsGlobal || []),
     ];
 
+    // Exact options from the catalog; anything else scores nothing
+    const catalog = new Map(model.skills.map(entry => [normalizeOption(entry.option), entry]));
+
     for (const skill of allSkills) {
-        // Find matching skill (flexible matching)
-        const matchedKey = Object.keys(SKILL_DOMAIN_MAP).find(key =>
-            skill.toLowerCase().includes(key.toLowerCase()) ||
-            key.toLowerCase().includes(skill.toLowerCase())
-        );
-
-        if (matchedKey) {
-            const weights = SKILL_DOMAIN_MAP[matchedKey];
+        const weights = catalog.get(normalizeOption(skill));
+
+        if (weights) {
             scores.A += weights.A;
             scores.B += weights.B;
             scores.C += weights.C;
             maxPossible += Math.max(weights.A, weights.B, weights.C);
+            matched.push({ option: weights.option, A: weights.A, B: weights.B, C: weights.C });
+        } else {
+            unmatched.push(skill);
         }
     }
 
-    return { ...scores, max: maxPossible || 1 };
+    return { ...scores, max: maxPossible || 1, matched, unmatched };
 }
 
 /**
  * Calculate persona-based scores from work style question
  */
-function calculatePersonaScores(responses: EngineerResponses): { A: number; B: number; C: number; max: number } {
+function calculatePersonaScores(
+    responses: EngineerResponses,
+    model: ScoringModel
+): { A: number; B: number; C: number; max: number; matched: MatchedOption | null } {
     const scores = { A: 0, B: 0, C: 0 };
-    const maxPossible = 5; // Max persona score
+    // One persona is chosen, so the best any answer can score is the model's highest persona weight
+    const maxPossible = Math.max(0, ...model.personas.map(entry => Math.max(entry.A, entry.B, entry.C)));
+    let matched: MatchedOption | null = null;
 
     if (responses.workStylePersona) {
-        const persona = responses.workStylePersona.toLowerCase();
-
-        for (const [key, weights] of Object.entries(PERSONA_DOMAIN_MAP)) {
-            if (persona.includes(key.toLowerCase())) {
-                scores.A += weights.A;
-                scores.B += weights.B;
-                scores.C += weights.C;
-                break; // Only match one persona
-            }
+        const persona = normalizeOption(responses.workStylePersona);
+        const weights = model.personas.find(entry => normalizeOption(entry.option) === persona);
+
+        if (weights) {
+            scores.A += weights.A;
+            scores.B += weights.B;
+            scores.C += weights.C;
+            matched = { option: weights.option, A: weights.A, B: weights.B, C: weights.C };
         }
     }
 
-    return { ...scores, max: maxPossible };
+    return { ...scores, max: maxPossible || 1, matched };
 }
 
 /**
- * Analyze free-text responses for domain keywords
+ * Analyze a free-text response for domain keywords. Each keyword scores once,
+ * negated mentions ("never used an Arduino") score nothing, and only the first
+ * MAX_KEYWORDS_PER_RESPONSE distinct keywords count.
  */
-function analyzeTextForKeywords(text: string): { A: number; B: number; C: number; count: number } {
+function analyzeTextForKeywords(
+    text: string,
+    field: TextField,
+    model: ScoringModel
+): { A: number; B: number; C: number; count: number; evidence: KeywordEvidence[] } {
     const scores = { A: 0, B: 0, C: 0 };
-    let matchCount = 0;
-
-    if (!text) return { ...scores, count: 0 };
-
-    const lowerText = text.toLowerCase();
-
-    for (const [keyword, weights] of Object.entries(TEXT_KEYWORDS)) {
-        if (lowerText.includes(keyword.toLowerCase())) {
-            scores.A += weights.A;
-            scores.B += weights.B;
-            scores.C += weights.C;
-            matchCount++;
+    const evidence: KeywordEvidence[] = [];
+    const weightsByKeyword = new Map(model.keywords.map(entry => [entry.match, entry]));
+    const seen = new Set<string>();
+
+    for (const match of findKeywordMatches(text, model.keywords.map(entry => entry.match))) {
+        if (seen.has(match.keyword)) continue;
+
+        const weights = weightsByKeyword.get(match.keyword)!;
+        const status = match.negated ? 'negated' : seen.size >= MAX_KEYWORDS_PER_RESPONSE ? 'capped' : 'scored';
+        const points = status === 'scored' ? weights : { A: 0, B: 0, C: 0 };
+
+        if (status === 'scored') {
+            seen.add(match.keyword);
+            scores.A += points.A;
+            scores.B += points.B;
+            scores.C += points.C;
         }
+
+        evidence.push({
+            field,
+            keyword: match.keyword,
+            text: match.text,
+            snippet: getSnippet(text, match.start, match.end),
+            start: match.start,
+            end: match.end,
+            status,
+            A: points.A,
+            B: points.B,
+            C: points.C,
+        });
     }
 
-    return { ...scores, count: matchCount };
+    return { ...scores, count: seen.size, evidence };
 }
 
 /**
  * Calculate project description scores
  */
-function calculateProjectScores(responses: EngineerResponses): { A: number; B: number; C: number; max: number } {
-    const projectAnalysis = analyzeTextForKeywords(responses.handsOnProject || "");
-    const expAnalysis = analyzeTextForKeywords(responses.professionalExp || "");
+function calculateProjectScores(
+    responses: EngineerResponses,
+    model: ScoringModel
+): { A: number; B: number; C: number; max: number; evidence: KeywordEvidence[] } {
+    const projectAnalysis = analyzeTextForKeywords(responses.handsOnProject || "", 'handsOnProject', model);
+    const expAnalysis = analyzeTextForKeywords(responses.professionalExp || "", 'professionalExp', model);
 
     // Combine with weights (project description matters more)
     const scores = {
@@ -355,33 +293,39 @@ function calculateProjectScores(responses: EngineerResponses): { A: number; B: n
     const matchCount = projectAnalysis.count + expAnalysis.count;
     const maxPossible = matchCount > 0 ? matchCount * 3 * 1.5 : 1;
 
-    return { ...scores, max: maxPossible };
+    return { ...scores, max: maxPossible, evidence: [...projectAnalysis.evidence, ...expAnalysis.evidence] };
 }
 
 /**
  * Calculate scenario response scores
  */
-function calculateScenarioScores(responses: EngineerResponses): { A: number; B: number; C: number; max: number } {
-    const analysis = analyzeTextForKeywords(responses.scenarioResponse || "");
-
-    // Additional scenario-specific analysis
-    const scenarioText = (responses.scenarioResponse || "").toLowerCase();
-
-    // Look for solution approach indicators
-    if (scenarioText.includes("dispenser") || scenarioText.includes("cart") || scenarioText.includes("device")) {
-        analysis.A += 3;
-    }
-    if (scenarioText.includes("system") || scenarioText.includes("reorganize") || scenarioText.includes("layout")) {
-        analysis.B += 3;
-    }
-    if (scenarioText.includes("app") || scenarioText.includes("notification") || scenarioText.includes("automat")) {
-        analysis.C += 3;
+function calculateScenarioScores(
+    responses: EngineerResponses,
+    model: ScoringModel
+): { A: number; B: number; C: number; max: number; evidence: KeywordEvidence[]; bonuses: ScenarioBonus[] } {
+    const scenarioText = responses.scenarioResponse || "";
+    const analysis = analyzeTextForKeywords(scenarioText, 'scenarioResponse', model);
+    const bonuses: ScenarioBonus[] = [];
+
+    // Look for solution approach indicators (first non-negated mention per domain)
+    for (const domain of ['A', 'B', 'C'] as const) {
+        const match = findKeywordMatches(scenarioText, SCENARIO_APPROACHES[domain]).find(m => !m.negated);
+        if (!match) continue;
+
+        analysis[domain] += SCENARIO_APPROACH_BONUS;
+        bonuses.push({
+            domain,
+            keyword: match.keyword,
+            text: match.text,
+            snippet: getSnippet(scenarioText, match.start, match.end),
+            points: SCENARIO_APPROACH_BONUS,
+        });
     }
 
     const matchCount = analysis.count || 1;
     const maxPossible = matchCount * 3 + 3; // +3 for the solution approach bonus
 
-    return { A: analysis.A, B: analysis.B, C: analysis.C, max: maxPossible };
+    return { A: analysis.A, B: analysis.B, C: analysis.C, max: maxPossible, evidence: analysis.evidence, bonuses };
 }
 
 // ============================================================================
@@ -391,20 +335,18 @@ function calculateScenarioScores(responses: EngineerResponses): { A: number; B:
 /**
  * Calculate domain recommendation from engineer responses
  */
-export function calculateDomainRecommendation(responses: EngineerResponses): DomainRecommendation {
+export function calculateDomainRecommendation(
+    responses: EngineerResponses,
+    model: ScoringModel = BUNDLED_SCORING_MODEL
+): DomainRecommendation {
     // === Calculate all component scores ===
-    const skillScores = calculateSkillScores(responses);
-    const personaScores = calculatePersonaScores(responses);
-    const projectScores = calculateProjectScores(responses);
-    const scenarioScores = calculateScenarioScores(responses);
-
-    // === Weight multipliers for each component ===
-    const WEIGHTS = {
-        skills: 2.0,    // Skills are the most important indicator
-        persona: 1.5,   // Work style gives strong signal
-        project: 1.0,   // Past projects provide evidence
-        scenario: 1.0,  // Scenario shows problem-solving approach
-    };
+    const skillScores = calculateSkillScores(responses, model);
+    const personaScores = calculatePersonaScores(responses, model);
+    const projectScores = calculateProjectScores(responses, model);
+    const scenarioScores = calculateScenarioScores(responses, model);
+
+    // === Weight multipliers for each component (skills, persona, project, scenario) ===
+    const WEIGHTS = model.weights;
 
     // === Calculate weighted totals for each domain ===
     const domainTotals = {
@@ -484,14 +426,32 @@ export function calculateDomainRecommendation(responses: EngineerResponses): Dom
         confidence = 'low';
     }
 
+    const contribution = (domain: 'A' | 'B' | 'C'): ComponentPoints => ({
+        skills: skillScores[domain] * WEIGHTS.skills,
+        persona: personaScores[domain] * WEIGHTS.persona,
+        project: projectScores[domain] * WEIGHTS.project,
+        scenario: scenarioScores[domain] * WEIGHTS.scenario,
+    });
+
+    const explanation: DomainExplanation = {
+        skills: skillScores.matched,
+        unmatchedSkills: skillScores.unmatched,
+        persona: personaScores.matched,
+        keywords: [...projectScores.evidence, ...scenarioScores.evidence],
+        scenarioBonuses: scenarioScores.bonuses,
+        contributions: { A: contribution('A'), B: contribution('B'), C: contribution('C') },
+    };
+
     // Generate reasoning
-    const reasoning = generateReasoning(recommended, allScores, responses, confidence);
+    const reasoning = generateReasoning(recommended, allScores, explanation, confidence);
 
     return {
         recommended,
         allScores,
         confidence,
         reasoning,
+        explanation,
+        modelVersion: model.version,
     };
 }
 
@@ -501,7 +461,7 @@ export function calculateDomainRecommendation(responses: EngineerResponses): Dom
 function generateReasoning(
     recommended: DomainScore,
     allScores: DomainScore[],
-    responses: EngineerResponses,
+    explanation: DomainExplanation,
     confidence: 'high' | 'medium' | 'low'
 ): string {
     const parts: string[] = [];
@@ -522,14 +482,33 @@ function generateReasoning(
         }
     }
 
-    if (breakdown.personaScore >= 4) {
-        parts.push(`Their work style persona aligns strongly with the ${recommended.domain === 'A' ? 'Builder' : recommended.domain === 'B' ? 'Analyst/Optimizer' : 'Coder/Developer'} archetype.`);
+    if (breakdown.personaScore >= breakdown.personaMax * 0.8) {
+        parts.push(`Their work style persona aligns strongly with the ${recommended.domain === 'A' ? 'Builder' : recommended.domain === 'B' ? 'Architect' : 'Coder'} archetype.`);
     }
 
     if (breakdown.projectScore > 3) {
         parts.push("Past project experience reinforces this direction.");
     }
 
+    // Cite the strongest answer evidence for the recommended domain
+    const domain = recommended.domain;
+    const cited = uniqueTexts([
+        ...explanation.keywords
+            .filter(e => e.status === 'scored' && e[domain] > 0)
+            .map(e => ({ text: e.text, points: e[domain] })),
+        ...explanation.scenarioBonuses
+            .filter(b => b.domain === domain)
+            .map(b => ({ text: b.text, points: b.points })),
+    ].sort((a, b) => b.points - a.points)).slice(0, 3);
+    if (cited.length > 0) {
+        parts.push(`Their answers mention ${formatList(cited)}.`);
+    }
+
+    const negated = uniqueTexts(explanation.keywords.filter(e => e.status === 'negated')).slice(0, 3);
+    if (negated.length > 0) {
+        parts.push(`Negated mentions (${formatList(negated)}) were not counted.`);
+    }
+
     // Add confidence caveat if needed
     if (confidence === 'low') {
         const gap = allScores[0].score - allScores[1].score;
@@ -541,6 +520,54 @@ function generateReasoning(
     return parts.join(" ");
 }
 
+// Quoted match texts, first occurrence of each (ignoring case)
+function uniqueTexts(matches: { text: string }[]): string[] {
+    const seen = new Set<string>();
+    const texts: string[] = [];
+    for (const e of matches) {
+        if (seen.has(e.text.toLowerCase())) continue;
+        seen.add(e.text.toLowerCase());
+        texts.push(`"${e.text}"`);
+    }
+    return texts;
+}
+
+function formatList(items: string[]): string {
+    return items.length > 1 ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}` : items[0];
+}
+
+// ============================================================================
+// APPLICATION MAPPING - Maps stored Engineering fields to EngineerResponses
+// ============================================================================
+
+function toOptionList(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) return value.map(String).filter(Boolean);
+    // Options contain commas themselves, so a stored string is a single choice
+    if (typeof value === "string" && value.trim()) return [value.trim()];
+    return undefined;
+}
+
+function toText(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+/**
+ * Build EngineerResponses from an Engineering application document
+ * (the fields written by the submit route, see lib/applications.ts)
+ */
+export function toEngineerResponses(fields: Record<string, unknown>): EngineerResponses {
+    return {
+        skillsGroupA: toOptionList(fields.group1),
+        skillsGroupB: toOptionList(fields.group2),
+        skillsGroupC: toOptionList(fields.group3),
+        skillsGlobal: toOptionList(fields.group4),
+        workStylePersona: toText(fields.workStyle),
+        handsOnProject: toText(fields.projects),
+        professionalExp: toText(fields.experience),
+        scenarioResponse: toText(fields.challengeAnswer),
+    };
+}
+
 // ============================================================================
 // RESPONSE PARSER - Maps form question labels to EngineerResponses
 // ============================================================================
@@ -0,0 +1,233 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getMajorsForFieldSet } from "@/lib/formFields";
+import { DomainId } from "@/lib/apiContracts";
+import { solveDomainAssignment, type DomainCounts } from "@/lib/domainAssignmentSolver";
+
+/**
+ * Domain assignment for accepted Engineering competitors.
+ *
+ * competitors/{uid}.domain           -> "A" | "B" | "C" (written on commit)
+ * competitors/{uid}.domainAssignedBy -> admin email (competitors can no longer pick their own domain)
+ * admin_audit_logs/{id}              -> one "assign_domain" entry per changed competitor
+ *
+ * An admin sets how many competitors each domain should take; the proposal
+ * gives every accepted competitor a domain so the total fit (their stored
+ * recommendation percentage for that domain) is as high as possible without
+ * exceeding any capacity (lib/domainAssignmentSolver.ts). Locked competitors keep the domain they were locked
+ * to. Proposals are not stored: the admin reviews one, adjusts locks and
+ * capacities, and commits the assignments they reviewed.
+ */
+
+const COMPETITORS_COLLECTION = "competitors";
+const AUDIT_COLLECTION = "admin_audit_logs";
+const DOMAINS = DomainId.options;
+
+// Each competitor is one update plus one audit entry, and a batch holds 500 writes
+const COMMIT_BATCH_SIZE = 250;
+
+export type { DomainCounts };
+
+export interface AssignmentCandidate {
+    uid: string;
+    name: string;
+    email: string;
+    currentDomain: DomainId | null;
+    recommended: DomainId;
+    fit: DomainCounts;  // Recommendation percentage per domain
+}
+
+export interface AssignmentRow extends AssignmentCandidate {
+    domain: DomainId | null;  // null when the capacities are too small for everyone
+    locked: boolean;
+}
+
+export interface AssignmentProposal {
+    rows: AssignmentRow[];
+    counts: DomainCounts;
+    totalFit: number;
+    // Accepted competitors without a stored recommendation (recompute first)
+    missingRecommendation: { uid: string; name: string; email: string }[];
+}
+
+export type ProposalResult =
+    | { ok: true; proposal: AssignmentProposal }
+    | { ok: false; reason: "locks_exceed_capacity"; domain: DomainId };
+
+export type CommitResult =
+    | { ok: true; assignmentId: string; updated: number; unchanged: number }
+    | { ok: false; reason: "not_accepted"; uids: string[] }
+    | { ok: false; reason: "over_capacity"; domain: DomainId };
+
+function toDomain(value: unknown): DomainId | null {
+    const parsed = DomainId.safeParse(value);
+    return parsed.success ? parsed.data : null;
+}
+
+// ============================================================================
+// PROPOSE
+// ============================================================================
+
+function acceptedEngineers(): admin.firestore.Query {
+    return adminDb
+        .collection(COMPETITORS_COLLECTION)
+        .where("major", "in", getMajorsForFieldSet("engineering"))
+        .where("status", "==", "Accepted");
+}
+
+export async function countAcceptedEngineers(): Promise<number> {
+    const snapshot = await acceptedEngineers().count().get();
+    return snapshot.data().count;
+}
+
+async function loadCandidates(): Promise<Pick<AssignmentProposal, "missingRecommendation"> & { candidates: AssignmentCandidate[] }> {
+    const snapshot = await acceptedEngineers().orderBy(admin.firestore.FieldPath.documentId()).get();
+    const candidates: AssignmentCandidate[] = [];
+    const missingRecommendation: AssignmentProposal["missingRecommendation"] = [];
+
+    for (const doc of snapshot.docs) {
+        const data = doc.data();
+        const person = { uid: doc.id, name: data.fullName || "", email: data.email || "" };
+        const recommendation = data.domainRecommendation;
+        if (!recommendation?.allScores) {
+            missingRecommendation.push(person);
+            continue;
+        }
+
+        const fit: DomainCounts = { A: 0, B: 0, C: 0 };
+        for (const score of recommendation.allScores) {
+            const domain = toDomain(score.domain);
+            if (domain) fit[domain] = score.percentage;
+        }
+
+        candidates.push({
+            ...person,
+            currentDomain: toDomain(data.domain),
+            recommended: toDomain(recommendation.recommended?.domain) ?? "A",
+            fit,
+        });
+    }
+
+    return { candidates, missingRecommendation };
+}
+
+/**
+ * Propose an assignment of every accepted Engineering competitor with a
+ * recommendation. With `keepExisting`, competitors who already have a domain
+ * (self-selected or committed earlier) are locked to it.
+ */
+export async function proposeDomainAssignment(options: {
+    capacities: DomainCounts;
+    locks?: Record<string, DomainId>;
+    keepExisting?: boolean;
+}): Promise<ProposalResult> {
+    const { candidates, missingRecommendation } = await loadCandidates();
+
+    const locks: Record<string, DomainId> = {};
+    for (const candidate of candidates) {
+        const lock = options.locks?.[candidate.uid] ?? (options.keepExisting ? candidate.currentDomain : null);
+        if (lock) locks[candidate.uid] = lock;
+    }
+
+    for (const domain of DOMAINS) {
+        const locked = Object.values(locks).filter(lock => lock === domain).length;
+        if (locked > options.capacities[domain]) return { ok: false, reason: "locks_exceed_capacity", domain };
+    }
+
+    const assignment = solveDomainAssignment(candidates, options.capacities, locks);
+    const rows = candidates.map(candidate => ({
+        ...candidate,
+        domain: assignment.get(candidate.uid) ?? null,
+        locked: candidate.uid in locks,
+    }));
+
+    const counts: DomainCounts = { A: 0, B: 0, C: 0 };
+    let totalFit = 0;
+    for (const row of rows) {
+        if (!row.domain) continue;
+        counts[row.domain]++;
+        totalFit += row.fit[row.domain];
+    }
+
+    return { ok: true, proposal: { rows, counts, totalFit, missingRecommendation } };
+}
+
+// ============================================================================
+// COMMIT
+// ============================================================================
+
+/**
+ * Write reviewed assignments to competitors/{uid}.domain, with one audit
+ * entry per changed competitor. Every uid must be an accepted Engineering
+ * competitor and no domain may exceed its capacity, counting the competitors
+ * not in `assignments` at their current domain.
+ */
+export async function commitDomainAssignment(
+    assignments: Record<string, DomainId>,
+    capacities: DomainCounts,
+    adminUser: { uid: string; email: string },
+    metadata: Record<string, string>
+): Promise<CommitResult> {
+    const snapshot = await acceptedEngineers().get();
+    const accepted = new Map(snapshot.docs.map(doc => [doc.id, doc]));
+    const notAccepted = Object.keys(assignments).filter(uid => !accepted.has(uid));
+    if (notAccepted.length > 0) return { ok: false, reason: "not_accepted", uids: notAccepted };
+
+    // Competitors left out of the assignments keep their current domain and still take a place
+    const counts: DomainCounts = { A: 0, B: 0, C: 0 };
+    for (const [uid, doc] of accepted) {
+        const domain = assignments[uid] ?? toDomain(doc.data().domain);
+        if (domain) counts[domain]++;
+    }
+    for (const domain of DOMAINS) {
+        if (counts[domain] > capacities[domain]) return { ok: false, reason: "over_capacity", domain };
+    }
+
+    const entries = Object.entries(assignments).map(([uid, domain]) => ({ doc: accepted.get(uid)!, domain }));
+    const changes = entries.filter(({ doc, domain }) => doc.data().domain !== domain);
+
+    const assignmentId = adminDb.collection(AUDIT_COLLECTION).doc().id;
+    const now = new Date().toISOString();
+
+    for (let i = 0; i < entries.length; i += COMMIT_BATCH_SIZE) {
+        const batch = adminDb.batch();
+        for (const { doc, domain } of entries.slice(i, i + COMMIT_BATCH_SIZE)) {
+            // Unchanged domains are still marked as assigned, so competitors can't change them afterwards
+            if (doc.data().domain === domain) {
+                if (!doc.data().domainAssignedBy) {
+                    batch.update(doc.ref, { domainAssignedBy: adminUser.email, domainAssignedAt: now });
+                }
+                continue;
+            }
+
+            batch.update(doc.ref, {
+                domain,
+                domainAssignedBy: adminUser.email,
+                domainAssignedAt: now,
+                updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+            batch.create(adminDb.collection(AUDIT_COLLECTION).doc(), {
+                action: "assign_domain",
+                adminUid: adminUser.uid,
+                adminEmail: adminUser.email,
+                targetCollection: COMPETITORS_COLLECTION,
+                targetUid: doc.id,
+                oldDomain: doc.data().domain || "",
+                newDomain: domain,
+                assignmentId,
+                timestamp: admin.firestore.FieldValue.serverTimestamp(),
+                timestampISO: now,
+                metadata,
+            });
+        }
+        await batch.commit();
+    }
+
+    return {
+        ok: true,
+        assignmentId,
+        updated: changes.length,
+        unchanged: Object.keys(assignments).length - changes.length,
+    };
+}
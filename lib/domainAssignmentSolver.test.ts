@@ -0,0 +1,79 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { solveDomainAssignment, type DomainCounts } from "./domainAssignmentSolver";
+import type { DomainId } from "./apiContracts";
+
+function candidate(uid: string, A: number, B: number, C: number) {
+    return { uid, fit: { A, B, C } };
+}
+
+function counts(assignment: Map<string, DomainId | null>): DomainCounts {
+    const result: DomainCounts = { A: 0, B: 0, C: 0 };
+    for (const domain of assignment.values()) {
+        if (domain) result[domain]++;
+    }
+    return result;
+}
+
+describe("solveDomainAssignment", () => {
+    test("gives everyone their best domain when capacity allows", () => {
+        const assignment = solveDomainAssignment(
+            [candidate("a", 90, 5, 5), candidate("b", 5, 90, 5), candidate("c", 5, 5, 90)],
+            { A: 3, B: 3, C: 3 }
+        );
+
+        assert.deepEqual(Object.fromEntries(assignment), { a: "A", b: "B", c: "C" });
+    });
+
+    test("never places more competitors in a domain than its capacity", () => {
+        const candidates = ["a", "b", "c", "d", "e"].map(uid => candidate(uid, 90, 50, 10));
+        const assignment = solveDomainAssignment(candidates, { A: 2, B: 2, C: 1 });
+
+        assert.deepEqual(counts(assignment), { A: 2, B: 2, C: 1 });
+    });
+
+    test("keeps locked competitors in their domain, even against their fit", () => {
+        const assignment = solveDomainAssignment(
+            [candidate("a", 90, 5, 5), candidate("b", 80, 20, 5)],
+            { A: 2, B: 2, C: 2 },
+            { a: "C" }
+        );
+
+        assert.equal(assignment.get("a"), "C");
+        assert.equal(assignment.get("b"), "A");
+    });
+
+    test("leaves competitors without a domain when the capacities run out", () => {
+        const assignment = solveDomainAssignment(
+            [candidate("a", 90, 5, 5), candidate("b", 80, 5, 5), candidate("c", 70, 5, 5)],
+            { A: 1, B: 1, C: 0 }
+        );
+
+        assert.equal([...assignment.values()].filter(domain => domain === null).length, 1);
+        assert.deepEqual(counts(assignment), { A: 1, B: 1, C: 0 });
+    });
+
+    test("leaves a locked competitor without a domain when their domain is full", () => {
+        const assignment = solveDomainAssignment(
+            [candidate("a", 90, 5, 5), candidate("b", 80, 5, 5)],
+            { A: 1, B: 1, C: 1 },
+            { a: "A", b: "A" }
+        );
+
+        assert.deepEqual([...assignment.values()].sort(), ["A", null]);
+    });
+
+    test("finds a higher total fit than picking each competitor's best free domain in turn", () => {
+        // Greedily, a takes A (90) and b is left with B (10): 100 in total
+        const assignment = solveDomainAssignment(
+            [candidate("a", 90, 80, 0), candidate("b", 85, 10, 0)],
+            { A: 1, B: 1, C: 0 }
+        );
+
+        assert.deepEqual(Object.fromEntries(assignment), { a: "B", b: "A" });
+    });
+
+    test("returns an empty assignment for no candidates", () => {
+        assert.equal(solveDomainAssignment([], { A: 1, B: 1, C: 1 }).size, 0);
+    });
+});
@@ -0,0 +1,139 @@
+import { DomainId } from "@/lib/apiContracts";
+
+/**
+ * Domain assignment solver
+ *
+ * Gives each competitor one of the domains so the total fit (their
+ * recommendation percentage per domain) is as high as possible without
+ * exceeding any domain's capacity. Locked competitors can only take the
+ * domain they are locked to. Pure, so it can be tested without Firestore;
+ * lib/domainAssignment.ts loads the candidates and commits the result.
+ */
+
+const DOMAINS = DomainId.options;
+
+export type DomainCounts = Record<DomainId, number>;
+
+
+interface Edge {
+    to: number;
+    capacity: number;
+    cost: number;
+    reverse: number;  // Index of the reverse edge in graph[to]
+}
+
+// Binary heap of [distance, node] pairs for Dijkstra
+class NodeQueue {
+    private items: [number, number][] = [];
+
+    get size() {
+        return this.items.length;
+    }
+
+    push(item: [number, number]) {
+        const items = this.items;
+        items.push(item);
+        for (let i = items.length - 1; i > 0;) {
+            const parent = (i - 1) >> 1;
+            if (items[parent][0] <= items[i][0]) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): [number, number] {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            for (let i = 0; ;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+                if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
+
+/**
+ * Maximum-fit assignment under per-domain capacities, as a min-cost flow:
+ * source -> competitor (1) -> domain (cost 100 - fit) -> sink (capacity).
+ * Competitors are placed while capacity lasts; the rest get null.
+ */
+export function solveDomainAssignment(
+    candidates: { uid: string; fit: DomainCounts }[],
+    capacities: DomainCounts,
+    locks: Record<string, DomainId> = {}
+): Map<string, DomainId | null> {
+    const n = candidates.length;
+    const source = 0;
+    const domainNode = (index: number) => n + 1 + index;
+    const sink = n + 4;
+    const graph: Edge[][] = Array.from({ length: n + 5 }, () => []);
+
+    const addEdge = (from: number, to: number, capacity: number, cost: number) => {
+        graph[from].push({ to, capacity, cost, reverse: graph[to].length });
+        graph[to].push({ to: from, capacity: 0, cost: -cost, reverse: graph[from].length - 1 });
+    };
+
+    candidates.forEach((candidate, i) => {
+        addEdge(source, i + 1, 1, 0);
+        const locked = locks[candidate.uid];
+        DOMAINS.forEach((domain, d) => {
+            if (locked && locked !== domain) return;
+            addEdge(i + 1, domainNode(d), 1, 100 - Math.max(0, Math.min(100, candidate.fit[domain])));
+        });
+    });
+    DOMAINS.forEach((domain, d) => addEdge(domainNode(d), sink, Math.max(0, capacities[domain]), 0));
+
+    // Successive shortest paths with potentials (all costs start non-negative)
+    const potential = new Array<number>(graph.length).fill(0);
+    while (true) {
+        const distance = new Array<number>(graph.length).fill(Infinity);
+        const previous = new Array<{ node: number; edge: number } | null>(graph.length).fill(null);
+        const queue = new NodeQueue();
+        distance[source] = 0;
+        queue.push([0, source]);
+
+        while (queue.size > 0) {
+            const [dist, node] = queue.pop();
+            if (dist > distance[node]) continue;
+
+            graph[node].forEach((edge, index) => {
+                if (edge.capacity <= 0) return;
+                const next = dist + edge.cost + potential[node] - potential[edge.to];
+                if (next < distance[edge.to]) {
+                    distance[edge.to] = next;
+                    previous[edge.to] = { node, edge: index };
+                    queue.push([next, edge.to]);
+                }
+            });
+        }
+
+        if (distance[sink] === Infinity) break;
+        for (let v = 0; v < graph.length; v++) {
+            if (distance[v] < Infinity) potential[v] += distance[v];
+        }
+
+        // Every path carries one competitor
+        for (let v = sink; v !== source; v = previous[v]!.node) {
+            const { node, edge } = previous[v]!;
+            graph[node][edge].capacity -= 1;
+            graph[v][graph[node][edge].reverse].capacity += 1;
+        }
+    }
+
+    const assignment = new Map<string, DomainId | null>();
+    candidates.forEach((candidate, i) => {
+        const used = graph[i + 1].find(edge => edge.to > n && edge.to < sink && edge.capacity === 0);
+        assignment.set(candidate.uid, used ? DOMAINS[used.to - n - 1] : null);
+    });
+    return assignment;
+}
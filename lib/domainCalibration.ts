@@ -0,0 +1,183 @@
+import { z } from "zod";
+import { DomainId, EngineerResponsesBody } from "./apiContracts";
+import type { ScoringModel } from "./scoringModel";
+import { calculateDomainRecommendation, type DomainRecommendation, type EngineerResponses } from "./domainAlgorithm";
+
+/**
+ * Domain algorithm calibration
+ *
+ * Compares calculateDomainRecommendation() with the domains organizers chose
+ * for past competitors: accuracy, a confusion matrix, accuracy per confidence
+ * level and the cases the algorithm gets most wrong. A weight sweep rescores
+ * the same answers with other component weights so a model can be tuned
+ * offline before it is published. Run through scripts/calibrate-domains.ts.
+ */
+
+// ============================================================================
+// DATASET
+// ============================================================================
+
+// One labeled case: a stored competitor (by uid) or raw answers, plus the organizers' domain
+export const LabeledCase = z.union([
+    z.object({ uid: z.string().trim().min(1), domain: DomainId }),
+    z.object({ id: z.string().trim().min(1).optional(), responses: EngineerResponsesBody, domain: DomainId }),
+]);
+export type LabeledCase = z.infer<typeof LabeledCase>;
+
+export interface LabeledResponses {
+    id: string;
+    domain: DomainId;
+    responses: EngineerResponses;
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+const DOMAINS = DomainId.options;
+const CONFIDENCE_LEVELS = ["high", "medium", "low"] as const;
+type Confidence = typeof CONFIDENCE_LEVELS[number];
+
+export interface CalibrationCase {
+    id: string;
+    label: DomainId;
+    predicted: DomainId;
+    confidence: Confidence;
+    percentages: Record<DomainId, number>;
+    // Points (percent of the maximum) the label trails the prediction by
+    margin: number;
+    reasoning: string;
+}
+
+export interface CalibrationReport {
+    total: number;
+    correct: number;
+    accuracy: number;
+    // confusion[label][predicted]
+    confusion: Record<DomainId, Record<DomainId, number>>;
+    byConfidence: Record<Confidence, { total: number; correct: number }>;
+    // Largest margin first
+    disagreements: CalibrationCase[];
+}
+
+function emptyRow(): Record<DomainId, number> {
+    return { A: 0, B: 0, C: 0 };
+}
+
+function toCase(entry: LabeledResponses, recommendation: DomainRecommendation): CalibrationCase {
+    const percentages = emptyRow();
+    for (const score of recommendation.allScores) percentages[score.domain] = score.percentage;
+
+    const predicted = recommendation.recommended.domain;
+    return {
+        id: entry.id,
+        label: entry.domain,
+        predicted,
+        confidence: recommendation.confidence,
+        percentages,
+        margin: percentages[predicted] - percentages[entry.domain],
+        reasoning: recommendation.reasoning,
+    };
+}
+
+export function calibrate(entries: LabeledResponses[], model: ScoringModel): CalibrationReport {
+    const confusion = { A: emptyRow(), B: emptyRow(), C: emptyRow() };
+    const byConfidence = { high: { total: 0, correct: 0 }, medium: { total: 0, correct: 0 }, low: { total: 0, correct: 0 } };
+    const disagreements: CalibrationCase[] = [];
+    let correct = 0;
+
+    for (const entry of entries) {
+        const result = toCase(entry, calculateDomainRecommendation(entry.responses, model));
+        const agrees = result.predicted === result.label;
+
+        confusion[result.label][result.predicted]++;
+        byConfidence[result.confidence].total++;
+        if (agrees) {
+            correct++;
+            byConfidence[result.confidence].correct++;
+        } else {
+            disagreements.push(result);
+        }
+    }
+
+    return {
+        total: entries.length,
+        correct,
+        accuracy: entries.length > 0 ? correct / entries.length : 0,
+        confusion,
+        byConfidence,
+        disagreements: disagreements.sort((a, b) => b.margin - a.margin),
+    };
+}
+
+// ============================================================================
+// WEIGHT SWEEP
+// ============================================================================
+
+type ComponentWeights = ScoringModel["weights"];
+const COMPONENTS = ["skills", "persona", "project", "scenario"] as const;
+
+// Each component weight is tried at these multiples of its current value
+export const SWEEP_FACTORS = [0, 0.5, 1, 1.5, 2];
+
+export interface WeightSweepResult {
+    weights: ComponentWeights;
+    changed: number;    // Components that differ from the model's weights
+    correct: number;
+    accuracy: number;
+}
+
+/**
+ * Accuracy for every combination of SWEEP_FACTORS applied to the model's
+ * component weights, best first (fewest changes first among ties). Component
+ * points don't depend on the weights, so each case is scored once.
+ */
+export function sweepWeights(
+    entries: LabeledResponses[],
+    model: ScoringModel,
+    factors: number[] = SWEEP_FACTORS
+): WeightSweepResult[] {
+    const unweighted = { ...model, weights: { skills: 1, persona: 1, project: 1, scenario: 1 } };
+    const points = entries.map(entry => ({
+        label: entry.domain,
+        contributions: calculateDomainRecommendation(entry.responses, unweighted).explanation.contributions,
+    }));
+
+    const combinations = COMPONENTS.reduce<number[][]>(
+        (combos) => combos.flatMap(combo => factors.map(factor => [...combo, factor])),
+        [[]]
+    );
+
+    const results: WeightSweepResult[] = [];
+    for (const combo of combinations) {
+        if (combo.every(factor => factor === 0)) continue;
+
+        const weights = Object.fromEntries(
+            COMPONENTS.map((component, i) => [component, model.weights[component] * combo[i]])
+        ) as ComponentWeights;
+
+        let correct = 0;
+        for (const { label, contributions } of points) {
+            // Same tie-break as the algorithm: the earlier domain wins
+            let predicted: DomainId = DOMAINS[0];
+            let best = -Infinity;
+            for (const domain of DOMAINS) {
+                const score = COMPONENTS.reduce((sum, component) => sum + contributions[domain][component] * weights[component], 0);
+                if (score > best) {
+                    best = score;
+                    predicted = domain;
+                }
+            }
+            if (predicted === label) correct++;
+        }
+
+        results.push({
+            weights,
+            changed: combo.filter(factor => factor !== 1).length,
+            correct,
+            accuracy: entries.length > 0 ? correct / entries.length : 0,
+        });
+    }
+
+    return results.sort((a, b) => b.correct - a.correct || a.changed - b.changed);
+}
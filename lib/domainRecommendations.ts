@@ -0,0 +1,205 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { getMajorsForFieldSet } from "@/lib/formFields";
+import type { ApplicationStatus } from "@/lib/apiContracts";
+import type { ScoringModel } from "@/lib/scoringModel";
+import { loadScoringModel } from "@/lib/scoringModelStore";
+import {
+    ALGORITHM_VERSION,
+    calculateDomainRecommendation,
+    toEngineerResponses,
+    type DomainRecommendation,
+    type EngineerResponses,
+} from "@/lib/domainAlgorithm";
+
+/**
+ * Domain recommendations for Engineering competitors.
+ *
+ * competitors/{uid}.domainRecommendation -> StoredDomainRecommendation
+ *
+ * Written by the submit route when an Engineering application is saved or
+ * edited, from its typed answers (group1..group4, workStyle, projects,
+ * experience, challengeAnswer). Recommendations computed by an older
+ * ALGORITHM_VERSION or scoring model version are recomputed in bulk by
+ * recomputeDomainRecommendations().
+ */
+
+const COMPETITORS_COLLECTION = "competitors";
+const RECOMPUTE_PAGE_SIZE = 200;
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface StoredDomainRecommendation extends DomainRecommendation {
+    algorithmVersion: number;
+    computedAt: string;
+}
+
+export interface EngineerRecommendation {
+    uid: string;
+    submittedAt: string;
+    email: string;
+    name: string;
+    major: string;
+    status: string;
+    recommendation: StoredDomainRecommendation | null;
+    // Stored by an older algorithm or model version (or missing) and waiting for a recompute
+    stale: boolean;
+    rawResponses: EngineerResponses;
+    // Admins who have reviewed the competitor (blind review, lib/blindReview.ts)
+    reviewerUids: string[];
+}
+
+export interface EngineerRecommendationPage {
+    submissions: EngineerRecommendation[];
+    total: number;
+    // Pass back as `cursor` for the next page; null on the last page
+    nextCursor: string | null;
+}
+
+function formatTimestamp(value: unknown): string {
+    if (value instanceof admin.firestore.Timestamp) return value.toDate().toISOString();
+    return typeof value === "string" ? value : "";
+}
+
+function engineeringCompetitors(): admin.firestore.Query {
+    return adminDb
+        .collection(COMPETITORS_COLLECTION)
+        .where("major", "in", getMajorsForFieldSet("engineering"));
+}
+
+function isCurrent(data: admin.firestore.DocumentData, modelVersion: number): boolean {
+    return data.domainRecommendation?.algorithmVersion === ALGORITHM_VERSION
+        && data.domainRecommendation?.modelVersion === modelVersion;
+}
+
+/**
+ * The recommendation to store on an Engineering application
+ * (model: the active one, from loadScoringModel())
+ */
+export function buildDomainRecommendation(fields: Record<string, unknown>, model: ScoringModel): StoredDomainRecommendation {
+    return {
+        ...calculateDomainRecommendation(toEngineerResponses(fields), model),
+        algorithmVersion: ALGORITHM_VERSION,
+        computedAt: new Date().toISOString(),
+    };
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * One page of Engineering competitors with their stored recommendation, in
+ * document ID order so pages stay stable while new applications arrive.
+ */
+export async function listEngineerRecommendations(options: {
+    status?: ApplicationStatus;
+    email?: string;
+    limit?: number;
+    cursor?: string;
+} = {}): Promise<EngineerRecommendationPage> {
+    const limit = Math.min(options.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    let query = engineeringCompetitors();
+    if (options.status) query = query.where("status", "==", options.status);
+    if (options.email) query = query.where("email", "==", options.email.toLowerCase());
+
+    let page = query.orderBy(admin.firestore.FieldPath.documentId()).limit(limit + 1);
+    if (options.cursor) page = page.startAfter(options.cursor);
+
+    const [snapshot, countSnapshot, model] = await Promise.all([page.get(), query.count().get(), loadScoringModel()]);
+    const docs = snapshot.docs.slice(0, limit);
+
+    return {
+        submissions: docs.map(doc => {
+            const data = doc.data();
+            return {
+                uid: doc.id,
+                submittedAt: formatTimestamp(data.submittedAt ?? data.timestamp),
+                email: data.email || "",
+                name: data.fullName || "",
+                major: data.majorType || data.major || "",
+                status: data.status || "pending",
+                recommendation: data.domainRecommendation ?? null,
+                stale: !isCurrent(data, model.version),
+                rawResponses: toEngineerResponses(data),
+                reviewerUids: data.reviewSummary?.reviewerUids ?? [],
+            };
+        }),
+        total: countSnapshot.data().count,
+        nextCursor: snapshot.docs.length > limit ? docs[docs.length - 1].id : null,
+    };
+}
+
+/**
+ * How many Engineering competitors have a recommendation from the current
+ * algorithm and scoring model
+ */
+export async function getRecommendationCoverage(): Promise<{
+    total: number;
+    current: number;
+    algorithmVersion: number;
+    modelVersion: number;
+}> {
+    const model = await loadScoringModel();
+    const [total, current] = await Promise.all([
+        engineeringCompetitors().count().get(),
+        engineeringCompetitors()
+            .where("domainRecommendation.algorithmVersion", "==", ALGORITHM_VERSION)
+            .where("domainRecommendation.modelVersion", "==", model.version)
+            .count()
+            .get(),
+    ]);
+
+    return {
+        total: total.data().count,
+        current: current.data().count,
+        algorithmVersion: ALGORITHM_VERSION,
+        modelVersion: model.version,
+    };
+}
+
+// ============================================================================
+// RECOMPUTE
+// ============================================================================
+
+/**
+ * Recompute stored recommendations that are missing or from an older
+ * algorithm or model version (every one with `force`). Only
+ * domainRecommendation is written, so updatedAt and the Sheets sync are left alone.
+ */
+export async function recomputeDomainRecommendations(
+    options: { force?: boolean } = {}
+): Promise<{ scanned: number; updated: number; modelVersion: number }> {
+    const model = await loadScoringModel();
+    let scanned = 0;
+    let updated = 0;
+    let cursor: admin.firestore.QueryDocumentSnapshot | undefined;
+
+    while (true) {
+        let page = engineeringCompetitors().orderBy(admin.firestore.FieldPath.documentId()).limit(RECOMPUTE_PAGE_SIZE);
+        if (cursor) page = page.startAfter(cursor);
+
+        const snapshot = await page.get();
+        if (snapshot.empty) break;
+
+        const batch = adminDb.batch();
+        let writes = 0;
+        for (const doc of snapshot.docs) {
+            const data = doc.data();
+            if (!options.force && isCurrent(data, model.version)) continue;
+
+            batch.update(doc.ref, { domainRecommendation: buildDomainRecommendation(data, model) });
+            writes++;
+        }
+        if (writes > 0) await batch.commit();
+
+        scanned += snapshot.size;
+        updated += writes;
+        cursor = snapshot.docs[snapshot.docs.length - 1];
+    }
+
+    return { scanned, updated, modelVersion: model.version };
+}
@@ -0,0 +1,59 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import type { FormType } from "@/lib/formFields";
+
+/**
+ * In-progress applications, saved by the form while the applicant types.
+ *
+ * drafts/{uid} -> one draft per account, removed once the application is submitted
+ *
+ * Responses are stored exactly as the form holds them (question id -> answer),
+ * so a draft is only meaningful for the form type it was written against.
+ */
+
+const DRAFTS_COLLECTION = "drafts";
+
+export interface ApplicationDraft {
+    type: FormType;
+    responses: Record<string, unknown>;
+    savedAt: string;
+}
+
+export async function saveDraft(
+    uid: string,
+    email: string,
+    type: FormType,
+    responses: Record<string, unknown>
+): Promise<string> {
+    const savedAt = new Date().toISOString();
+
+    await adminDb.collection(DRAFTS_COLLECTION).doc(uid).set({
+        uid,
+        email,
+        type,
+        responses,
+        savedAt,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return savedAt;
+}
+
+export async function loadDraft(uid: string, type: FormType): Promise<ApplicationDraft | null> {
+    const doc = await adminDb.collection(DRAFTS_COLLECTION).doc(uid).get();
+    if (!doc.exists) return null;
+
+    const data = doc.data()!;
+    if (data.type !== type) return null;
+
+    return {
+        type: data.type,
+        responses: data.responses || {},
+        savedAt: data.savedAt,
+    };
+}
+
+export async function deleteDraft(uid: string): Promise<void> {
+    await adminDb.collection(DRAFTS_COLLECTION).doc(uid).delete();
+}
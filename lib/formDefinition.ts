@@ -0,0 +1,200 @@
+/**
+ * Native form definitions
+ *
+ * First-party form schema, so the application form no longer depends on
+ * Google Forms as its system of record. Definitions are versioned JSON in
+ * lib/formDefinitions/<type>.json and can be overridden per environment by a
+ * form_definitions/{type} Firestore document with a higher version.
+ *
+ * flattenFormDefinition() turns a definition into the same FormData shape
+ * /api/forms serves for Google Forms, so CustomApplicationForm renders both.
+ * Every question's `field` is a field name from lib/formFields.ts, and native
+ * submissions are keyed by field name instead of Google Form entry ID.
+ *
+ * Select the engine with FORM_ENGINE=native (default: google).
+ */
+
+import competitorDefinition from "./formDefinitions/competitor.json";
+import attendeeDefinition from "./formDefinitions/attendee.json";
+import { FORM_FIELDS, FORM_TYPE_FIELD_SETS, type FormType } from "./formFields";
+import type { FormData, FormQuestion, FormQuestionType } from "./formTypes";
+import { getConditionFields, type VisibilityCondition } from "./formVisibility";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type FormEngine = "google" | "native";
+
+export interface FormDefinitionQuestion {
+    field: string;
+    type: Exclude<FormQuestionType, "section_header">;
+    label: string;
+    description?: string;
+    required: boolean;
+    options?: string[];
+    min?: number;
+    max?: number;
+    minLabel?: string;
+    maxLabel?: string;
+    rows?: { id: string, label: string }[];
+    columns?: string[];
+    placeholder?: string;
+    wordLimit?: number;
+    visibleWhen?: VisibilityCondition; // Combined with the section's condition
+}
+
+export interface FormDefinitionSection {
+    id: string;
+    title?: string; // Rendered as a section header when present
+    description?: string;
+    visibleWhen?: VisibilityCondition;
+    questions: FormDefinitionQuestion[];
+}
+
+export interface FormDefinition {
+    type: FormType;
+    version: number;
+    title: string;
+    description: string;
+    sections: FormDefinitionSection[];
+}
+
+// ============================================================================
+// BUNDLED DEFINITIONS
+// ============================================================================
+
+export const BUNDLED_FORM_DEFINITIONS: Record<FormType, FormDefinition> = {
+    competitor: competitorDefinition as FormDefinition,
+    attendee: attendeeDefinition as FormDefinition,
+};
+
+const CHOICE_TYPES: FormQuestionType[] = ["radio", "checkbox", "dropdown"];
+const GRID_TYPES: FormQuestionType[] = ["grid_radio", "grid_checkbox"];
+
+// A question is asked when both its own and its section's conditions hold
+const combineConditions = (section: FormDefinitionSection, question: FormDefinitionQuestion) =>
+    question.visibleWhen && section.visibleWhen
+        ? { all: [section.visibleWhen, question.visibleWhen] }
+        : question.visibleWhen ?? section.visibleWhen;
+
+/**
+ * The form engine configured for this environment
+ */
+export function getFormEngine(): FormEngine {
+    return process.env.FORM_ENGINE === "native" ? "native" : "google";
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a definition for mistakes that would lose or corrupt answers.
+ * Returns a list of problems (empty when the definition is usable).
+ */
+export function validateFormDefinition(definition: FormDefinition): string[] {
+    const problems: string[] = [];
+
+    if (!FORM_TYPE_FIELD_SETS[definition.type]) {
+        return [`Unknown form type '${definition.type}'`];
+    }
+    if (!Number.isInteger(definition.version) || definition.version < 1) {
+        problems.push("version must be a positive integer");
+    }
+
+    // Only registered fields are stored, so anything else would be silently dropped
+    const registeredFields = new Set(
+        FORM_TYPE_FIELD_SETS[definition.type].flatMap(set => Object.keys(FORM_FIELDS[set]))
+    );
+    const seenFields = new Set<string>();
+
+    const checkCondition = (where: string, condition?: VisibilityCondition) => {
+        for (const field of getConditionFields(condition)) {
+            if (!seenFields.has(field)) {
+                problems.push(`${where}: visibleWhen refers to '${field}', which is not asked earlier`);
+            }
+        }
+    };
+
+    for (const section of definition.sections) {
+        checkCondition(`Section '${section.id}'`, section.visibleWhen);
+
+        for (const question of section.questions) {
+            const where = `Question '${question.field}' in section '${section.id}'`;
+
+            if (!registeredFields.has(question.field)) {
+                problems.push(`${where}: field is not registered in lib/formFields.ts`);
+            }
+            checkCondition(where, question.visibleWhen);
+            if (CHOICE_TYPES.includes(question.type) && !question.options?.length) {
+                problems.push(`${where}: ${question.type} questions need options`);
+            }
+            if (GRID_TYPES.includes(question.type) && (!question.rows?.length || !question.columns?.length)) {
+                problems.push(`${where}: grid questions need rows and columns`);
+            }
+            if (question.wordLimit !== undefined && question.type !== "paragraph" && question.type !== "short_answer") {
+                problems.push(`${where}: wordLimit only applies to text questions`);
+            }
+
+            seenFields.add(question.field);
+        }
+    }
+
+    // The same field may appear once per track, but never twice on the same path
+    const fieldConditions = new Map<string, Set<string>>();
+    for (const section of definition.sections) {
+        for (const question of section.questions) {
+            const condition = JSON.stringify(combineConditions(section, question) ?? null);
+            const conditions = fieldConditions.get(question.field) || new Set<string>();
+            if (conditions.has(condition)) {
+                problems.push(`Field '${question.field}' is asked more than once under the same condition`);
+            }
+            conditions.add(condition);
+            fieldConditions.set(question.field, conditions);
+        }
+    }
+
+    return problems;
+}
+
+// ============================================================================
+// FLATTENING
+// ============================================================================
+
+/**
+ * Flatten a definition into the FormData shape rendered by CustomApplicationForm
+ */
+export function flattenFormDefinition(definition: FormDefinition): FormData {
+    const questions: FormQuestion[] = [];
+
+    for (const section of definition.sections) {
+        if (section.title) {
+            questions.push({
+                id: `section_${section.id}`,
+                type: "section_header",
+                label: section.title,
+                description: section.description,
+                required: false,
+                visibleWhen: section.visibleWhen,
+            });
+        }
+
+        section.questions.forEach((question, index) => {
+            questions.push({
+                ...question,
+                // Fields repeat across tracks, so keep React keys unique per section
+                id: `${section.id}_${index}_${question.field}`,
+                visibleWhen: combineConditions(section, question),
+            });
+        });
+    }
+
+    return {
+        title: definition.title,
+        description: definition.description,
+        questions,
+        source: "native",
+        version: definition.version,
+    };
+}
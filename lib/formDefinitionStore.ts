@@ -0,0 +1,39 @@
+import "server-only";
+import { BUNDLED_FORM_DEFINITIONS, validateFormDefinition, type FormDefinition } from "@/lib/formDefinition";
+import type { FormType } from "@/lib/formFields";
+
+/**
+ * Loads the native form definition for a form type.
+ *
+ * form_definitions/{type} -> optional override of the bundled JSON definition
+ *
+ * The stored document wins only when its version is newer and it passes
+ * validation; otherwise the bundled definition is served.
+ */
+
+const DEFINITIONS_COLLECTION = "form_definitions";
+
+export async function loadFormDefinition(type: FormType): Promise<FormDefinition> {
+    const bundled = BUNDLED_FORM_DEFINITIONS[type];
+
+    try {
+        // Imported lazily so the bundled definition still loads without Firebase credentials
+        const { adminDb } = await import("@/lib/firebaseAdmin");
+        const doc = await adminDb.collection(DEFINITIONS_COLLECTION).doc(type).get();
+        if (!doc.exists) return bundled;
+
+        const stored = { ...doc.data(), type } as FormDefinition;
+        if (stored.version <= bundled.version) return bundled;
+
+        const problems = validateFormDefinition(stored);
+        if (problems.length > 0) {
+            console.error(`Ignoring invalid stored '${type}' form definition v${stored.version}:`, problems);
+            return bundled;
+        }
+
+        return stored;
+    } catch (error) {
+        console.warn(`Could not load stored '${type}' form definition, using bundled v${bundled.version}:`, error);
+        return bundled;
+    }
+}
@@ -0,0 +1,216 @@
+/**
+ * Google Form field registry
+ *
+ * Single source of truth for the mapping between semantic field names
+ * (fullName, university, group1, challenge1...) and the numeric Google Form
+ * entry IDs used in submissions. Validators, Firestore writes and the Sheets
+ * row builder all resolve answers through this file, so when the Google Form
+ * is edited only the IDs below need to change. Each field also carries its
+ * validation rules, shared by the client and server validators.
+ *
+ * Run `npm run check:form-fields` to verify every registered entry ID still
+ * exists on the live form. It reads the live form, so it runs as its own
+ * step (CI or before a release) rather than as part of `npm run build`.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type FormType = "attendee" | "competitor";
+
+export type FieldPattern = "name" | "email" | "phone" | "url";
+
+// How a submission payload is keyed: Google Form entry IDs or native field names
+export type ResponseKeyStyle = "entryId" | "field";
+
+// Validation rules applied to a field wherever it is asked (see lib/formValidation.ts).
+// Option whitelists come from the form schema itself.
+export interface FieldRules {
+    required?: boolean;   // Overrides the schema's required flag
+    pattern?: FieldPattern;
+    minLength?: number;   // Characters
+    maxLength?: number;   // Characters
+    wordLimit?: number;
+}
+
+export interface FieldSpec {
+    entryId: string;  // Google Form entry ID (the number after "entry.")
+    label: string;    // Human-readable label, used for Sheets headers
+    rules?: FieldRules;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const NAME_RULES: FieldRules = { required: true, pattern: "name", minLength: 2, maxLength: 100 };
+
+// Personal details shared by both competitor tracks (asked before the major question)
+const COMPETITOR_SHARED_FIELDS = {
+    fullName: { entryId: "1706880442", label: "Full Name", rules: NAME_RULES },
+    university: { entryId: "805706027", label: "University", rules: NAME_RULES },
+    universityEmail: { entryId: "464604082", label: "University Email", rules: { required: true, pattern: "email", maxLength: 254 } },
+    contactNo: { entryId: "1329997643", label: "Phone Number", rules: { required: true, pattern: "phone" } },
+    nationality: { entryId: "492691881", label: "Nationality", rules: { ...NAME_RULES, maxLength: 50 } },
+    emiratesID: { entryId: "1368274746", label: "Emirates ID/Passport ID", rules: { required: true, minLength: 5, maxLength: 18 } },
+    major: { entryId: "563534208", label: "Major", rules: { required: true } },
+} satisfies Record<string, FieldSpec>;
+
+export const FORM_FIELDS = {
+    attendee: {
+        fullName: { entryId: "1706880442", label: "Full Name", rules: NAME_RULES },
+        email: { entryId: "464604082", label: "Email", rules: { required: true, pattern: "email", maxLength: 254 } },
+        contactNo: { entryId: "1329997643", label: "Phone Number", rules: { pattern: "phone" } },
+        nationality: { entryId: "492691881", label: "Nationality", rules: { ...NAME_RULES, maxLength: 50 } },
+        emiratesID: { entryId: "1368274746", label: "Emirates ID/Passport ID", rules: { minLength: 5, maxLength: 18 } },
+        major: { entryId: "1740303904", label: "Major and Year of Study", rules: { required: true, minLength: 2, maxLength: 100 } },
+    },
+    engineering: {
+        ...COMPETITOR_SHARED_FIELDS,
+        majorType: { entryId: "1921732712", label: "Engineering Major", rules: NAME_RULES },
+        year: { entryId: "2106989264", label: "Year of Study", rules: { required: true } },
+        linkedIn: { entryId: "1706787055", label: "LinkedIn Profile", rules: { required: false, pattern: "url" } },
+        googleDrive: { entryId: "979885116", label: "Portfolio / Previous Projects", rules: { required: true, pattern: "url" } },
+        // The Technical Toolkit groups are optional: applicants tick only what they know
+        group1: { entryId: "2005954606", label: "Group 1: Physical Systems (Domain A)", rules: { required: false } },
+        group2: { entryId: "909777607", label: "Group 2: Systems & Operations (Domain B)", rules: { required: false } },
+        group3: { entryId: "1618805851", label: "Group 3: Digital & Intelligence (Domain C)", rules: { required: false } },
+        group4: { entryId: "342956899", label: "Group 4: Project Management (Global Skills)", rules: { required: false } },
+        workStyle: { entryId: "1475281755", label: "Work Style Persona", rules: { required: true } },
+        projects: { entryId: "1889236055", label: "Hands-on Project", rules: { required: true, wordLimit: 100 } },
+        experience: { entryId: "913830966", label: "Professional / Internship Experience", rules: { required: true, wordLimit: 200 } },
+        challengeAnswer: { entryId: "1822551769", label: "Engineering Logic Test", rules: { required: true, wordLimit: 500 } },
+    },
+    medicine: {
+        ...COMPETITOR_SHARED_FIELDS,
+        majorType: { entryId: "1945900292", label: "Medicine/Healthcare Major", rules: NAME_RULES },
+        year: { entryId: "257116715", label: "Year of Study", rules: { required: true } },
+        skillSet: { entryId: "697380523", label: "Strongest Asset", rules: { required: true } },
+        linkedIn: { entryId: "1745529891", label: "LinkedIn Profile", rules: { required: false, pattern: "url" } },
+        resume: { entryId: "2111396898", label: "Resume", rules: { required: false, pattern: "url" } },
+        googleDrive: { entryId: "934276771", label: "Portfolio / Personal Projects", rules: { required: true, pattern: "url" } },
+        challenge1: { entryId: "1644031809", label: "The Clinical Efficiency Challenge", rules: { required: true, wordLimit: 200 } },
+        challenge2: { entryId: "1176839290", label: "The Data Paradox", rules: { required: true, wordLimit: 200 } },
+        enthusiasmCheck: { entryId: "1213229623", label: "Enthusiasm Check", rules: { required: true, wordLimit: 100 } },
+        collaborativeSpirit: { entryId: "1628051962", label: "Collaborative Spirit", rules: { required: true, wordLimit: 100 } },
+    },
+} satisfies Record<string, Record<string, FieldSpec>>;
+
+export type FieldSet = keyof typeof FORM_FIELDS;
+export type FieldName<S extends FieldSet> = keyof typeof FORM_FIELDS[S] & string;
+export type FieldValues<S extends FieldSet> = Record<FieldName<S>, unknown>;
+
+// Field sets stored from each Google Form
+export const FORM_TYPE_FIELD_SETS: Record<FormType, FieldSet[]> = {
+    attendee: ["attendee"],
+    competitor: ["engineering", "medicine"],
+};
+
+// Competitor majors and the field set each one is stored with
+const MAJOR_FIELD_SETS: Record<string, FieldSet> = {
+    Engineering: "engineering",
+    Medicine: "medicine",
+    Healthcare: "medicine", // Healthcare is stored the same way as Medicine
+};
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Get the entry ID registered for a field
+ */
+export function getEntryId<S extends FieldSet>(set: S, field: FieldName<S>): string {
+    return (FORM_FIELDS[set] as Record<string, FieldSpec>)[field].entryId;
+}
+
+/**
+ * Validation rules for a field of a form (first field set that registers it)
+ */
+export function getFieldRules(type: FormType, field: string): FieldRules | undefined {
+    for (const set of FORM_TYPE_FIELD_SETS[type]) {
+        const spec = (FORM_FIELDS[set] as Record<string, FieldSpec>)[field];
+        if (spec) return spec.rules;
+    }
+    return undefined;
+}
+
+/**
+ * List the registered fields of a field set, in registry order
+ */
+export function getFieldSpecs<S extends FieldSet>(set: S): [FieldName<S>, FieldSpec][] {
+    return Object.entries(FORM_FIELDS[set]) as [FieldName<S>, FieldSpec][];
+}
+
+/**
+ * Decide which field set a submission belongs to.
+ * Returns null for competitor submissions with an unknown major.
+ */
+export function resolveFieldSet(type: FormType, responses: Record<string, unknown>): FieldSet | null {
+    if (type === "attendee") return "attendee";
+
+    const major = responses[getEntryId("engineering", "major")] ?? responses.major;
+    return typeof major === "string" ? MAJOR_FIELD_SETS[major] ?? null : null;
+}
+
+/**
+ * Majors whose competitor submissions are stored with a field set
+ */
+export function getMajorsForFieldSet(set: FieldSet): string[] {
+    return Object.keys(MAJOR_FIELD_SETS).filter(major => MAJOR_FIELD_SETS[major] === set);
+}
+
+/**
+ * Map a payload to semantic field names. Google Form payloads are keyed by
+ * entry ID, native form payloads by field name; only the style the payload was
+ * validated in is read, so an answer under the other key can't slip past validation.
+ * Missing answers come back as undefined so callers can choose their own defaults.
+ */
+export function extractFields<S extends FieldSet>(
+    set: S,
+    responses: Record<string, unknown>,
+    keyedBy: ResponseKeyStyle
+): FieldValues<S> {
+    const values = {} as FieldValues<S>;
+    for (const [field, spec] of getFieldSpecs(set)) {
+        values[field] = responses[keyedBy === "entryId" ? spec.entryId : field];
+    }
+    return values;
+}
+
+/**
+ * Re-key a payload from field names to Google Form entry IDs, for exporting
+ * native submissions. Entry ID keys pass through; unregistered names are dropped.
+ */
+export function toEntryIdResponses(set: FieldSet, responses: Record<string, unknown>): Record<string, unknown> {
+    const specs = FORM_FIELDS[set] as Record<string, FieldSpec>;
+    const mapped: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(responses)) {
+        // Keep suffixes such as ".other_option_response"
+        const [name, ...suffix] = key.split(".");
+        if (specs[name]) {
+            mapped[[specs[name].entryId, ...suffix].join(".")] = value;
+        } else if (/^\d+$/.test(name)) {
+            mapped[key] = value;
+        }
+    }
+
+    return mapped;
+}
+
+/**
+ * Every entry ID registered for a Google Form, with the fields that use it
+ */
+export function getRegisteredEntryIds(type: FormType): Map<string, string[]> {
+    const ids = new Map<string, string[]>();
+    for (const set of FORM_TYPE_FIELD_SETS[type]) {
+        for (const [field, spec] of getFieldSpecs(set)) {
+            const usages = ids.get(spec.entryId) || [];
+            usages.push(`${set}.${field}`);
+            ids.set(spec.entryId, usages);
+        }
+    }
+    return ids;
+}
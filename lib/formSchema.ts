@@ -0,0 +1,71 @@
+import "server-only";
+import { getPublicEntryIds, normalizeForm } from "@/lib/google-forms";
+import { getFormSource, type FormSource } from "@/lib/formSource";
+import { flattenFormDefinition, getFormEngine } from "@/lib/formDefinition";
+import { loadFormDefinition } from "@/lib/formDefinitionStore";
+import { annotateVisibility } from "@/lib/formVisibility";
+import { applyFieldRules } from "@/lib/formValidation";
+import type { FormType } from "@/lib/formFields";
+import type { FormData } from "@/lib/formTypes";
+
+/**
+ * The form schema applicants are shown, for server-side use.
+ *
+ * /api/forms serves it and the submit route validates against it, so both go
+ * through prepareFormSchema() to get the same visibility conditions and rules.
+ */
+
+export function getGoogleFormIds(type: FormType): { formId?: string; publishedId?: string } {
+    return type === "attendee"
+        ? { formId: process.env.ATTENDEE_FORM_ID, publishedId: process.env.ATTENDEE_FORM_PUBLISHED_ID }
+        : { formId: process.env.GOOGLE_FORM_ID, publishedId: process.env.GOOGLE_FORM_PUBLISHED_ID };
+}
+
+/**
+ * Attach visibility conditions (Google Forms only; native definitions declare
+ * their own) and the field registry's validation rules
+ */
+export function prepareFormSchema(type: FormType, formData: FormData): FormData {
+    const annotated = formData.source === "native" ? formData : annotateVisibility(type, formData);
+    return { ...annotated, questions: applyFieldRules(type, annotated.questions) };
+}
+
+/**
+ * Fetch and normalize the Google Form, without visibility or rules attached
+ */
+export async function fetchGoogleFormData(type: FormType, source: FormSource = getFormSource()): Promise<FormData> {
+    const { formId, publishedId } = getGoogleFormIds(type);
+    if (!formId || !publishedId) {
+        throw new Error(`Form configuration for '${type}' not found`);
+    }
+
+    const [entryIdMap, form] = await Promise.all([
+        getPublicEntryIds(publishedId, source),
+        source.getForm(formId),
+    ]);
+    return normalizeForm(form, entryIdMap);
+}
+
+/**
+ * Load the prepared schema for a form type.
+ *
+ * - native engine: the active form definition
+ * - google engine: the latest accepted snapshot (what /api/forms last served),
+ *   falling back to a live fetch when there is none
+ */
+export async function loadFormSchema(type: FormType): Promise<FormData> {
+    if (getFormEngine() === "native") {
+        return prepareFormSchema(type, flattenFormDefinition(await loadFormDefinition(type)));
+    }
+
+    try {
+        // Imported lazily so fixture-based development works without Firebase
+        const { getLatestSnapshot } = await import("@/lib/formSnapshots");
+        const snapshot = await getLatestSnapshot(type);
+        if (snapshot) return prepareFormSchema(type, snapshot.formData);
+    } catch (error) {
+        console.warn(`Could not read '${type}' form snapshot, fetching the live form:`, error);
+    }
+
+    return prepareFormSchema(type, await fetchGoogleFormData(type));
+}
@@ -0,0 +1,165 @@
+/**
+ * Form schema drift detection
+ *
+ * Compares two normalized FormData schemas (the last snapshot and a fresh
+ * fetch from Google Forms) and reports what changed. Questions are matched by
+ * Entry ID first, since IDs survive title edits, then by label.
+ */
+
+import type { FormData, FormQuestion } from "./google-forms";
+import { getRegisteredEntryIds, type FormType } from "./formFields";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface QuestionRef {
+    label: string;
+    entryId: string; // Empty when the question had no Entry ID
+    type: string;
+}
+
+export interface FormSchemaDiff {
+    added: QuestionRef[];
+    removed: QuestionRef[];
+    renamed: { entryId: string; from: string; to: string }[];
+    optionsChanged: { label: string; added: string[]; removed: string[] }[];
+    lostEntryIds: { label: string; entryId: string }[];
+    hasChanges: boolean;
+}
+
+export interface UnresolvedEntryId {
+    entryId: string;
+    label: string;
+    reason: "missing_from_form" | "required_without_entry_id";
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const toRef = (q: FormQuestion): QuestionRef => ({
+    label: q.label,
+    entryId: q.entryId || "",
+    type: q.type,
+});
+
+// Entry IDs that can actually be submitted (grid containers are placeholders)
+const hasRealEntryId = (q: FormQuestion) => !!q.entryId && q.entryId !== "grid_container";
+
+/**
+ * Canonical, order-preserving projection of a schema used for hashing.
+ * Random React keys (fallback_, row_, header_) are deliberately excluded.
+ */
+export function canonicalizeSchema(formData: FormData) {
+    return formData.questions.map(q => ({
+        type: q.type,
+        label: q.label,
+        entryId: q.entryId || "",
+        required: q.required,
+        options: q.options || [],
+        rows: (q.rows || []).map(r => ({ label: r.label, entryId: r.entryId || "" })),
+        columns: q.columns || [],
+    }));
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Diff a previous schema snapshot against a freshly fetched one
+ */
+export function diffFormSchemas(previous: FormData, next: FormData): FormSchemaDiff {
+    const diff: FormSchemaDiff = {
+        added: [],
+        removed: [],
+        renamed: [],
+        optionsChanged: [],
+        lostEntryIds: [],
+        hasChanges: false,
+    };
+
+    const prevQuestions = previous.questions.filter(q => q.type !== "section_header");
+    const nextQuestions = next.questions.filter(q => q.type !== "section_header");
+    const matchedPrev = new Set<FormQuestion>();
+
+    for (const nextQ of nextQuestions) {
+        // 1. Match by Entry ID (stable across title edits)
+        let prevQ = hasRealEntryId(nextQ)
+            ? prevQuestions.find(p => !matchedPrev.has(p) && p.entryId === nextQ.entryId)
+            : undefined;
+
+        // 2. Fall back to label matching
+        if (!prevQ) {
+            prevQ = prevQuestions.find(p => !matchedPrev.has(p) && p.label.trim() === nextQ.label.trim());
+        }
+
+        if (!prevQ) {
+            diff.added.push(toRef(nextQ));
+            continue;
+        }
+        matchedPrev.add(prevQ);
+
+        if (prevQ.label.trim() !== nextQ.label.trim() && nextQ.entryId) {
+            diff.renamed.push({ entryId: nextQ.entryId, from: prevQ.label, to: nextQ.label });
+        }
+
+        if (hasRealEntryId(prevQ) && !hasRealEntryId(nextQ)) {
+            diff.lostEntryIds.push({ label: nextQ.label, entryId: prevQ.entryId! });
+        }
+
+        // Grid rows can lose their IDs independently of the container
+        for (const prevRow of prevQ.rows || []) {
+            const nextRow = nextQ.rows?.find(r => r.label === prevRow.label);
+            if (prevRow.entryId && !nextRow?.entryId) {
+                diff.lostEntryIds.push({ label: `${nextQ.label} [${prevRow.label}]`, entryId: prevRow.entryId });
+            }
+        }
+
+        const prevOptions = prevQ.options || [];
+        const nextOptions = nextQ.options || [];
+        const addedOptions = nextOptions.filter(o => !prevOptions.includes(o));
+        const removedOptions = prevOptions.filter(o => !nextOptions.includes(o));
+        if (addedOptions.length > 0 || removedOptions.length > 0) {
+            diff.optionsChanged.push({ label: nextQ.label, added: addedOptions, removed: removedOptions });
+        }
+    }
+
+    diff.removed = prevQuestions.filter(p => !matchedPrev.has(p)).map(toRef);
+
+    diff.hasChanges =
+        diff.added.length > 0 ||
+        diff.removed.length > 0 ||
+        diff.renamed.length > 0 ||
+        diff.optionsChanged.length > 0 ||
+        diff.lostEntryIds.length > 0;
+
+    return diff;
+}
+
+/**
+ * Find Entry IDs the application depends on that the schema no longer provides:
+ * registered fields missing from the form, and required questions with no Entry ID.
+ */
+export function findUnresolvedEntryIds(type: FormType, formData: FormData): UnresolvedEntryId[] {
+    const unresolved: UnresolvedEntryId[] = [];
+    const presentIds = new Set<string>();
+
+    for (const q of formData.questions) {
+        if (hasRealEntryId(q)) presentIds.add(q.entryId!);
+        q.rows?.forEach(r => r.entryId && presentIds.add(r.entryId));
+
+        if (q.required && q.type !== "section_header" && !q.rows && !hasRealEntryId(q)) {
+            unresolved.push({ entryId: "", label: q.label, reason: "required_without_entry_id" });
+        }
+    }
+
+    for (const [entryId, usages] of getRegisteredEntryIds(type)) {
+        if (!presentIds.has(entryId)) {
+            unresolved.push({ entryId, label: usages.join(", "), reason: "missing_from_form" });
+        }
+    }
+
+    return unresolved;
+}
@@ -0,0 +1,163 @@
+import "server-only";
+import crypto from "crypto";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import type { FormData } from "@/lib/google-forms";
+import type { FormType } from "@/lib/formFields";
+import { canonicalizeSchema, diffFormSchemas, type FormSchemaDiff, type UnresolvedEntryId } from "@/lib/formSchemaDiff";
+
+/**
+ * Versioned snapshots of the normalized form schema served by /api/forms.
+ *
+ * form_snapshots/{type}                    -> latest accepted snapshot
+ * form_snapshots/{type}/versions/{version} -> full history
+ * form_schema_drift/{type}_{hash}          -> one report per distinct drifted schema
+ */
+
+const SNAPSHOTS_COLLECTION = "form_snapshots";
+const DRIFT_COLLECTION = "form_schema_drift";
+
+export interface FormSnapshot {
+    type: FormType;
+    version: number;
+    hash: string;
+    formData: FormData;
+}
+
+export interface FormDriftReport {
+    id: string;
+    type: FormType;
+    fromVersion: number | null;
+    toVersion: number | null;
+    hash: string;
+    diff: FormSchemaDiff | null;
+    unresolved: UnresolvedEntryId[];
+    blocked: boolean;
+    detectedAt: string;
+}
+
+export function hashFormSchema(formData: FormData): string {
+    return crypto
+        .createHash("sha256")
+        .update(JSON.stringify(canonicalizeSchema(formData)))
+        .digest("hex");
+}
+
+export async function getLatestSnapshot(type: FormType): Promise<FormSnapshot | null> {
+    const doc = await adminDb.collection(SNAPSHOTS_COLLECTION).doc(type).get();
+    if (!doc.exists) return null;
+
+    const data = doc.data()!;
+    return {
+        type,
+        version: data.version,
+        hash: data.hash,
+        formData: data.formData,
+    };
+}
+
+/**
+ * Compare a freshly fetched schema against the latest snapshot.
+ *
+ * - Unchanged schemas are a no-op.
+ * - Schemas with unresolved Entry IDs are never promoted to a snapshot; a
+ *   blocked drift report is written instead so admins can see why.
+ * - Any other change becomes a new snapshot version plus a drift report.
+ */
+export async function recordFormSnapshot(
+    type: FormType,
+    formData: FormData,
+    unresolved: UnresolvedEntryId[]
+): Promise<{ version: number | null; diff: FormSchemaDiff | null }> {
+    const hash = hashFormSchema(formData);
+    const latest = await getLatestSnapshot(type);
+
+    if (latest && latest.hash === hash) {
+        return { version: latest.version, diff: null };
+    }
+
+    const diff = latest ? diffFormSchemas(latest.formData, formData) : null;
+    // Firestore rejects undefined values, so store a plain JSON copy of the schema
+    const storedFormData = JSON.parse(JSON.stringify(formData));
+    const blocked = unresolved.length > 0;
+    const now = new Date().toISOString();
+
+    const driftRef = adminDb.collection(DRIFT_COLLECTION).doc(`${type}_${hash.substring(0, 16)}`);
+
+    if (blocked) {
+        await driftRef.set({
+            type,
+            fromVersion: latest?.version ?? null,
+            toVersion: null,
+            hash,
+            diff,
+            unresolved,
+            blocked: true,
+            detectedAt: now,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        }, { merge: true });
+        return { version: latest?.version ?? null, diff };
+    }
+
+    const version = (latest?.version ?? 0) + 1;
+    const snapshotRef = adminDb.collection(SNAPSHOTS_COLLECTION).doc(type);
+    const batch = adminDb.batch();
+
+    batch.set(snapshotRef, {
+        type,
+        version,
+        hash,
+        formData: storedFormData,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    batch.set(snapshotRef.collection("versions").doc(String(version)), {
+        version,
+        hash,
+        formData: storedFormData,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    // The very first snapshot has nothing to drift from
+    if (diff?.hasChanges) {
+        batch.set(driftRef, {
+            type,
+            fromVersion: latest!.version,
+            toVersion: version,
+            hash,
+            diff,
+            unresolved: [],
+            blocked: false,
+            detectedAt: now,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        });
+    }
+
+    await batch.commit();
+    return { version, diff };
+}
+
+export async function getRecentDriftReports(type?: FormType, limit = 10): Promise<FormDriftReport[]> {
+    // Drift reports are rare, so filter by type and sort in memory instead of
+    // requiring a composite (type, detectedAt) index
+    const snapshot = type
+        ? await adminDb.collection(DRIFT_COLLECTION).where("type", "==", type).get()
+        : await adminDb.collection(DRIFT_COLLECTION).orderBy("detectedAt", "desc").limit(limit).get();
+
+    return snapshot.docs
+        .map(doc => {
+            const data = doc.data();
+            return {
+                id: doc.id,
+                type: data.type,
+                fromVersion: data.fromVersion ?? null,
+                toVersion: data.toVersion ?? null,
+                hash: data.hash,
+                diff: data.diff ?? null,
+                unresolved: data.unresolved || [],
+                blocked: data.blocked === true,
+                detectedAt: data.detectedAt,
+            } as FormDriftReport;
+        })
+        .sort((a, b) => b.detectedAt.localeCompare(a.detectedAt))
+        .slice(0, limit);
+}
@@ -0,0 +1,95 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { google, type forms_v1 } from "googleapis";
+
+/**
+ * Form sources
+ *
+ * Everything the registration flow needs from Google Forms comes through a
+ * FormSource: the public viewform HTML (scraped for Entry IDs) and the Forms
+ * API structure. Two providers exist:
+ *
+ * - "google" (default): live requests, needs network + service account
+ * - "file": recorded fixtures on disk, for local development and regression checks
+ *
+ * Select the provider with FORM_SOURCE=file and point FORM_FIXTURES_DIR at the
+ * recordings (default: fixtures/forms, which holds fixtures of both forms; see
+ * fixtures/forms/README.md). Record fixtures with `npm run record-form-fixtures`.
+ *
+ * Fixture layout:
+ *   <dir>/<publishedId>.viewform.html   raw viewform page
+ *   <dir>/<formId>.form.json            forms.get() response body
+ */
+
+export interface FormSource {
+    name: "google" | "file";
+    getViewformHtml(publishedId: string): Promise<string>;
+    getForm(formId: string): Promise<forms_v1.Schema$Form>;
+}
+
+const DEFAULT_FIXTURES_DIR = "fixtures/forms";
+
+export function viewformFixturePath(dir: string, publishedId: string): string {
+    return path.join(dir, `${publishedId}.viewform.html`);
+}
+
+export function formFixturePath(dir: string, formId: string): string {
+    return path.join(dir, `${formId}.form.json`);
+}
+
+export function createGoogleFormSource(): FormSource {
+    return {
+        name: "google",
+
+        async getViewformHtml(publishedId: string) {
+            const url = `https://docs.google.com/forms/d/e/${publishedId}/viewform`;
+            const res = await fetch(url);
+            return res.text();
+        },
+
+        async getForm(formId: string) {
+            const auth = new google.auth.GoogleAuth({
+                credentials: {
+                    client_email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
+                    private_key: process.env.GOOGLE_SERVICE_ACCOUNT_KEY?.replace(/\\n/g, "\n"),
+                },
+                scopes: ["https://www.googleapis.com/auth/forms.body.readonly"],
+            });
+            const forms = google.forms({ version: "v1", auth });
+            const response = await forms.forms.get({ formId });
+            return response.data;
+        },
+    };
+}
+
+export function createFileFormSource(dir: string = DEFAULT_FIXTURES_DIR): FormSource {
+    const readFixture = async (filePath: string) => {
+        try {
+            return await fs.readFile(path.resolve(filePath), "utf8");
+        } catch (error: any) {
+            throw new Error(`Form fixture not found: ${filePath} (${error.code || error.message})`);
+        }
+    };
+
+    return {
+        name: "file",
+
+        async getViewformHtml(publishedId: string) {
+            return readFixture(viewformFixturePath(dir, publishedId));
+        },
+
+        async getForm(formId: string) {
+            return JSON.parse(await readFixture(formFixturePath(dir, formId)));
+        },
+    };
+}
+
+/**
+ * The form source configured for this environment
+ */
+export function getFormSource(): FormSource {
+    if (process.env.FORM_SOURCE === "file") {
+        return createFileFormSource(process.env.FORM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+    }
+    return createGoogleFormSource();
+}
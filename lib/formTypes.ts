@@ -0,0 +1,56 @@
+/**
+ * Shared form schema types
+ *
+ * FormData is what /api/forms serves and CustomApplicationForm renders,
+ * whether it was built from Google Forms or from a native form definition.
+ */
+
+import type { FieldPattern } from "./formFields";
+import type { VisibilityCondition } from "./formVisibility";
+
+export type FormQuestionType =
+    | "section_header"
+    | "short_answer"
+    | "paragraph"
+    | "radio"
+    | "checkbox"
+    | "dropdown"
+    | "linear_scale"
+    | "star_rating"
+    | "grid_radio"
+    | "grid_checkbox"
+    | "date"
+    | "datetime"
+    | "time"
+    | "duration";
+
+export interface FormQuestion {
+    id: string;
+    entryId?: string; // Actual Google Form Entry ID
+    field?: string; // Semantic field name (native definitions)
+    type: FormQuestionType;
+    label: string;
+    description?: string; // Question description/help text
+    required: boolean;
+    options?: string[];
+    min?: number;
+    max?: number;
+    minLabel?: string;
+    maxLabel?: string;
+    rows?: { id: string, entryId?: string, label: string }[];
+    columns?: string[];
+    placeholder?: string;
+    wordLimit?: number;
+    pattern?: FieldPattern;
+    minLength?: number; // Characters
+    maxLength?: number; // Characters
+    visibleWhen?: VisibilityCondition;
+}
+
+export interface FormData {
+    title: string;
+    description: string;
+    questions: FormQuestion[];
+    source?: "google" | "native";
+    version?: number; // Native definition version
+}
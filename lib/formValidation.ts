@@ -0,0 +1,248 @@
+/**
+ * Schema-driven answer validation
+ *
+ * Every check comes from the form schema: required flags, option lists, word
+ * limits and patterns. The schema served by /api/forms already carries the
+ * field registry's rules (applyFieldRules), and the submit route validates
+ * against the same schema, so client and server can never disagree.
+ */
+
+import { getFieldRules, type FieldPattern, type FormType, type ResponseKeyStyle } from "./formFields";
+import type { FormQuestion } from "./formTypes";
+import { getFieldAnswers, isConditionMet } from "./formVisibility";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type FieldErrorCode =
+    | "required"
+    | "invalid_option"
+    | "too_short"
+    | "too_long"
+    | "too_many_words"
+    | "invalid_name"
+    | "invalid_email"
+    | "invalid_phone"
+    | "invalid_url"
+    | "out_of_range";
+
+export interface FieldError {
+    field: string;  // Field name, or the payload key for unregistered questions
+    code: FieldErrorCode;
+    message: string;
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+const PATTERNS: Record<FieldPattern, { test: (value: string) => boolean; code: FieldErrorCode; message: (label: string) => string }> = {
+    name: {
+        test: value => /^[a-zA-Z\s'-]+$/.test(value),
+        code: "invalid_name",
+        message: label => `${label} can only contain letters, spaces, hyphens, and apostrophes`,
+    },
+    email: {
+        test: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+        code: "invalid_email",
+        message: () => "Please enter a valid email address",
+    },
+    phone: {
+        test: value => /^[0-9+\-\s()]+$/.test(value),
+        code: "invalid_phone",
+        message: () => "Phone number should only contain numbers, +, -, and spaces",
+    },
+    url: {
+        // Web links only: other schemes (javascript:, data:) would end up in admin pages
+        test: value => {
+            try {
+                return ["http:", "https:"].includes(new URL(value).protocol);
+            } catch {
+                return false;
+            }
+        },
+        code: "invalid_url",
+        message: label => `${label} must be a valid URL (include https://)`,
+    },
+};
+
+const OTHER_OPTION = "__OTHER__";
+// Google Forms payloads send "Other" answers as this marker plus `<key>.other_option_response`
+const OTHER_OPTION_MARKER = "__other_option__";
+
+/**
+ * Merge the field registry's rules into a schema's questions.
+ * Registry rules win over the schema for registered fields; unregistered
+ * questions keep whatever the schema says.
+ */
+export function applyFieldRules(type: FormType, questions: FormQuestion[]): FormQuestion[] {
+    return questions.map(q => {
+        const rules = q.field ? getFieldRules(type, q.field) : undefined;
+        if (!rules) return q;
+
+        return {
+            ...q,
+            required: rules.required ?? q.required,
+            pattern: rules.pattern ?? q.pattern,
+            minLength: rules.minLength ?? q.minLength,
+            maxLength: rules.maxLength ?? q.maxLength,
+            wordLimit: rules.wordLimit ?? q.wordLimit,
+        };
+    });
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function countWords(value: string): number {
+    return value.trim().split(/\s+/).filter(Boolean).length;
+}
+
+const isEmpty = (value: unknown) =>
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === "object" && Object.keys(value as object).length === 0);
+
+/**
+ * Validate one answer against its question. Returns the first problem found.
+ */
+export function validateAnswer(question: FormQuestion, value: unknown): FieldError | null {
+    const field = question.field || question.entryId || question.id;
+    const label = question.label
+        .replace(/\s*\(optional\)\s*/gi, "")
+        .replace(/\s+/g, " ")
+        .trim();
+    const error = (code: FieldErrorCode, message: string): FieldError => ({ field, code, message });
+
+    if (question.type === "section_header") return null;
+
+    // 1. Required check
+    if (isEmpty(value)) {
+        return question.required ? error("required", `${label} is required`) : null;
+    }
+
+    // 2. Option whitelist
+    if ((question.type === "radio" || question.type === "dropdown" || question.type === "checkbox") && question.options?.length) {
+        const allowsOther = question.options.includes(OTHER_OPTION);
+        const isAllowed = (option: string) =>
+            question.options!.includes(option) ||
+            (allowsOther && option.trim() !== "" && option !== OTHER_OPTION);
+
+        const selected = Array.isArray(value) ? value.map(String) : [String(value)];
+        if (!selected.every(option => option === OTHER_OPTION_MARKER ? allowsOther : isAllowed(option))) {
+            return error("invalid_option", `Please select a valid option for ${label}`);
+        }
+        return null;
+    }
+
+    // 3. Numeric range (linear scales and star ratings)
+    if ((question.min !== undefined || question.max !== undefined) && !isNaN(Number(value))) {
+        const num = Number(value);
+        if (question.min !== undefined && num < question.min) return error("out_of_range", `Minimum value is ${question.min}`);
+        if (question.max !== undefined && num > question.max) return error("out_of_range", `Maximum value is ${question.max}`);
+    }
+
+    // Text rules only apply to text answers
+    if (question.type !== "short_answer" && question.type !== "paragraph") return null;
+
+    const text = String(value).trim();
+
+    // 4. Pattern
+    if (question.pattern) {
+        const pattern = PATTERNS[question.pattern];
+        if (!pattern.test(text)) return error(pattern.code, pattern.message(label));
+    }
+
+    // 5. Length
+    if (question.minLength !== undefined && text.length < question.minLength) {
+        return error("too_short", `${label} must be at least ${question.minLength} characters`);
+    }
+    if (question.maxLength !== undefined && text.length > question.maxLength) {
+        return error("too_long", `${label} must be less than ${question.maxLength} characters`);
+    }
+
+    // 6. Word limit
+    if (question.wordLimit !== undefined) {
+        const words = countWords(text);
+        if (words > question.wordLimit) {
+            return error("too_many_words", `${label} is too long (${words} words). Please keep it to ${question.wordLimit} words or fewer.`);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * How payloads for a schema are keyed: native definitions ask by field name,
+ * Google Forms by entry ID (the same choice as validateResponses' default key)
+ */
+export function getResponseKeyStyle(questions: FormQuestion[]): ResponseKeyStyle {
+    return questions.some(q => q.field && !q.entryId && !q.rows) ? "field" : "entryId";
+}
+
+/**
+ * Keep only the answers a schema asks for: its questions' keys, their "Other"
+ * responses (`<key>.other_option_response`) and grid rows. Anything else would
+ * reach storage without being validated.
+ */
+export function pickSchemaResponses(
+    questions: FormQuestion[],
+    responses: Record<string, unknown>,
+    keyOf: (q: FormQuestion) => string | undefined = q => q.entryId || q.field
+): Record<string, unknown> {
+    const keys = new Set<string>();
+    for (const q of questions) {
+        if (q.rows) {
+            q.rows.forEach(row => row.entryId && keys.add(row.entryId));
+            continue;
+        }
+        const key = keyOf(q);
+        if (key) keys.add(key);
+    }
+
+    const picked: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(responses)) {
+        const [baseKey, suffix] = key.split(".", 2);
+        if (!keys.has(baseKey)) continue;
+        if (suffix !== undefined && key !== `${baseKey}.other_option_response`) continue;
+        picked[key] = value;
+    }
+    return picked;
+}
+
+/**
+ * Validate every visible question of a schema against a payload.
+ *
+ * `keyOf` maps a question to its payload key (entry ID or field name on the
+ * server, question ID in the renderer). Grid answers are keyed per row and
+ * are only checked by the renderer.
+ */
+export function validateResponses(
+    questions: FormQuestion[],
+    responses: Record<string, unknown>,
+    keyOf: (q: FormQuestion) => string | undefined = q => q.entryId || q.field
+): FieldError[] {
+    const answers = getFieldAnswers(questions, responses, keyOf);
+    const errors: FieldError[] = [];
+
+    for (const q of questions) {
+        if (q.rows) continue;
+        if (!isConditionMet(q.visibleWhen, answers)) continue;
+
+        const key = keyOf(q);
+        if (!key) continue;
+
+        const value = responses[key] === OTHER_OPTION_MARKER
+            ? responses[`${key}.other_option_response`] ?? responses[key]
+            : responses[key];
+
+        const problem = validateAnswer(q, value);
+        if (problem) errors.push(problem);
+    }
+
+    return errors;
+}
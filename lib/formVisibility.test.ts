@@ -0,0 +1,136 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+    annotateVisibility,
+    getConditionFields,
+    getFieldAnswers,
+    getRegisteredQuestions,
+    isConditionMet,
+    stripHiddenAnswers,
+} from "./formVisibility";
+import { getEntryId } from "./formFields";
+import type { FormQuestion } from "./formTypes";
+
+function question(id: string, field?: string, visibleWhen?: FormQuestion["visibleWhen"]): FormQuestion {
+    return { id, entryId: id, field, type: "short_answer", label: field ?? id, required: false, visibleWhen };
+}
+
+describe("isConditionMet", () => {
+    test("treats a missing condition as visible", () => {
+        assert.equal(isConditionMet(undefined, {}), true);
+    });
+
+    test("matches equals against one or several values", () => {
+        assert.equal(isConditionMet({ field: "major", equals: "Engineering" }, { major: "Engineering" }), true);
+        assert.equal(isConditionMet({ field: "major", equals: "Engineering" }, { major: "Medicine" }), false);
+        assert.equal(isConditionMet({ field: "major", equals: ["Medicine", "Healthcare"] }, { major: "Healthcare" }), true);
+    });
+
+    test("matches equals against any selected checkbox option", () => {
+        assert.equal(isConditionMet({ field: "group1", equals: "CAD" }, { group1: ["Arduino", "CAD"] }), true);
+    });
+
+    test("matches includes case-insensitively", () => {
+        assert.equal(isConditionMet({ field: "workStyle", includes: "builder" }, { workStyle: "The Builder" }), true);
+        assert.equal(isConditionMet({ field: "workStyle", includes: "builder" }, { workStyle: "The Planner" }), false);
+    });
+
+    test("is false when the answer is missing or not text", () => {
+        assert.equal(isConditionMet({ field: "major", equals: "Engineering" }, {}), false);
+        assert.equal(isConditionMet({ field: "major", equals: "1" }, { major: 1 }), false);
+    });
+
+    test("combines conditions with all and any", () => {
+        const answers = { major: "Engineering", year: "Graduate" };
+        const engineering = { field: "major", equals: "Engineering" };
+        const medicine = { field: "major", equals: "Medicine" };
+        const graduate = { field: "year", equals: "Graduate" };
+
+        assert.equal(isConditionMet({ all: [engineering, graduate] }, answers), true);
+        assert.equal(isConditionMet({ all: [medicine, graduate] }, answers), false);
+        assert.equal(isConditionMet({ any: [medicine, graduate] }, answers), true);
+        assert.equal(isConditionMet({ any: [medicine] }, answers), false);
+    });
+});
+
+describe("getConditionFields", () => {
+    test("lists the fields of nested conditions", () => {
+        assert.deepEqual(
+            getConditionFields({ all: [{ field: "major", equals: "Engineering" }, { any: [{ field: "year", includes: "4" }] }] }),
+            ["major", "year"]
+        );
+        assert.deepEqual(getConditionFields(undefined), []);
+    });
+});
+
+describe("getFieldAnswers", () => {
+    test("keys non-empty answers by field name", () => {
+        const questions = [question("1", "major"), question("2", "year"), question("3")];
+
+        assert.deepEqual(getFieldAnswers(questions, { "1": "Engineering", "2": "", "3": "x" }), { major: "Engineering" });
+    });
+});
+
+describe("stripHiddenAnswers", () => {
+    const questions = [
+        question("1", "major"),
+        question("2", "workStyle", { field: "major", equals: "Engineering" }),
+        question("3", "skillSet", { field: "major", equals: "Medicine" }),
+    ];
+
+    test("drops answers to hidden questions and their Other responses", () => {
+        const stripped = stripHiddenAnswers(questions, {
+            "1": "Engineering",
+            "2": "Builder",
+            "3": "Clinical",
+            "3.other_option_response": "x",
+        });
+
+        assert.deepEqual(stripped, { "1": "Engineering", "2": "Builder" });
+    });
+
+    test("keeps a key while any question using it is visible", () => {
+        const repeated = [
+            ...questions,
+            question("4", "year", { field: "major", equals: "Engineering" }),
+            { ...question("4", "year", { field: "major", equals: "Medicine" }), id: "4b" },
+        ];
+
+        assert.equal(stripHiddenAnswers(repeated, { "1": "Medicine", "4": "Year 2" })["4"], "Year 2");
+    });
+
+    test("leaves keys that belong to no question alone", () => {
+        assert.equal(stripHiddenAnswers(questions, { "1": "Medicine", other: "x" }).other, "x");
+    });
+});
+
+describe("Google Forms conditions", () => {
+    test("asks shared entry IDs always and track entry IDs for their majors", () => {
+        const registered = new Map(getRegisteredQuestions("competitor").map(q => [q.entryId, q]));
+
+        assert.equal(registered.get(getEntryId("engineering", "fullName"))?.visibleWhen, undefined);
+        assert.deepEqual(registered.get(getEntryId("engineering", "workStyle"))?.visibleWhen, { field: "major", equals: ["Engineering"] });
+        assert.deepEqual(registered.get(getEntryId("medicine", "skillSet"))?.visibleWhen, { field: "major", equals: ["Medicine", "Healthcare"] });
+    });
+
+    test("annotateVisibility passes conditions on to unregistered questions and section headers", () => {
+        const formData = annotateVisibility("competitor", {
+            title: "",
+            description: "",
+            questions: [
+                question(getEntryId("engineering", "major")),
+                { ...question("header"), type: "section_header" },
+                question(getEntryId("engineering", "workStyle")),
+                question("999"),
+            ],
+        });
+        const [major, header, workStyle, extra] = formData.questions;
+        const engineering = { field: "major", equals: ["Engineering"] };
+
+        assert.equal(major.field, "major");
+        assert.equal(major.visibleWhen, undefined);
+        assert.deepEqual(header.visibleWhen, engineering);
+        assert.equal(workStyle.field, "workStyle");
+        assert.deepEqual(extra.visibleWhen, engineering);
+    });
+});
@@ -0,0 +1,208 @@
+/**
+ * Conditional question visibility
+ *
+ * A question declares `visibleWhen`; it is only shown, validated and submitted
+ * when the condition holds for the answers given so far. Answers are looked up
+ * by field name, e.g.
+ *
+ *   { field: "major", equals: "Engineering" }
+ *   { field: "workStyle", includes: "Builder" }
+ *   { all: [{ field: "major", equals: "Engineering" }, { field: "year", equals: "Graduate" }] }
+ *
+ * This module is shared by the form renderer, the submit route and the
+ * validators, so a hidden answer is dropped the same way everywhere.
+ *
+ * Native definitions declare their conditions. Google Forms have no such
+ * concept, so annotateVisibility() derives them from the field registry: a
+ * track-specific entry ID is only asked for the majors stored with that track.
+ */
+
+import {
+    FORM_TYPE_FIELD_SETS,
+    getFieldSpecs,
+    getMajorsForFieldSet,
+    type FieldSet,
+    type FormType,
+} from "./formFields";
+import type { FormData, FormQuestion } from "./formTypes";
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type VisibilityCondition =
+    | { field: string; equals: string | string[] } // Any of the listed values matches
+    | { field: string; includes: string }          // Answer (or one selected option) contains the text
+    | { all: VisibilityCondition[] }
+    | { any: VisibilityCondition[] };
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate a condition against answers keyed by field name.
+ * Questions without a condition are always visible.
+ */
+export function isConditionMet(
+    condition: VisibilityCondition | undefined,
+    answers: Record<string, unknown>
+): boolean {
+    if (!condition) return true;
+
+    if ("all" in condition) return condition.all.every(c => isConditionMet(c, answers));
+    if ("any" in condition) return condition.any.some(c => isConditionMet(c, answers));
+
+    const answer = answers[condition.field];
+    const values = Array.isArray(answer) ? answer.map(String) : typeof answer === "string" ? [answer] : [];
+
+    if ("includes" in condition) {
+        const needle = condition.includes.toLowerCase();
+        return values.some(value => value.toLowerCase().includes(needle));
+    }
+
+    const expected = Array.isArray(condition.equals) ? condition.equals : [condition.equals];
+    return values.some(value => expected.includes(value));
+}
+
+/**
+ * Field names referenced by a condition
+ */
+export function getConditionFields(condition: VisibilityCondition | undefined): string[] {
+    if (!condition) return [];
+    if ("all" in condition) return condition.all.flatMap(getConditionFields);
+    if ("any" in condition) return condition.any.flatMap(getConditionFields);
+    return [condition.field];
+}
+
+// Payload key of a question: Google Form entry ID, or field name for native forms
+const defaultKey = (q: FormQuestion) => q.entryId || q.field;
+
+/**
+ * Collect answers by field name from responses keyed by `keyOf(question)`
+ */
+export function getFieldAnswers(
+    questions: FormQuestion[],
+    responses: Record<string, unknown>,
+    keyOf: (q: FormQuestion) => string | undefined = defaultKey
+): Record<string, unknown> {
+    const answers: Record<string, unknown> = {};
+    for (const q of questions) {
+        const key = keyOf(q);
+        if (q.field && key && responses[key] !== undefined && responses[key] !== "") {
+            answers[q.field] = responses[key];
+        }
+    }
+    return answers;
+}
+
+/**
+ * Remove answers to questions that are hidden by their conditions.
+ *
+ * A key is kept while at least one question using it is visible (native forms
+ * ask the same field on several tracks). "Other" option responses
+ * (`<key>.other_option_response`) follow their question. Keys that belong to no
+ * question are left alone.
+ */
+export function stripHiddenAnswers(
+    questions: FormQuestion[],
+    responses: Record<string, unknown>,
+    keyOf: (q: FormQuestion) => string | undefined = defaultKey
+): Record<string, unknown> {
+    const answers = getFieldAnswers(questions, responses, keyOf);
+    const visibleKeys = new Set<string>();
+    const knownKeys = new Set<string>();
+
+    for (const q of questions) {
+        const key = keyOf(q);
+        if (!key) continue;
+        knownKeys.add(key);
+        if (isConditionMet(q.visibleWhen, answers)) visibleKeys.add(key);
+    }
+
+    const stripped: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(responses)) {
+        const baseKey = key.split(".")[0];
+        if (knownKeys.has(baseKey) && !visibleKeys.has(baseKey)) continue;
+        stripped[key] = value;
+    }
+    return stripped;
+}
+
+// ============================================================================
+// GOOGLE FORMS: CONDITIONS FROM THE FIELD REGISTRY
+// ============================================================================
+
+/**
+ * Condition under which a registered entry ID is asked. Entry IDs registered
+ * in every field set of the form are always asked; track-specific ones only
+ * for the majors stored with their field sets.
+ */
+function getEntryIdCondition(type: FormType, sets: FieldSet[]): VisibilityCondition | undefined {
+    if (sets.length === FORM_TYPE_FIELD_SETS[type].length) return undefined;
+    return { field: "major", equals: sets.flatMap(getMajorsForFieldSet) };
+}
+
+/**
+ * Every registered field of a form as a bare question with its condition.
+ * Lets the server strip hidden answers without fetching the Google Form.
+ */
+export function getRegisteredQuestions(type: FormType): FormQuestion[] {
+    const setsByEntryId = new Map<string, { field: string; sets: FieldSet[] }>();
+
+    for (const set of FORM_TYPE_FIELD_SETS[type]) {
+        for (const [field, spec] of getFieldSpecs(set)) {
+            const entry = setsByEntryId.get(spec.entryId) || { field, sets: [] };
+            entry.sets.push(set);
+            setsByEntryId.set(spec.entryId, entry);
+        }
+    }
+
+    return [...setsByEntryId].map(([entryId, { field, sets }]) => ({
+        id: entryId,
+        entryId,
+        field,
+        type: "short_answer",
+        label: field,
+        required: false,
+        visibleWhen: getEntryIdCondition(type, sets),
+    }));
+}
+
+/**
+ * Attach `field` and `visibleWhen` to a schema fetched from Google Forms.
+ *
+ * - Registered questions get their field name and registry-derived condition.
+ * - Unregistered questions inherit the condition of the question before them,
+ *   so extra questions added to a track stay on that track.
+ * - Section headers take the condition of the question that follows them.
+ */
+export function annotateVisibility(type: FormType, formData: FormData): FormData {
+    const registered = new Map(getRegisteredQuestions(type).map(q => [q.entryId!, q]));
+    const questions = formData.questions.map(q => ({ ...q }));
+
+    let previous: VisibilityCondition | undefined;
+    for (const q of questions) {
+        if (q.type === "section_header") continue;
+
+        const match = q.entryId ? registered.get(q.entryId) : undefined;
+        if (match) {
+            q.field = match.field;
+            q.visibleWhen = match.visibleWhen;
+        } else {
+            q.visibleWhen = previous;
+        }
+        previous = q.visibleWhen;
+    }
+
+    let next: VisibilityCondition | undefined;
+    for (let i = questions.length - 1; i >= 0; i--) {
+        if (questions[i].type === "section_header") {
+            questions[i].visibleWhen = next;
+        } else {
+            next = questions[i].visibleWhen;
+        }
+    }
+
+    return { ...formData, questions };
+}
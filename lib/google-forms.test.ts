@@ -0,0 +1,155 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { normalizeForm, parsePublicEntryIds } from "./google-forms";
+import { createFileFormSource } from "./formSource";
+import { getEntryId, getRegisteredEntryIds } from "./formFields";
+
+// Recorded forms in fixtures/forms (see fixtures/forms/README.md)
+const source = createFileFormSource(path.join(__dirname, "../fixtures/forms"));
+const COMPETITOR = { publishedId: "fixture-competitor-published", formId: "fixture-competitor-form" };
+
+function viewform(items: unknown[]): string {
+    const data = [null, ["", items], "/forms", "Fixture"];
+    return `<html><body><script>var FB_PUBLIC_LOAD_DATA_ = ${JSON.stringify(data)};</script></body></html>`;
+}
+
+describe("parsePublicEntryIds", () => {
+    test("maps question titles to entry IDs from a recorded viewform page", async () => {
+        const mapping = parsePublicEntryIds(await source.getViewformHtml(COMPETITOR.publishedId));
+
+        assert.deepEqual(mapping.get("Full Name"), [getEntryId("engineering", "fullName")]);
+        assert.deepEqual(mapping.get("The Clinical Efficiency Challenge"), [getEntryId("medicine", "challenge1")]);
+    });
+
+    test("keeps repeated titles in form order", async () => {
+        const mapping = parsePublicEntryIds(await source.getViewformHtml(COMPETITOR.publishedId));
+
+        assert.deepEqual(mapping.get("What is your major?"), [
+            getEntryId("engineering", "majorType"),
+            getEntryId("medicine", "majorType"),
+        ]);
+    });
+
+    test("finds every entry ID the field registry expects", async () => {
+        const mapping = parsePublicEntryIds(await source.getViewformHtml(COMPETITOR.publishedId));
+        const scraped = new Set([...mapping.values()].flat());
+
+        for (const [entryId, fields] of getRegisteredEntryIds("competitor")) {
+            assert.ok(scraped.has(entryId), `${fields.join(", ")} (${entryId}) missing from the fixture`);
+        }
+    });
+
+    test("maps grid rows to their own entry IDs", () => {
+        const html = viewform([
+            [1, "Availability", null, 7, [
+                [111, [["Morning"], ["Evening"]], 0, ["Saturday"]],
+                [222, [["Morning"], ["Evening"]], 0, ["Sunday"]],
+            ]],
+        ]);
+
+        assert.deepEqual(parsePublicEntryIds(html).get("Availability"), [{ Saturday: "111", Sunday: "222" }]);
+    });
+
+    test("skips items without an entry ID", () => {
+        const html = viewform([
+            [1, "Section", "Intro", 8],
+            [2, "Name", null, 0, [[333, null, 1]]],
+        ]);
+
+        assert.deepEqual([...parsePublicEntryIds(html).keys()], ["Name"]);
+    });
+
+    test("returns an empty map when the page has no form data", () => {
+        assert.equal(parsePublicEntryIds("<html><body>Sign in</body></html>").size, 0);
+    });
+});
+
+describe("normalizeForm", () => {
+    test("attaches scraped entry IDs to the Forms API questions", async () => {
+        const form = normalizeForm(
+            await source.getForm(COMPETITOR.formId),
+            parsePublicEntryIds(await source.getViewformHtml(COMPETITOR.publishedId))
+        );
+
+        const fullName = form.questions.find(q => q.label === "Full Name");
+        assert.equal(fullName?.entryId, getEntryId("engineering", "fullName"));
+        assert.equal(fullName?.type, "short_answer");
+        assert.equal(fullName?.required, true);
+
+        const workStyle = form.questions.find(q => q.entryId === getEntryId("engineering", "workStyle"));
+        assert.equal(workStyle?.type, "radio");
+        assert.ok((workStyle?.options?.length ?? 0) > 0);
+
+        const group1 = form.questions.find(q => q.entryId === getEntryId("engineering", "group1"));
+        assert.equal(group1?.type, "checkbox");
+
+        const challenge = form.questions.find(q => q.entryId === getEntryId("engineering", "challengeAnswer"));
+        assert.equal(challenge?.type, "paragraph");
+    });
+
+    test("gives repeated titles their entry IDs in form order", async () => {
+        const form = normalizeForm(
+            await source.getForm(COMPETITOR.formId),
+            parsePublicEntryIds(await source.getViewformHtml(COMPETITOR.publishedId))
+        );
+
+        assert.deepEqual(
+            form.questions.filter(q => q.label === "What is your major?").map(q => q.entryId),
+            [getEntryId("engineering", "majorType"), getEntryId("medicine", "majorType")]
+        );
+    });
+
+    test("matches titles scraped with a required marker", () => {
+        const form = normalizeForm(
+            { items: [{ itemId: "a1", title: "Name", questionItem: { question: { required: true, textQuestion: {} } } }] },
+            new Map([["Name *", ["444"]]])
+        );
+
+        assert.equal(form.questions[0].entryId, "444");
+    });
+
+    test("keeps section headers and marks Other options", () => {
+        const form = normalizeForm(
+            {
+                info: { title: "Fixture" },
+                items: [
+                    { itemId: "s1", title: "About you", description: "Basics" },
+                    {
+                        itemId: "q1",
+                        title: "Pet",
+                        questionItem: {
+                            question: { choiceQuestion: { type: "RADIO", options: [{ value: "Cat" }, { isOther: true }] } },
+                        },
+                    },
+                ],
+            },
+            new Map([["Pet", ["555"]]])
+        );
+
+        assert.equal(form.title, "Fixture");
+        assert.deepEqual(form.questions.map(q => q.type), ["section_header", "radio"]);
+        assert.deepEqual(form.questions[1].options, ["Cat", "__OTHER__"]);
+    });
+
+    test("maps grid rows from the scraped row IDs", () => {
+        const form = normalizeForm(
+            {
+                items: [{
+                    itemId: "g1",
+                    title: "Availability",
+                    questionGroupItem: {
+                        grid: { columns: { type: "RADIO", options: [{ value: "Morning" }, { value: "Evening" }] } },
+                        questions: [{ rowQuestion: { title: "Saturday" } }, { rowQuestion: { title: "Sunday" } }],
+                    },
+                }],
+            },
+            new Map([["Availability", [{ Saturday: "111", Sunday: "222" }]]])
+        );
+
+        const grid = form.questions[0];
+        assert.equal(grid.type, "grid_radio");
+        assert.deepEqual(grid.rows?.map(row => row.entryId), ["111", "222"]);
+        assert.deepEqual(grid.columns, ["Morning", "Evening"]);
+    });
+});
@@ -0,0 +1,105 @@
+import { getFormEngine } from "./formDefinition";
+
+/**
+ * Google Forms export
+ *
+ * With the Google engine the formResponse POST is where applications end up;
+ * with the native engine it is an optional copy, enabled with
+ * GOOGLE_FORMS_EXPORT=true. Either way it is delivered (and retried) through
+ * the submission outbox (lib/outbox.ts).
+ */
+
+// Well under the outbox lease, so a hung request can't outlive its claim
+const SUBMIT_TIMEOUT_MS = 30 * 1000;
+
+export function isGoogleFormsExportEnabled(): boolean {
+    return getFormEngine() === "google" || process.env.GOOGLE_FORMS_EXPORT === "true";
+}
+
+/**
+ * Encode a payload keyed by entry ID as a Google Forms formResponse body
+ */
+export function buildFormResponseBody(responses: Record<string, unknown>): URLSearchParams {
+    const submitData = new URLSearchParams();
+    submitData.append('pageHistory', '0');
+    submitData.append('fvv', '1');
+
+    Object.entries(responses).forEach(([key, value]) => {
+        if (Array.isArray(value)) {
+            value.forEach(item => submitData.append(`entry.${key}`, String(item)));
+        }
+        else if (typeof value === 'object' && value !== null) {
+            const valObj = value as Record<string, any>;
+            const isDate = 'date' in valObj || 'year' in valObj;
+            const isTime = 'time' in valObj || ('hours' in valObj && 'minutes' in valObj);
+
+            if (isDate || isTime) {
+                if (valObj.date) {
+                    const [y, m, d] = valObj.date.split('-');
+                    submitData.append(`entry.${key}_year`, y);
+                    submitData.append(`entry.${key}_month`, m);
+                    submitData.append(`entry.${key}_day`, d);
+                }
+                if (valObj.time) {
+                    const [h, min] = valObj.time.split(':');
+                    submitData.append(`entry.${key}_hour`, h);
+                    submitData.append(`entry.${key}_minute`, min);
+                }
+                if ('hours' in valObj) {
+                    submitData.append(`entry.${key}_hour`, String(valObj.hours));
+                    submitData.append(`entry.${key}_minute`, String(valObj.minutes));
+                    submitData.append(`entry.${key}_second`, String(valObj.seconds || 0));
+                }
+            } else {
+                Object.entries(valObj).forEach(([rowEntryId, colVal]) => {
+                    if (Array.isArray(colVal)) {
+                        colVal.forEach(c => submitData.append(`entry.${rowEntryId}`, String(c)));
+                    } else {
+                        submitData.append(`entry.${rowEntryId}`, String(colVal));
+                    }
+                });
+            }
+        }
+        else {
+            const strValue = String(value);
+            const dateMatch = strValue.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+            if (dateMatch) {
+                submitData.append(`entry.${key}_year`, dateMatch[1]);
+                submitData.append(`entry.${key}_month`, dateMatch[2]);
+                submitData.append(`entry.${key}_day`, dateMatch[3]);
+                return;
+            }
+            const timeMatch = strValue.match(/^(\d{2}):(\d{2})$/);
+            if (timeMatch) {
+                submitData.append(`entry.${key}_hour`, timeMatch[1]);
+                submitData.append(`entry.${key}_minute`, timeMatch[2]);
+                return;
+            }
+            submitData.append(`entry.${key}`, strValue);
+        }
+    });
+
+    return submitData;
+}
+
+/**
+ * POST a payload keyed by entry ID to the published Google Form
+ */
+export async function exportToGoogleForms(
+    publishedFormId: string,
+    responses: Record<string, unknown>
+): Promise<{ ok: boolean; status: number; error?: string }> {
+    const submitUrl = `https://docs.google.com/forms/d/e/${publishedFormId}/formResponse`;
+
+    const formSubmitResponse = await fetch(submitUrl, {
+        method: "POST",
+        body: buildFormResponseBody(responses),
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        signal: AbortSignal.timeout(SUBMIT_TIMEOUT_MS),
+    });
+
+    const ok = formSubmitResponse.ok || formSubmitResponse.status === 302 || formSubmitResponse.status === 303;
+    if (ok) return { ok, status: formSubmitResponse.status };
+
+    return { ok, status: formSubmitResponse.status, error: await formSubmitResponse.text() };
+}
@@ -0,0 +1,355 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { resolveFieldSet, toEntryIdResponses, type FormType } from "@/lib/formFields";
+import { getFormEngine } from "@/lib/formDefinition";
+import { exportToGoogleForms, isGoogleFormsExportEnabled } from "@/lib/googleFormsExport";
+import { getSubmissionsSheetId, syncApplicationRows } from "@/lib/sheetsSync";
+import { logger } from "@/lib/logger";
+
+/**
+ * Submission outbox
+ *
+ * The submit route saves the application and one outbox entry per downstream
+ * sink in the same batch, then tries each delivery once. Entries that fail are
+ * retried with exponential backoff by drainOutbox(), which runs from
+ * /api/outbox/drain (cron) and from the admin dashboard.
+ *
+ * outbox/{uid}_{submissionKey}_{sink}
+ *
+ * Entry IDs are derived from the submission's idempotency key, so a retried
+ * submission can never enqueue a second delivery.
+ *
+ * pending -> processing -> delivered
+ *                       -> pending (retry after backoff) -> ... -> dead
+ */
+
+const OUTBOX_COLLECTION = "outbox";
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+// A worker that crashes mid-delivery releases its entry after this long
+const LEASE_MS = 2 * 60 * 1000;
+
+export type OutboxSink = "google_forms" | "google_sheets";
+export type OutboxStatus = "pending" | "processing" | "delivered" | "dead";
+
+export const OUTBOX_SINKS: OutboxSink[] = ["google_forms", "google_sheets"];
+export const OUTBOX_STATUSES: OutboxStatus[] = ["pending", "processing", "delivered", "dead"];
+
+export interface OutboxEntry {
+    id: string;
+    sink: OutboxSink;
+    uid: string;
+    type: FormType;
+    status: OutboxStatus;
+    attempts: number;
+    lastError: string | null;
+    // Next time a worker may pick the entry up; null once delivered or dead
+    nextAttemptAt: string | null;
+    createdAt: string;
+    deliveredAt: string | null;
+}
+
+interface OutboxDocument extends Omit<OutboxEntry, "id"> {
+    payload: Record<string, unknown>;
+}
+
+export interface DrainResult {
+    processed: number;
+    delivered: number;
+    retrying: number;
+    dead: number;
+}
+
+export function getBackoffMs(attempts: number): number {
+    return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+function toEntry(id: string, data: FirebaseFirestore.DocumentData): OutboxEntry {
+    return {
+        id,
+        sink: data.sink,
+        uid: data.uid,
+        type: data.type,
+        status: data.status,
+        attempts: data.attempts || 0,
+        lastError: data.lastError ?? null,
+        nextAttemptAt: data.nextAttemptAt ?? null,
+        createdAt: data.createdAt,
+        deliveredAt: data.deliveredAt ?? null,
+    };
+}
+
+// ============================================================================
+// ENQUEUE
+// ============================================================================
+
+function getOutboxEntryId(uid: string, submissionKey: string, sink: OutboxSink): string {
+    return `${uid}_${submissionKey}_${sink}`;
+}
+
+/**
+ * Every entry a submission may have enqueued (not all sinks are always enabled)
+ */
+export function getSubmissionOutboxIds(uid: string, submissionKey: string): string[] {
+    return OUTBOX_SINKS.map(sink => getOutboxEntryId(uid, submissionKey, sink));
+}
+
+/**
+ * Queue a delivery to every enabled sink for a new application (edits only
+ * refresh the Sheets row), in the batch or transaction that saves it. Returns
+ * the entry IDs so the caller can attempt them once that has committed.
+ */
+export function enqueueSubmission(
+    writer: { set(ref: FirebaseFirestore.DocumentReference, data: FirebaseFirestore.DocumentData): unknown },
+    submission: {
+        uid: string;
+        type: FormType;
+        submissionKey: string;
+        responses: Record<string, unknown>;
+    },
+    sinks: OutboxSink[] = OUTBOX_SINKS
+): string[] {
+    const { uid, type, submissionKey, responses } = submission;
+    const fieldSet = resolveFieldSet(type, responses);
+    const now = new Date().toISOString();
+    const payloads: [OutboxSink, Record<string, unknown>][] = [];
+
+    if (sinks.includes("google_forms") && isGoogleFormsExportEnabled()) {
+        const publishedFormId = type === "attendee"
+            ? process.env.ATTENDEE_FORM_PUBLISHED_ID
+            : process.env.GOOGLE_FORM_PUBLISHED_ID;
+
+        if (!publishedFormId) {
+            // Only a warning when the export is an optional copy
+            if (getFormEngine() === "native") {
+                logger.warn("Google Forms export skipped: published form ID not configured", { type });
+            } else {
+                logger.error("Google Forms export skipped: published form ID not configured", { type });
+            }
+        } else {
+            // Native payloads are keyed by field name, Google Forms needs entry IDs
+            payloads.push(["google_forms", {
+                publishedFormId,
+                responses: fieldSet ? toEntryIdResponses(fieldSet, responses) : responses,
+            }]);
+        }
+    }
+
+    // The Sheets sync reads the saved application, so the entry needs no payload
+    if (sinks.includes("google_sheets") && getSubmissionsSheetId() && fieldSet) {
+        payloads.push(["google_sheets", {}]);
+    }
+
+    return payloads.map(([sink, payload]) => {
+        const id = getOutboxEntryId(uid, submissionKey, sink);
+        const entry: OutboxDocument = {
+            sink,
+            uid,
+            type,
+            status: "pending",
+            attempts: 0,
+            lastError: null,
+            nextAttemptAt: now,
+            createdAt: now,
+            deliveredAt: null,
+            payload,
+        };
+        writer.set(adminDb.collection(OUTBOX_COLLECTION).doc(id), {
+            ...entry,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return id;
+    });
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+async function deliver(entry: OutboxEntry & { payload: Record<string, unknown> }): Promise<void> {
+    const { payload } = entry;
+    switch (entry.sink) {
+        case "google_forms": {
+            const result = await exportToGoogleForms(
+                payload.publishedFormId as string,
+                payload.responses as Record<string, unknown>
+            );
+            if (!result.ok) {
+                throw new Error(`Google Forms responded with ${result.status}${result.error ? `: ${result.error.slice(0, 200)}` : ""}`);
+            }
+            return;
+        }
+        case "google_sheets":
+            await syncApplicationRows(adminDb, entry.type, [entry.uid]);
+            return;
+    }
+}
+
+type ClaimedEntry = OutboxEntry & { payload: Record<string, unknown>; lease: string };
+
+// Take an entry that is due (or whose lease expired) so no other worker delivers it twice
+async function claimEntry(id: string): Promise<ClaimedEntry | null> {
+    const ref = adminDb.collection(OUTBOX_COLLECTION).doc(id);
+
+    return adminDb.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        if (!doc.exists) return null;
+
+        const data = doc.data()!;
+        const due = data.nextAttemptAt && Date.parse(data.nextAttemptAt) <= Date.now();
+        if (!due || (data.status !== "pending" && data.status !== "processing")) return null;
+
+        const lease = new Date(Date.now() + LEASE_MS).toISOString();
+        tx.update(ref, {
+            status: "processing",
+            nextAttemptAt: lease,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return { ...toEntry(id, data), payload: data.payload || {}, lease };
+    });
+}
+
+// Record the outcome of a delivery, unless the lease ran out and another worker took the entry
+async function settleEntry(entry: ClaimedEntry, update: Record<string, unknown>): Promise<boolean> {
+    const ref = adminDb.collection(OUTBOX_COLLECTION).doc(entry.id);
+
+    return adminDb.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        const data = doc.data();
+        if (data?.status !== "processing" || data.nextAttemptAt !== entry.lease) return false;
+
+        tx.update(ref, { ...update, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+        return true;
+    });
+}
+
+/**
+ * Attempt one delivery. Returns the entry's new status, or null when the
+ * entry was not due (already delivered, dead, backing off or being processed)
+ * or its lease ran out before the outcome could be recorded.
+ */
+export async function processOutboxEntry(id: string): Promise<OutboxStatus | null> {
+    const entry = await claimEntry(id);
+    if (!entry) return null;
+
+    const attempts = entry.attempts + 1;
+
+    try {
+        await deliver(entry);
+    } catch (error) {
+        const status: OutboxStatus = attempts >= MAX_ATTEMPTS ? "dead" : "pending";
+        const settled = await settleEntry(entry, {
+            status,
+            attempts,
+            lastError: error instanceof Error ? error.message : String(error),
+            nextAttemptAt: status === "dead" ? null : new Date(Date.now() + getBackoffMs(attempts)).toISOString(),
+        });
+        logger.error("Outbox delivery failed", { id, sink: entry.sink, attempts, status, settled, error });
+        return settled ? status : null;
+    }
+
+    const settled = await settleEntry(entry, {
+        status: "delivered",
+        attempts,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date().toISOString(),
+    });
+    if (!settled) {
+        logger.warn("Outbox entry delivered after its lease ran out", { id, sink: entry.sink, attempts });
+        return null;
+    }
+    logger.info("Outbox entry delivered", { id, sink: entry.sink, attempts });
+    return "delivered";
+}
+
+/**
+ * Attempt specific entries right away (after a submission). Failures are
+ * already recorded on the entries, so this never throws.
+ */
+export async function processOutboxEntries(ids: string[]): Promise<void> {
+    for (const id of ids) {
+        try {
+            await processOutboxEntry(id);
+        } catch (error) {
+            logger.error("Outbox entry could not be processed", { id, error });
+        }
+    }
+}
+
+/**
+ * Deliver every entry that is due, oldest first
+ */
+export async function drainOutbox(limit = 25): Promise<DrainResult> {
+    const snapshot = await adminDb
+        .collection(OUTBOX_COLLECTION)
+        .where("nextAttemptAt", "<=", new Date().toISOString())
+        .orderBy("nextAttemptAt")
+        .limit(limit)
+        .get();
+
+    const result: DrainResult = { processed: 0, delivered: 0, retrying: 0, dead: 0 };
+
+    // Sequential on purpose: the sinks are rate limited and drains are small
+    for (const doc of snapshot.docs) {
+        const status = await processOutboxEntry(doc.id);
+        if (!status) continue;
+
+        result.processed++;
+        if (status === "delivered") result.delivered++;
+        else if (status === "dead") result.dead++;
+        else result.retrying++;
+    }
+
+    return result;
+}
+
+/**
+ * Give a dead entry a fresh set of attempts
+ */
+export async function requeueOutboxEntry(id: string): Promise<boolean> {
+    const ref = adminDb.collection(OUTBOX_COLLECTION).doc(id);
+    const doc = await ref.get();
+    if (!doc.exists || doc.data()?.status !== "dead") return false;
+
+    await ref.update({
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: new Date().toISOString(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+
+/**
+ * Entry counts per status plus the entries that are failing, for the admin dashboard
+ */
+export async function getOutboxStatus(limit = 20): Promise<{
+    counts: Record<OutboxStatus, number>;
+    failing: OutboxEntry[];
+}> {
+    const collection = adminDb.collection(OUTBOX_COLLECTION);
+
+    const [countSnapshots, failingSnapshot] = await Promise.all([
+        Promise.all(OUTBOX_STATUSES.map(status => collection.where("status", "==", status).count().get())),
+        collection.where("status", "in", ["pending", "processing", "dead"]).limit(limit * 2).get(),
+    ]);
+
+    const counts = Object.fromEntries(
+        OUTBOX_STATUSES.map((status, index) => [status, countSnapshots[index].data().count])
+    ) as Record<OutboxStatus, number>;
+
+    const failing = failingSnapshot.docs
+        .map(doc => toEntry(doc.id, doc.data()))
+        .filter(entry => entry.lastError)
+        .slice(0, limit);
+
+    return { counts, failing };
+}
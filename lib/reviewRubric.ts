@@ -0,0 +1,98 @@
+/**
+ * Application review rubric
+ *
+ * Each competitor track is scored on its own criteria, 1 (weak) to 5
+ * (outstanding). Reviews are stored per admin (lib/reviews.ts) and summarized
+ * here: the average per criterion and overall, and how far reviewers disagree.
+ */
+
+export type ReviewTrack = "medicine" | "engineering";
+
+export interface RubricCriterion {
+    id: string;
+    label: string;
+    description: string;
+}
+
+export const SCORE_MIN = 1;
+export const SCORE_MAX = 5;
+
+export const RUBRICS: Record<ReviewTrack, RubricCriterion[]> = {
+    medicine: [
+        { id: "clinicalLogic", label: "Clinical logic", description: "Sound reasoning about the clinical problem and its constraints" },
+        { id: "technicalDepth", label: "Technical depth", description: "Understanding of how technology could address the problem" },
+        { id: "enthusiasm", label: "Enthusiasm", description: "Motivation for the event and for building something" },
+        { id: "collaboration", label: "Collaboration", description: "Evidence of working well with people from other fields" },
+    ],
+    engineering: [
+        { id: "skills", label: "Skills", description: "Relevant technical toolkit for the domains" },
+        { id: "proofOfWork", label: "Proof of work", description: "Projects and experience that show they can build" },
+        { id: "scenario", label: "Scenario", description: "Quality of the approach to the hospital scenario" },
+    ],
+};
+
+// A criterion whose scores span this many points or more counts as a disagreement
+export const DISAGREEMENT_SPREAD = 2;
+
+export interface ReviewScores {
+    scores: Record<string, number>;
+}
+
+export interface ReviewSummary {
+    count: number;
+    // Mean of each review's average score; null without reviews
+    average: number | null;
+    criteria: Record<string, number>;
+    // Largest spread (max - min) between reviewers on any criterion
+    disagreement: number;
+}
+
+/**
+ * Problems with a set of scores for a track (missing, unknown or out of range)
+ */
+export function validateScores(track: ReviewTrack, scores: Record<string, number>): string[] {
+    const problems: string[] = [];
+    const ids = new Set(RUBRICS[track].map(criterion => criterion.id));
+
+    for (const criterion of RUBRICS[track]) {
+        const score = scores[criterion.id];
+        if (score === undefined) problems.push(`${criterion.label} is not scored`);
+        else if (!Number.isInteger(score) || score < SCORE_MIN || score > SCORE_MAX) {
+            problems.push(`${criterion.label} must be a whole number from ${SCORE_MIN} to ${SCORE_MAX}`);
+        }
+    }
+    for (const id of Object.keys(scores)) {
+        if (!ids.has(id)) problems.push(`Unknown criterion "${id}"`);
+    }
+
+    return problems;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+export function summarizeReviews(track: ReviewTrack, reviews: ReviewScores[]): ReviewSummary {
+    const criteria: Record<string, number> = {};
+    let disagreement = 0;
+
+    for (const { id } of RUBRICS[track]) {
+        const scores = reviews.map(review => review.scores[id]).filter(score => typeof score === "number");
+        if (scores.length === 0) continue;
+
+        criteria[id] = round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+        disagreement = Math.max(disagreement, Math.max(...scores) - Math.min(...scores));
+    }
+
+    const averages = reviews.map(review => {
+        const scores = RUBRICS[track].map(({ id }) => review.scores[id]).filter(score => typeof score === "number");
+        return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+    }).filter((average): average is number => average !== null);
+
+    return {
+        count: reviews.length,
+        average: averages.length > 0 ? round(averages.reduce((sum, average) => sum + average, 0) / averages.length) : null,
+        criteria,
+        disagreement,
+    };
+}
@@ -0,0 +1,144 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { resolveFieldSet } from "@/lib/formFields";
+import { summarizeReviews, validateScores, type ReviewSummary, type ReviewTrack } from "@/lib/reviewRubric";
+
+/**
+ * Reviewer scores on competitor applications (rubric: lib/reviewRubric.ts).
+ *
+ * competitors/{uid}/reviews/{reviewerUid} -> { reviewerEmail, track, scores, comment, createdAt, updatedAt }
+ * competitors/{uid}.reviewSummary -> ReviewSummary + { reviewerUids, updatedAt }
+ *
+ * One review per admin and competitor; submitting again replaces it. The
+ * summary is rewritten with every review so the dashboard can show averages
+ * and disagreement without reading the subcollection. Accepting or rejecting
+ * a competitor needs getRequiredReviews() reviews.
+ */
+
+const COMPETITORS_COLLECTION = "competitors";
+const REVIEWS_COLLECTION = "reviews";
+const AUDIT_COLLECTION = "admin_audit_logs";
+const DEFAULT_REQUIRED_REVIEWS = 2;
+
+export interface Review {
+    reviewerUid: string;
+    reviewerEmail: string;
+    scores: Record<string, number>;
+    comment: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface StoredReviewSummary extends ReviewSummary {
+    // Admins who have reviewed, for blind review (lib/blindReview.ts)
+    reviewerUids: string[];
+    updatedAt: string;
+}
+
+export type SubmitReviewResult =
+    | { ok: true; summary: StoredReviewSummary }
+    | { ok: false; reason: "not_found" | "unknown_track" }
+    | { ok: false; reason: "invalid_scores"; problems: string[] };
+
+/**
+ * Reviews a competitor needs before they can be accepted or rejected
+ * (REQUIRED_REVIEWS, default 2; 0 turns the rule off)
+ */
+export function getRequiredReviews(): number {
+    const required = Number(process.env.REQUIRED_REVIEWS);
+    return Number.isInteger(required) && required >= 0 ? required : DEFAULT_REQUIRED_REVIEWS;
+}
+
+export function getReviewTrack(data: Record<string, unknown>): ReviewTrack | null {
+    const fieldSet = resolveFieldSet("competitor", data);
+    return fieldSet === "medicine" || fieldSet === "engineering" ? fieldSet : null;
+}
+
+/**
+ * Whether a competitor document has enough reviews for a decision
+ */
+export function hasRequiredReviews(data: Record<string, unknown>): boolean {
+    const summary = data.reviewSummary as StoredReviewSummary | undefined;
+    return (summary?.count ?? 0) >= getRequiredReviews();
+}
+
+function toReview(doc: admin.firestore.DocumentSnapshot): Review {
+    const data = doc.data()!;
+    return {
+        reviewerUid: doc.id,
+        reviewerEmail: data.reviewerEmail || "",
+        scores: data.scores || {},
+        comment: data.comment || "",
+        createdAt: data.createdAt || "",
+        updatedAt: data.updatedAt || "",
+    };
+}
+
+export async function listReviews(competitorId: string): Promise<Review[]> {
+    const snapshot = await adminDb
+        .collection(COMPETITORS_COLLECTION)
+        .doc(competitorId)
+        .collection(REVIEWS_COLLECTION)
+        .orderBy("createdAt")
+        .get();
+    return snapshot.docs.map(toReview);
+}
+
+/**
+ * Save the reviewer's scores and comment and refresh the competitor's summary
+ */
+export async function submitReview(
+    competitorId: string,
+    reviewer: { uid: string; email: string },
+    review: { scores: Record<string, number>; comment: string },
+    metadata: Record<string, string>
+): Promise<SubmitReviewResult> {
+    const competitorRef = adminDb.collection(COMPETITORS_COLLECTION).doc(competitorId);
+    const reviewsRef = competitorRef.collection(REVIEWS_COLLECTION);
+
+    return adminDb.runTransaction(async (tx) => {
+        const [competitorDoc, reviewsSnapshot] = await Promise.all([tx.get(competitorRef), tx.get(reviewsRef)]);
+        if (!competitorDoc.exists) return { ok: false, reason: "not_found" } as const;
+
+        const track = getReviewTrack(competitorDoc.data()!);
+        if (!track) return { ok: false, reason: "unknown_track" } as const;
+
+        const problems = validateScores(track, review.scores);
+        if (problems.length > 0) return { ok: false, reason: "invalid_scores", problems } as const;
+
+        const now = new Date().toISOString();
+        const previous = reviewsSnapshot.docs.find(doc => doc.id === reviewer.uid);
+        const others = reviewsSnapshot.docs.filter(doc => doc.id !== reviewer.uid).map(toReview);
+
+        tx.set(reviewsRef.doc(reviewer.uid), {
+            reviewerEmail: reviewer.email,
+            track,
+            scores: review.scores,
+            comment: review.comment,
+            createdAt: previous?.data().createdAt || now,
+            updatedAt: now,
+        });
+
+        const summary: StoredReviewSummary = {
+            ...summarizeReviews(track, [...others, { scores: review.scores }]),
+            reviewerUids: [...others.map(other => other.reviewerUid), reviewer.uid],
+            updatedAt: now,
+        };
+        tx.update(competitorRef, { reviewSummary: summary });
+
+        tx.create(adminDb.collection(AUDIT_COLLECTION).doc(), {
+            action: previous ? "update_review" : "submit_review",
+            adminUid: reviewer.uid,
+            adminEmail: reviewer.email,
+            targetCollection: COMPETITORS_COLLECTION,
+            targetUid: competitorId,
+            scores: review.scores,
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+            timestampISO: now,
+            metadata,
+        });
+
+        return { ok: true, summary } as const;
+    });
+}
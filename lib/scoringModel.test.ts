@@ -0,0 +1,79 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { BUNDLED_SCORING_MODEL, getOptionCoverage, type ScoringModel } from "./scoringModel";
+import { BUNDLED_FORM_DEFINITIONS, flattenFormDefinition } from "./formDefinition";
+import { normalizeForm, parsePublicEntryIds } from "./google-forms";
+import { createFileFormSource } from "./formSource";
+import { getEntryId } from "./formFields";
+import type { FormQuestion } from "./formTypes";
+
+const model: ScoringModel = {
+    version: 1,
+    weights: { skills: 1, persona: 1, project: 1, scenario: 1 },
+    skills: [
+        { option: "CAD", A: 3, B: 0, C: 0 },
+        { option: "Python", A: 0, B: 0, C: 3 },
+    ],
+    personas: [{ option: "The Builder", A: 5, B: 1, C: 1 }],
+    keywords: [],
+};
+
+function question(field: string | undefined, entryId: string, options: string[]): FormQuestion {
+    return { id: entryId, entryId, field, type: "checkbox", label: field ?? entryId, required: false, options };
+}
+
+describe("getOptionCoverage", () => {
+    test("reports form options the catalog does not weight", () => {
+        const coverage = getOptionCoverage([question("group1", "group1", ["CAD", "Soldering"])], model);
+
+        assert.deepEqual(coverage.unmapped, [{ field: "group1", option: "Soldering" }]);
+    });
+
+    test("reports catalog entries no form option uses", () => {
+        const coverage = getOptionCoverage([question("group1", "group1", ["CAD"])], model);
+
+        assert.deepEqual(coverage.unused, [
+            { catalog: "skills", option: "Python" },
+            { catalog: "personas", option: "The Builder" },
+        ]);
+    });
+
+    test("matches options regardless of case and spacing", () => {
+        const coverage = getOptionCoverage([question("workStyle", "workStyle", ["  the   builder "])], model);
+
+        assert.deepEqual(coverage.unmapped, []);
+        assert.equal(coverage.unused.some(entry => entry.catalog === "personas"), false);
+    });
+
+    test("finds Google Form questions by their entry ID", () => {
+        const coverage = getOptionCoverage([question(undefined, getEntryId("engineering", "group3"), ["Rust"])], model);
+
+        assert.deepEqual(coverage.unmapped, [{ field: "group3", option: "Rust" }]);
+    });
+
+    test("ignores questions the model does not weight", () => {
+        const coverage = getOptionCoverage([question("majorType", "majorType", ["Civil Engineering"])], model);
+
+        assert.deepEqual(coverage.unmapped, []);
+    });
+});
+
+describe("bundled scoring model", () => {
+    test("weights every option on the native competitor form", () => {
+        const { questions } = flattenFormDefinition(BUNDLED_FORM_DEFINITIONS.competitor);
+
+        assert.deepEqual(getOptionCoverage(questions, BUNDLED_SCORING_MODEL).unmapped, []);
+    });
+
+    test("weights every option on the recorded Google Form", async () => {
+        // Recorded forms in fixtures/forms (see fixtures/forms/README.md)
+        const source = createFileFormSource(path.join(__dirname, "../fixtures/forms"));
+        const form = normalizeForm(
+            await source.getForm("fixture-competitor-form"),
+            parsePublicEntryIds(await source.getViewformHtml("fixture-competitor-published"))
+        );
+
+        assert.deepEqual(getOptionCoverage(form.questions, BUNDLED_SCORING_MODEL).unmapped, []);
+    });
+});
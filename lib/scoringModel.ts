@@ -0,0 +1,149 @@
+import { z } from "zod";
+import bundledModel from "./domainScoringModel.json";
+import { getEntryId } from "./formFields";
+import type { FormQuestion } from "./formTypes";
+
+/**
+ * Domain scoring model
+ *
+ * The tunable part of lib/domainAlgorithm.ts: an option catalog binding each
+ * Technical Toolkit and Work Style option on the form to its domain weights,
+ * the keywords scored in free-text answers, and how the four score
+ * components are weighted against each other.
+ *
+ * The bundled model (lib/domainScoringModel.json) seeds the version history.
+ * Admins publish newer versions from /admin/dashboard/scoring without a
+ * deploy (stored in Firestore, see lib/scoringModelStore.ts), and every
+ * recommendation records the model version it was scored with.
+ */
+
+const Weight = z.number().min(0).max(100);
+
+// An exact form option (skills, work style) and what choosing it adds to each domain
+export const OptionWeight = z.strictObject({
+    option: z.string().trim().min(1, "option is required"),
+    A: Weight,
+    B: Weight,
+    C: Weight,
+});
+export type OptionWeight = z.infer<typeof OptionWeight>;
+
+// A free-text keyword and what it adds to each domain.
+// Words, phrases and "prefix*" terms, see lib/textMatcher.ts for how they match.
+export const KeywordWeight = z.strictObject({
+    match: z
+        .string()
+        .trim()
+        .regex(/^[a-z0-9]+\*?(\s+[a-z0-9]+\*?)*$/i, "match must be letters and digits, with an optional trailing * per word"),
+    A: Weight,
+    B: Weight,
+    C: Weight,
+});
+export type KeywordWeight = z.infer<typeof KeywordWeight>;
+
+/**
+ * Options are compared ignoring case and repeated whitespace, nothing looser:
+ * an option that is not in the catalog scores nothing and shows up in the
+ * coverage report instead.
+ */
+export function normalizeOption(value: string): string {
+    return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function uniqueBy<T>(key: (entry: T) => string, label: string) {
+    return (entries: T[], ctx: z.RefinementCtx) => {
+        const seen = new Set<string>();
+        entries.forEach((entry, index) => {
+            const value = key(entry);
+            if (seen.has(value)) {
+                ctx.addIssue({ code: "custom", path: [index], message: `Duplicate ${label} "${value}"` });
+            }
+            seen.add(value);
+        });
+    };
+}
+
+const OptionCatalog = z.array(OptionWeight).superRefine(uniqueBy(entry => normalizeOption(entry.option), "option"));
+const Keywords = z.array(KeywordWeight).superRefine(uniqueBy(entry => entry.match.toLowerCase(), "keyword"));
+
+export const ScoringModelBody = z.strictObject({
+    description: z.string().max(500).optional(),
+    weights: z.strictObject({
+        skills: Weight,
+        persona: Weight,
+        project: Weight,
+        scenario: Weight,
+    }),
+    skills: OptionCatalog,    // Technical Toolkit options (group1..group4)
+    personas: OptionCatalog,  // Work Style Persona options
+    keywords: Keywords,
+});
+export type ScoringModelBody = z.infer<typeof ScoringModelBody>;
+
+export const ScoringModel = ScoringModelBody.extend({
+    version: z.number().int().min(1),
+});
+export type ScoringModel = z.infer<typeof ScoringModel>;
+
+export const BUNDLED_SCORING_MODEL: ScoringModel = ScoringModel.parse(bundledModel);
+
+// ============================================================================
+// COVERAGE
+// ============================================================================
+
+// Form fields whose options the catalog must weight
+export const WEIGHTED_OPTION_FIELDS = {
+    group1: "skills",
+    group2: "skills",
+    group3: "skills",
+    group4: "skills",
+    workStyle: "personas",
+} as const satisfies Record<string, "skills" | "personas">;
+
+type WeightedField = keyof typeof WEIGHTED_OPTION_FIELDS;
+
+export interface OptionCoverage {
+    // Options asked on the form that the catalog does not weight
+    unmapped: { field: WeightedField; option: string }[];
+    // Catalog entries no form option uses (renamed or removed options)
+    unused: { catalog: "skills" | "personas"; option: string }[];
+}
+
+// Native questions carry their field name; Google Form questions their entry ID
+function getWeightedField(question: FormQuestion): WeightedField | null {
+    for (const field of Object.keys(WEIGHTED_OPTION_FIELDS) as WeightedField[]) {
+        if (question.field === field || question.entryId === getEntryId("engineering", field)) return field;
+    }
+    return null;
+}
+
+/**
+ * Compare a form's options with the model's option catalog
+ */
+export function getOptionCoverage(questions: FormQuestion[], model: ScoringModel): OptionCoverage {
+    const catalogs = {
+        skills: new Set(model.skills.map(entry => normalizeOption(entry.option))),
+        personas: new Set(model.personas.map(entry => normalizeOption(entry.option))),
+    };
+    const asked = { skills: new Set<string>(), personas: new Set<string>() };
+    const unmapped: OptionCoverage["unmapped"] = [];
+
+    for (const question of questions) {
+        const field = getWeightedField(question);
+        if (!field) continue;
+
+        const catalog = WEIGHTED_OPTION_FIELDS[field];
+        for (const option of question.options || []) {
+            asked[catalog].add(normalizeOption(option));
+            if (!catalogs[catalog].has(normalizeOption(option))) unmapped.push({ field, option });
+        }
+    }
+
+    const unused = (["skills", "personas"] as const).flatMap(catalog =>
+        model[catalog]
+            .filter(entry => !asked[catalog].has(normalizeOption(entry.option)))
+            .map(entry => ({ catalog, option: entry.option }))
+    );
+
+    return { unmapped, unused };
+}
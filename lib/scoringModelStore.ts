@@ -0,0 +1,129 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { BUNDLED_SCORING_MODEL, ScoringModel, type ScoringModelBody } from "@/lib/scoringModel";
+
+/**
+ * Published versions of the domain scoring model.
+ *
+ * scoring_models/{version} -> ScoringModel + { createdBy, createdAt }
+ *
+ * Versions are never overwritten, so any stored recommendation can be
+ * reproduced from the model version it records. The bundled model only seeds
+ * an empty collection (as its own version, created by "bundled"); after that
+ * the newest stored version is always the active one, and changes to
+ * lib/domainScoringModel.json reach a running database by being published.
+ */
+
+const MODELS_COLLECTION = "scoring_models";
+const BUNDLED_CREATOR = "bundled";
+
+export interface ScoringModelVersion {
+    version: number;
+    description: string;
+    createdBy: string;
+    createdAt: string;
+}
+
+function toModel(data: FirebaseFirestore.DocumentData) {
+    const { createdBy, createdAt, timestamp, ...model } = data;
+    return ScoringModel.safeParse(model);
+}
+
+function toStoredModel(model: ScoringModel, createdBy: string) {
+    return {
+        ...model,
+        description: model.description ?? "",
+        createdBy,
+        createdAt: new Date().toISOString(),
+        timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    };
+}
+
+function latestVersionQuery() {
+    return adminDb.collection(MODELS_COLLECTION).orderBy("version", "desc").limit(1);
+}
+
+/**
+ * The active model: the newest stored version. Seeds the bundled model into
+ * an empty collection so every version number names exactly one model.
+ */
+export async function loadScoringModel(): Promise<ScoringModel> {
+    const snapshot = await latestVersionQuery().get();
+    if (snapshot.empty) return seedBundledModel();
+
+    const parsed = toModel(snapshot.docs[0].data());
+    if (!parsed.success) {
+        throw new Error(`Stored scoring model ${snapshot.docs[0].id} is invalid: ${parsed.error.message}`);
+    }
+    return parsed.data;
+}
+
+async function seedBundledModel(): Promise<ScoringModel> {
+    const bundled = BUNDLED_SCORING_MODEL;
+
+    return adminDb.runTransaction(async (tx) => {
+        // Another request may have seeded or published in the meantime
+        const latest = await tx.get(latestVersionQuery());
+        if (!latest.empty) {
+            const parsed = toModel(latest.docs[0].data());
+            if (!parsed.success) throw new Error(`Stored scoring model ${latest.docs[0].id} is invalid: ${parsed.error.message}`);
+            return parsed.data;
+        }
+
+        tx.create(adminDb.collection(MODELS_COLLECTION).doc(String(bundled.version)), toStoredModel(bundled, BUNDLED_CREATOR));
+        return bundled;
+    });
+}
+
+/**
+ * A specific model version (to reproduce an older recommendation)
+ */
+export async function getScoringModel(version: number): Promise<ScoringModel | null> {
+    const doc = await adminDb.collection(MODELS_COLLECTION).doc(String(version)).get();
+    if (!doc.exists) return version === BUNDLED_SCORING_MODEL.version ? BUNDLED_SCORING_MODEL : null;
+
+    const parsed = toModel(doc.data()!);
+    return parsed.success ? parsed.data : null;
+}
+
+export async function listScoringModelVersions(limit = 20): Promise<ScoringModelVersion[]> {
+    const snapshot = await adminDb
+        .collection(MODELS_COLLECTION)
+        .orderBy("version", "desc")
+        .limit(limit)
+        .get();
+
+    return snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+            version: data.version,
+            description: data.description || "",
+            createdBy: data.createdBy || "",
+            createdAt: data.createdAt || "",
+        };
+    });
+}
+
+/**
+ * Publish a model as the next version. Returns the version it was stored as.
+ */
+export async function publishScoringModel(body: ScoringModelBody, createdBy: string): Promise<number> {
+    const collection = adminDb.collection(MODELS_COLLECTION);
+    const bundled = BUNDLED_SCORING_MODEL;
+
+    return adminDb.runTransaction(async (tx) => {
+        const latest = await tx.get(latestVersionQuery());
+
+        // The bundled model stays on record as the version it was before this one
+        if (latest.empty) {
+            tx.create(collection.doc(String(bundled.version)), toStoredModel(bundled, BUNDLED_CREATOR));
+        }
+        const latestVersion: number = latest.empty ? bundled.version : latest.docs[0].data().version;
+        const version = latestVersion + 1;
+
+        tx.create(collection.doc(String(version)), toStoredModel({ ...body, version }, createdBy));
+
+        return version;
+    });
+}
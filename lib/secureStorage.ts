@@ -102,8 +102,8 @@ const isStorageAvailable = () => {
   }
 };
 
-// Store form data securely
-export async function storeFormData(payload: any, formType: string): Promise<boolean> {
+// Store form data securely, with the idempotency key its submission will use
+export async function storeFormData(payload: any, formType: string, submissionKey: string): Promise<boolean> {
   try {
     const storage = getEffectiveStorage();
 
@@ -145,6 +145,7 @@ export async function storeFormData(payload: any, formType: string): Promise<boo
         // Store
         storage.setItem('pendingFormSubmission', JSON.stringify(storedData));
         storage.setItem('pendingFormType', formType);
+        storage.setItem('pendingSubmissionKey', submissionKey);
 
         console.log("Form data stored securely (V2 Encrypted). Type:", formType);
         return true;
@@ -169,6 +170,7 @@ export async function storeFormData(payload: any, formType: string): Promise<boo
 
     storage.setItem('pendingFormSubmission', JSON.stringify(storedData));
     storage.setItem('pendingFormType', formType);
+    storage.setItem('pendingSubmissionKey', submissionKey);
     console.log("Form data stored with checksum (V1 Fallback). Type:", formType);
     return true;
 
@@ -179,7 +181,7 @@ export async function storeFormData(payload: any, formType: string): Promise<boo
 }
 
 // Retrieve and verify form data
-export async function retrieveFormData(): Promise<{ payload: any; formType: string } | null> {
+export async function retrieveFormData(): Promise<{ payload: any; formType: string; submissionKey: string | null } | null> {
   const storage = getEffectiveStorage();
 
   // Storage availability check
@@ -191,6 +193,7 @@ export async function retrieveFormData(): Promise<{ payload: any; formType: stri
   try {
     const storedStr = storage.getItem('pendingFormSubmission');
     const formType = storage.getItem('pendingFormType');
+    const submissionKey = storage.getItem('pendingSubmissionKey');
 
     if (!storedStr || !formType) {
       return null;
@@ -230,7 +233,7 @@ export async function retrieveFormData(): Promise<{ payload: any; formType: stri
           }
 
           console.log('Form data decrypted and verified successfully (V2)');
-          return { payload, formType };
+          return { payload, formType, submissionKey };
         } catch (e) {
           console.error('Decryption failed (tampering detected or key mismatch):', e);
           clearStoredData();
@@ -267,7 +270,7 @@ export async function retrieveFormData(): Promise<{ payload: any; formType: stri
       }
 
       console.log('Form data verified successfully (V1 Checksum)');
-      return { payload, formType };
+      return { payload, formType, submissionKey };
     }
 
     // Unknown version
@@ -289,6 +292,7 @@ export function clearStoredData(): void {
     if (storage) {
       storage.removeItem('pendingFormSubmission');
       storage.removeItem('pendingFormType');
+      storage.removeItem('pendingSubmissionKey');
       console.log('Stored form data cleared');
     }
   } catch (error) {
@@ -0,0 +1,407 @@
+import { google, type sheets_v4 } from "googleapis";
+import { Timestamp } from "firebase-admin/firestore";
+import {
+    FORM_TYPE_FIELD_SETS,
+    getFieldSpecs,
+    resolveFieldSet,
+    type FieldSet,
+    type FormType,
+} from "./formFields";
+
+/**
+ * Google Sheets sync
+ *
+ * Mirrors submitted applications (Firestore competitors/attendees) into
+ * SUBMISSIONS_SHEET_ID, one tab per track and one row per applicant keyed by UID:
+ *
+ *   Engineering | Medicine | Attendees
+ *
+ * Columns come from the field registry. When the registry changes, a tab's
+ * header is migrated in place: existing rows are remapped by header name, new
+ * columns are added and retired ones move to the end instead of being dropped.
+ *
+ * sync_state/sheets -> { lastSyncedAt } cursor for incremental passes
+ *
+ * Takes the Firestore instance as an argument so it runs both from routes
+ * (lib/firebaseAdmin) and from scripts/sync-sheets.ts.
+ */
+
+const SYNC_STATE_COLLECTION = "sync_state";
+const SYNC_STATE_DOC = "sheets";
+
+// Incremental passes re-read a little before the cursor; upserts are idempotent
+const CURSOR_OVERLAP_MS = 60 * 1000;
+
+const TAB_NAMES: Record<FieldSet, string> = {
+    engineering: "Engineering",
+    medicine: "Medicine",
+    attendee: "Attendees",
+};
+
+const COLLECTIONS: Record<FormType, string> = {
+    competitor: "competitors",
+    attendee: "attendees",
+};
+
+interface SheetColumn {
+    field: string;
+    header: string;
+}
+
+// Review state shown before the answers. "Submitted At" and "User Email" keep
+// the headers the original export used.
+const META_COLUMNS: SheetColumn[] = [
+    { field: "uid", header: "UID" },
+    { field: "submittedAt", header: "Submitted At" },
+    { field: "updatedAt", header: "Updated At" },
+    { field: "email", header: "User Email" },
+    { field: "status", header: "Status" },
+    { field: "isPaid", header: "Paid" },
+    { field: "revision", header: "Revision" },
+];
+
+type Db = FirebaseFirestore.Firestore;
+type ApplicationDoc = { uid: string; data: FirebaseFirestore.DocumentData };
+
+export interface SheetsSyncResult {
+    mode: "full" | "incremental";
+    synced: Record<FieldSet, number>;
+    removed: number;
+    migratedTabs: string[];
+}
+
+export function getSubmissionsSheetId(): string | undefined {
+    return process.env.SUBMISSIONS_SHEET_ID || undefined;
+}
+
+// ============================================================================
+// ROWS
+// ============================================================================
+
+export function getSheetColumns(set: FieldSet): SheetColumn[] {
+    // The attendee form asks for an email; it is already the "User Email" column
+    const answers = getFieldSpecs(set)
+        .filter(([field]) => String(field) !== "email")
+        .map(([field, spec]) => ({ field, header: spec.label }));
+    return [...META_COLUMNS, ...answers];
+}
+
+function formatCell(value: unknown): string {
+    if (value === undefined || value === null) return "";
+    if (value instanceof Timestamp) return value.toDate().toISOString();
+    if (Array.isArray(value)) return value.join(", ");
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+}
+
+/**
+ * Row for an application in the tab's header order. Cells under headers the
+ * registry no longer knows keep their previous value.
+ */
+function buildRow(header: string[], columns: SheetColumn[], doc: ApplicationDoc, previous: string[] = []): string[] {
+    const byHeader = new Map(columns.map(column => [column.header, column.field]));
+
+    return header.map((name, index) => {
+        const field = byHeader.get(name);
+        if (!field) return previous[index] ?? "";
+        return formatCell(field === "uid" ? doc.uid : doc.data[field]);
+    });
+}
+
+/**
+ * Reorder a tab's rows to the registry's columns. Unknown columns are kept
+ * after the known ones so nothing written by hand is lost.
+ */
+export function migrateTable(rows: string[][], columns: SheetColumn[]): {
+    header: string[];
+    rows: string[][];
+    changed: boolean;
+} {
+    const [current = [], ...data] = rows;
+    const wanted = columns.map(column => column.header);
+    const retired = current.filter(name => name && !wanted.includes(name));
+    const header = [...wanted, ...retired];
+
+    const changed = header.length !== current.length || header.some((name, index) => current[index] !== name);
+    if (!changed) return { header, rows: data, changed };
+
+    const positions = header.map(name => current.indexOf(name));
+    return {
+        header,
+        rows: data.map(row => positions.map(position => (position === -1 ? "" : row[position] ?? ""))),
+        changed,
+    };
+}
+
+// ============================================================================
+// SHEETS
+// ============================================================================
+
+function getSheetsClient(): sheets_v4.Sheets {
+    const auth = new google.auth.GoogleAuth({
+        credentials: {
+            client_email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
+            private_key: process.env.GOOGLE_SERVICE_ACCOUNT_KEY?.replace(/\\n/g, "\n"),
+        },
+        scopes: ["https://www.googleapis.com/auth/spreadsheets"],
+    });
+
+    return google.sheets({ version: "v4", auth });
+}
+
+const tabRange = (title: string, range = "A:ZZ") => `'${title.replace(/'/g, "''")}'!${range}`;
+
+class SheetTab {
+    constructor(
+        private sheets: sheets_v4.Sheets,
+        private spreadsheetId: string,
+        readonly title: string,
+        private sheetId: number
+    ) {}
+
+    static async open(sheets: sheets_v4.Sheets, spreadsheetId: string, title: string): Promise<SheetTab> {
+        const spreadsheet = await sheets.spreadsheets.get({
+            spreadsheetId,
+            fields: "sheets.properties(sheetId,title)",
+        });
+        const existing = spreadsheet.data.sheets?.find(sheet => sheet.properties?.title === title);
+        if (existing?.properties?.sheetId != null) {
+            return new SheetTab(sheets, spreadsheetId, title, existing.properties.sheetId);
+        }
+
+        const created = await sheets.spreadsheets.batchUpdate({
+            spreadsheetId,
+            requestBody: { requests: [{ addSheet: { properties: { title } } }] },
+        });
+        const sheetId = created.data.replies?.[0]?.addSheet?.properties?.sheetId;
+        if (sheetId == null) throw new Error(`Could not create sheet tab "${title}"`);
+        return new SheetTab(sheets, spreadsheetId, title, sheetId);
+    }
+
+    async read(): Promise<string[][]> {
+        const res = await this.sheets.spreadsheets.values.get({
+            spreadsheetId: this.spreadsheetId,
+            range: tabRange(this.title),
+        });
+        return (res.data.values || []).map(row => row.map(cell => String(cell ?? "")));
+    }
+
+    // RAW input throughout: answers starting with "=" must not become formulas
+    async replace(rows: string[][]): Promise<void> {
+        await this.sheets.spreadsheets.values.clear({
+            spreadsheetId: this.spreadsheetId,
+            range: tabRange(this.title),
+        });
+        await this.sheets.spreadsheets.values.update({
+            spreadsheetId: this.spreadsheetId,
+            range: tabRange(this.title, "A1"),
+            valueInputOption: "RAW",
+            requestBody: { values: rows },
+        });
+    }
+
+    async updateRows(updates: { rowNumber: number; values: string[] }[]): Promise<void> {
+        if (updates.length === 0) return;
+        await this.sheets.spreadsheets.values.batchUpdate({
+            spreadsheetId: this.spreadsheetId,
+            requestBody: {
+                valueInputOption: "RAW",
+                data: updates.map(({ rowNumber, values }) => ({
+                    range: tabRange(this.title, `A${rowNumber}`),
+                    values: [values],
+                })),
+            },
+        });
+    }
+
+    async appendRows(rows: string[][]): Promise<void> {
+        if (rows.length === 0) return;
+        await this.sheets.spreadsheets.values.append({
+            spreadsheetId: this.spreadsheetId,
+            range: tabRange(this.title, "A1"),
+            valueInputOption: "RAW",
+            insertDataOption: "INSERT_ROWS",
+            requestBody: { values: rows },
+        });
+    }
+
+    // rowNumbers are 1-based sheet rows
+    async deleteRows(rowNumbers: number[]): Promise<void> {
+        if (rowNumbers.length === 0) return;
+        // Bottom-up so earlier deletions do not shift the later ones
+        const requests = [...rowNumbers]
+            .sort((a, b) => b - a)
+            .map(rowNumber => ({
+                deleteDimension: {
+                    range: { sheetId: this.sheetId, dimension: "ROWS", startIndex: rowNumber - 1, endIndex: rowNumber },
+                },
+            }));
+        await this.sheets.spreadsheets.batchUpdate({
+            spreadsheetId: this.spreadsheetId,
+            requestBody: { requests },
+        });
+    }
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+// Tab of each application; competitors whose major maps to no track are skipped
+function groupByFieldSet(type: FormType, docs: ApplicationDoc[]): Map<FieldSet, ApplicationDoc[]> {
+    const groups = new Map<FieldSet, ApplicationDoc[]>(FORM_TYPE_FIELD_SETS[type].map(set => [set, []]));
+    for (const doc of docs) {
+        if (!doc.data.submitted) continue;
+        const set = resolveFieldSet(type, doc.data);
+        if (set) groups.get(set)!.push(doc);
+    }
+    return groups;
+}
+
+/**
+ * Rewrite a tab from the given applications, keeping retired columns' values
+ */
+async function rewriteTab(tab: SheetTab, set: FieldSet, docs: ApplicationDoc[]): Promise<boolean> {
+    const columns = getSheetColumns(set);
+    const table = migrateTable(await tab.read(), columns);
+    const previous = new Map(table.rows.map(row => [row[0], row]));
+
+    const rows = docs.map(doc => buildRow(table.header, columns, doc, previous.get(doc.uid)));
+    await tab.replace([table.header, ...rows]);
+    return table.changed;
+}
+
+/**
+ * Update or append the rows of the given applications. A header migration
+ * rewrites the whole tab once; otherwise only the affected rows are written.
+ */
+async function upsertRows(tab: SheetTab, set: FieldSet, docs: ApplicationDoc[]): Promise<boolean> {
+    const columns = getSheetColumns(set);
+    const table = migrateTable(await tab.read(), columns);
+    const rowIndex = new Map(table.rows.map((row, index) => [row[0], index]));
+
+    const updates: { rowNumber: number; values: string[] }[] = [];
+    const appended: string[][] = [];
+    for (const doc of docs) {
+        const index = rowIndex.get(doc.uid);
+        if (index === undefined) {
+            appended.push(buildRow(table.header, columns, doc));
+            continue;
+        }
+        table.rows[index] = buildRow(table.header, columns, doc, table.rows[index]);
+        // +2: the header is row 1 and sheet rows are 1-based
+        updates.push({ rowNumber: index + 2, values: table.rows[index] });
+    }
+
+    if (table.changed) {
+        await tab.replace([table.header, ...table.rows, ...appended]);
+    } else {
+        await tab.updateRows(updates);
+        await tab.appendRows(appended);
+    }
+    return table.changed;
+}
+
+// Remove applicants from a tab (after a major change moved them to another track)
+async function removeRows(tab: SheetTab, uids: Set<string>): Promise<number> {
+    if (uids.size === 0) return 0;
+    const [, ...rows] = await tab.read();
+    const rowNumbers = rows.flatMap((row, index) => (uids.has(row[0]) ? [index + 2] : []));
+    await tab.deleteRows(rowNumbers);
+    return rowNumbers.length;
+}
+
+async function syncGroups(
+    tabs: Map<FieldSet, SheetTab>,
+    type: FormType,
+    docs: ApplicationDoc[],
+    result: SheetsSyncResult
+): Promise<void> {
+    for (const [set, group] of groupByFieldSet(type, docs)) {
+        const tab = tabs.get(set)!;
+        const migrated = result.mode === "full"
+            ? await rewriteTab(tab, set, group)
+            : await upsertRows(tab, set, group);
+        if (migrated) result.migratedTabs.push(tab.title);
+        result.synced[set] += group.length;
+
+        if (result.mode === "incremental") {
+            const uids = new Set(group.map(doc => doc.uid));
+            for (const other of FORM_TYPE_FIELD_SETS[type]) {
+                if (other !== set) result.removed += await removeRows(tabs.get(other)!, uids);
+            }
+        }
+    }
+}
+
+async function openTabs(sheets: sheets_v4.Sheets, spreadsheetId: string): Promise<Map<FieldSet, SheetTab>> {
+    const tabs = new Map<FieldSet, SheetTab>();
+    for (const set of Object.keys(TAB_NAMES) as FieldSet[]) {
+        tabs.set(set, await SheetTab.open(sheets, spreadsheetId, TAB_NAMES[set]));
+    }
+    return tabs;
+}
+
+function emptyResult(mode: SheetsSyncResult["mode"]): SheetsSyncResult {
+    return { mode, synced: { engineering: 0, medicine: 0, attendee: 0 }, removed: 0, migratedTabs: [] };
+}
+
+/**
+ * Full backfill (every tab rewritten from Firestore, deleted applicants
+ * removed) or an incremental pass over applications updated since the last run.
+ */
+export async function syncApplicationsToSheets(
+    db: Db,
+    options: { full?: boolean } = {}
+): Promise<SheetsSyncResult> {
+    const spreadsheetId = getSubmissionsSheetId();
+    if (!spreadsheetId) throw new Error("SUBMISSIONS_SHEET_ID is not set");
+
+    const result = emptyResult(options.full ? "full" : "incremental");
+    const stateRef = db.collection(SYNC_STATE_COLLECTION).doc(SYNC_STATE_DOC);
+    const startedAt = Timestamp.now();
+
+    const cursor: Timestamp | undefined = options.full ? undefined : (await stateRef.get()).data()?.lastSyncedAt;
+    if (!options.full && !cursor) {
+        throw new Error("No previous Sheets sync found; run a full backfill first");
+    }
+
+    const tabs = await openTabs(getSheetsClient(), spreadsheetId);
+
+    for (const type of Object.keys(COLLECTIONS) as FormType[]) {
+        let query: FirebaseFirestore.Query = db.collection(COLLECTIONS[type]);
+        if (cursor) {
+            query = query.where("updatedAt", ">", Timestamp.fromMillis(cursor.toMillis() - CURSOR_OVERLAP_MS));
+        }
+
+        const snapshot = await query.get();
+        const docs = snapshot.docs.map(doc => ({ uid: doc.id, data: doc.data() }));
+        await syncGroups(tabs, type, docs, result);
+    }
+
+    await stateRef.set({
+        lastSyncedAt: startedAt,
+        lastMode: result.mode,
+        ...(options.full && { lastFullSyncAt: startedAt }),
+    }, { merge: true });
+
+    return result;
+}
+
+/**
+ * Upsert specific applicants right away (outbox deliveries after a submission
+ * or edit). Does not move the incremental cursor.
+ */
+export async function syncApplicationRows(db: Db, type: FormType, uids: string[]): Promise<SheetsSyncResult> {
+    const spreadsheetId = getSubmissionsSheetId();
+    if (!spreadsheetId) throw new Error("SUBMISSIONS_SHEET_ID is not set");
+
+    const result = emptyResult("incremental");
+    const refs = uids.map(uid => db.collection(COLLECTIONS[type]).doc(uid));
+    const snapshots = refs.length > 0 ? await db.getAll(...refs) : [];
+    const docs = snapshots.filter(doc => doc.exists).map(doc => ({ uid: doc.id, data: doc.data()! }));
+
+    const tabs = await openTabs(getSheetsClient(), spreadsheetId);
+    await syncGroups(tabs, type, docs, result);
+    return result;
+}
@@ -0,0 +1,129 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buildTeams, describeTeamIssues, getPersona, type Persona, type TeamCandidate } from "./teamBuilder";
+
+function engineer(uid: string, persona: Persona | null, university = `Uni ${uid}`, major = `Major ${uid}`): TeamCandidate {
+    return { uid, name: uid, track: "engineering", university, major, persona };
+}
+
+function clinician(uid: string, university = `Uni ${uid}`, major = `Major ${uid}`): TeamCandidate {
+    return { uid, name: uid, track: "medicine", university, major, persona: null };
+}
+
+function built(result: ReturnType<typeof buildTeams>) {
+    assert.equal(result.ok, true);
+    return result.ok ? result.teams : [];
+}
+
+function teamOf(teams: TeamCandidate[][], uid: string): number {
+    return teams.findIndex(team => team.some(member => member.uid === uid));
+}
+
+// 4 clinicians and 8 engineers (two of each persona plus two without one), all from one university
+const CANDIDATES = [
+    clinician("m1", "KU"), clinician("m2", "KU"), clinician("m3", "KU"), clinician("m4", "KU"),
+    engineer("e1", "Builder", "KU"), engineer("e2", "Builder", "KU"),
+    engineer("e3", "Architect", "KU"), engineer("e4", "Architect", "KU"),
+    engineer("e5", "Coder", "KU"), engineer("e6", "Coder", "KU"),
+    engineer("e7", null, "KU"), engineer("e8", null, "KU"),
+];
+
+describe("getPersona", () => {
+    test("reads the persona a Work Style answer starts with", () => {
+        assert.equal(getPersona("The Builder: I am happiest with my hands on hardware"), "Builder");
+        assert.equal(getPersona("  architect - systems first"), "Architect");
+        assert.equal(getPersona("Something else"), null);
+        assert.equal(getPersona(undefined), null);
+    });
+});
+
+describe("describeTeamIssues", () => {
+    test("lists missing tracks and repeated personas, universities and majors", () => {
+        const issues = describeTeamIssues([
+            engineer("e1", "Coder", "KU", "CS"),
+            engineer("e2", "Coder", " ku ", "cs"),
+        ]);
+
+        assert.deepEqual(issues, ["No clinician", "2 Coders", "2 from the same university (KU)", "2 from the same major (CS)"]);
+    });
+
+    test("is empty for a balanced team", () => {
+        assert.deepEqual(describeTeamIssues([clinician("m1"), engineer("e1", "Builder"), engineer("e2", "Coder")]), []);
+    });
+});
+
+describe("buildTeams", () => {
+    test("places every candidate once in teams whose sizes differ by at most one", () => {
+        const teams = built(buildTeams(CANDIDATES.slice(0, 11), 4));
+        const sizes = teams.map(team => team.length);
+
+        assert.equal(teams.length, 3);
+        assert.ok(Math.max(...sizes) - Math.min(...sizes) <= 1);
+        assert.deepEqual(teams.flat().map(member => member.uid).sort(), CANDIDATES.slice(0, 11).map(c => c.uid).sort());
+    });
+
+    test("gives every team a clinician when there are enough", () => {
+        const teams = built(buildTeams(CANDIDATES, 3));
+
+        assert.equal(teams.length, 4);
+        for (const team of teams) {
+            assert.equal(team.filter(member => member.track === "medicine").length, 1);
+        }
+    });
+
+    test("spreads personas across teams", () => {
+        const teams = built(buildTeams(CANDIDATES.slice(0, 10), 5));
+
+        for (const team of teams) {
+            const personas = team.map(member => member.persona).filter(Boolean);
+            assert.equal(new Set(personas).size, personas.length, JSON.stringify(personas));
+        }
+    });
+
+    test("separates members of the same university when it can", () => {
+        const teams = built(buildTeams([
+            engineer("a1", "Builder", "KU"), engineer("a2", "Coder", "KU"),
+            engineer("b1", "Builder", "AUS"), engineer("b2", "Coder", "AUS"),
+        ], 2));
+
+        for (const team of teams) {
+            assert.notEqual(team[0].university, team[1].university);
+        }
+    });
+
+    test("keeps pinned pairs together, even when that costs a preference", () => {
+        // Pinning the two clinicians together leaves the other team without one
+        const teams = built(buildTeams(CANDIDATES.slice(0, 2).concat(CANDIDATES.slice(4, 8)), 3, [["m1", "m2"]]));
+
+        assert.equal(teamOf(teams, "m1"), teamOf(teams, "m2"));
+    });
+
+    test("joins overlapping pinned pairs into one group", () => {
+        const teams = built(buildTeams(CANDIDATES, 4, [["e1", "e2"], ["e2", "m3"]]));
+
+        assert.equal(teamOf(teams, "e1"), teamOf(teams, "e2"));
+        assert.equal(teamOf(teams, "e2"), teamOf(teams, "m3"));
+    });
+
+    test("rejects a pinned group larger than a team", () => {
+        const result = buildTeams(CANDIDATES, 2, [["e1", "e2"], ["e2", "e3"]]);
+
+        assert.deepEqual(result, { ok: false, reason: "pinned_group_too_large", uids: ["e1", "e2", "e3"] });
+    });
+
+    test("ignores pairs naming someone who isn't a candidate", () => {
+        const teams = built(buildTeams(CANDIDATES, 4, [["e1", "nobody"]]));
+
+        assert.equal(teams.flat().length, CANDIDATES.length);
+    });
+
+    test("gives the same teams for any input order", () => {
+        const uids = (teams: TeamCandidate[][]) => teams.map(team => team.map(member => member.uid));
+
+        assert.deepEqual(uids(built(buildTeams([...CANDIDATES].reverse(), 4))), uids(built(buildTeams(CANDIDATES, 4))));
+    });
+
+    test("returns no teams for no candidates", () => {
+        assert.deepEqual(buildTeams([], 4), { ok: true, teams: [] });
+    });
+});
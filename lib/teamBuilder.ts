@@ -0,0 +1,212 @@
+/**
+ * Team formation
+ *
+ * Splits the competitors of one domain into teams of about `teamSize` that
+ * mix engineers and clinicians (Medicine/Healthcare competitors). Preferences,
+ * scored as penalties and reported as warnings when they can't be met:
+ *
+ * - at least one clinician per team, spread evenly
+ * - engineers with different work style personas (Builder, Architect, Coder)
+ * - members from different universities
+ * - no two members with the same major
+ *
+ * Pinned pairs always end up in the same team. Competitors are placed greedily
+ * (pinned groups, then clinicians, then engineers), then members are swapped
+ * between teams while that lowers the total penalty. Input order doesn't
+ * matter: competitors are sorted by uid, so the same input gives the same teams.
+ */
+
+export const PERSONAS = ["Builder", "Architect", "Coder"] as const;
+export type Persona = typeof PERSONAS[number];
+
+export interface TeamCandidate {
+    uid: string;
+    name: string;
+    track: "engineering" | "medicine";
+    university: string;
+    major: string;              // majorType, e.g. "Biomedical Engineering"
+    persona: Persona | null;    // Engineers only
+}
+
+export type TeamBuildResult<T extends TeamCandidate = TeamCandidate> =
+    | { ok: true; teams: T[][] }
+    | { ok: false; reason: "pinned_group_too_large"; uids: string[] };
+
+// Penalty weights: a missing clinician outweighs everything else
+const PENALTY = {
+    noClinician: 100,
+    clinicianCrowding: 4,   // Per clinician squared, so clinicians spread out
+    duplicatePersona: 10,
+    sharedUniversity: 5,
+    duplicateMajor: 8,
+};
+
+const MAX_SWAP_PASSES = 50;
+
+/**
+ * The persona a Work Style answer picks ("The Builder: I am happiest...")
+ */
+export function getPersona(workStyle: unknown): Persona | null {
+    if (typeof workStyle !== "string") return null;
+    const match = workStyle.trim().match(/^(?:the\s+)?(builder|architect|coder)\b/i);
+    if (!match) return null;
+    return PERSONAS.find(persona => persona.toLowerCase() === match[1].toLowerCase()) ?? null;
+}
+
+function normalize(value: string): string {
+    return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function duplicates(values: string[]): number {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+        if (value) counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return [...counts.values()].reduce((sum, count) => sum + count - 1, 0);
+}
+
+function teamPenalty(team: TeamCandidate[]): number {
+    if (team.length === 0) return 0;
+
+    const clinicians = team.filter(member => member.track === "medicine").length;
+    const personas = team.filter(member => member.track === "engineering" && member.persona).map(member => member.persona!);
+
+    return (clinicians === 0 ? PENALTY.noClinician : 0)
+        + clinicians * clinicians * PENALTY.clinicianCrowding
+        + duplicates(personas) * PENALTY.duplicatePersona
+        + duplicates(team.map(member => normalize(member.university))) * PENALTY.sharedUniversity
+        + duplicates(team.map(member => normalize(member.major))) * PENALTY.duplicateMajor;
+}
+
+/**
+ * What a team is missing, for admins reviewing it
+ */
+export function describeTeamIssues(team: TeamCandidate[]): string[] {
+    const issues: string[] = [];
+    const engineers = team.filter(member => member.track === "engineering");
+
+    if (!team.some(member => member.track === "medicine")) issues.push("No clinician");
+    if (engineers.length === 0) issues.push("No engineer");
+
+    for (const persona of PERSONAS) {
+        const count = engineers.filter(member => member.persona === persona).length;
+        if (count > 1) issues.push(`${count} ${persona}s`);
+    }
+
+    const check = (values: string[], label: string) => {
+        const counts = new Map<string, { value: string; count: number }>();
+        for (const value of values) {
+            if (!value.trim()) continue;
+            const entry = counts.get(normalize(value)) ?? { value: value.trim(), count: 0 };
+            entry.count++;
+            counts.set(normalize(value), entry);
+        }
+        for (const { value, count } of counts.values()) {
+            if (count > 1) issues.push(`${count} from the same ${label} (${value})`);
+        }
+    };
+    check(team.map(member => member.university), "university");
+    check(team.map(member => member.major), "major");
+
+    return issues;
+}
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+// Pinned pairs joined into groups (a pinned to b and b to c puts all three together)
+function groupPinned<T extends TeamCandidate>(candidates: T[], pinnedPairs: [string, string][]): T[][] {
+    const parent = new Map(candidates.map(candidate => [candidate.uid, candidate.uid]));
+    const find = (uid: string): string => {
+        while (parent.get(uid) !== uid) uid = parent.get(uid)!;
+        return uid;
+    };
+
+    for (const [a, b] of pinnedPairs) {
+        if (parent.has(a) && parent.has(b)) parent.set(find(a), find(b));
+    }
+
+    const groups = new Map<string, T[]>();
+    for (const candidate of candidates) {
+        const root = find(candidate.uid);
+        groups.set(root, [...(groups.get(root) ?? []), candidate]);
+    }
+    return [...groups.values()];
+}
+
+/**
+ * Form teams from the competitors of one domain. Pairs naming a competitor
+ * who isn't in `candidates` are ignored.
+ */
+export function buildTeams<T extends TeamCandidate>(
+    candidates: T[],
+    teamSize: number,
+    pinnedPairs: [string, string][] = []
+): TeamBuildResult<T> {
+    if (candidates.length === 0) return { ok: true, teams: [] };
+
+    const sorted = [...candidates].sort((a, b) => a.uid.localeCompare(b.uid));
+    const teamCount = Math.max(1, Math.ceil(sorted.length / teamSize));
+
+    // Sizes differ by at most one
+    const capacity = Array.from({ length: teamCount }, (_, i) =>
+        Math.floor(sorted.length / teamCount) + (i < sorted.length % teamCount ? 1 : 0)
+    );
+
+    const groups = groupPinned(sorted, pinnedPairs);
+    const tooLarge = groups.find(group => group.length > capacity[0]);
+    if (tooLarge) return { ok: false, reason: "pinned_group_too_large", uids: tooLarge.map(member => member.uid) };
+
+    // Hardest to place first: pinned groups, then clinicians, then engineers
+    const units = groups.sort((a, b) =>
+        b.length - a.length
+        || Number(b.some(m => m.track === "medicine")) - Number(a.some(m => m.track === "medicine"))
+    );
+
+    const teams: T[][] = Array.from({ length: teamCount }, () => []);
+    for (const unit of units) {
+        let best = -1;
+        let bestCost = Infinity;
+        teams.forEach((team, i) => {
+            if (team.length + unit.length > capacity[i]) return;
+            const cost = teamPenalty([...team, ...unit]) - teamPenalty(team);
+            if (cost < bestCost || (cost === bestCost && team.length < teams[best].length)) {
+                best = i;
+                bestCost = cost;
+            }
+        });
+        // Pinned groups can leave no team with enough room; overfill the emptiest one
+        if (best === -1) best = teams.reduce((emptiest, team, i) => (team.length < teams[emptiest].length ? i : emptiest), 0);
+        teams[best].push(...unit);
+    }
+
+    // Swap single (unpinned) members between teams while the total penalty drops
+    const pinned = new Set(groups.filter(group => group.length > 1).flat().map(member => member.uid));
+    for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+        let improved = false;
+
+        for (let i = 0; i < teams.length; i++) {
+            for (let j = i + 1; j < teams.length; j++) {
+                for (let a = 0; a < teams[i].length; a++) {
+                    for (let b = 0; b < teams[j].length; b++) {
+                        if (pinned.has(teams[i][a].uid) || pinned.has(teams[j][b].uid)) continue;
+
+                        const before = teamPenalty(teams[i]) + teamPenalty(teams[j]);
+                        const nextI = teams[i].map((member, k) => (k === a ? teams[j][b] : member));
+                        const nextJ = teams[j].map((member, k) => (k === b ? teams[i][a] : member));
+                        if (teamPenalty(nextI) + teamPenalty(nextJ) < before) {
+                            teams[i] = nextI;
+                            teams[j] = nextJ;
+                            improved = true;
+                        }
+                    }
+                }
+            }
+        }
+
+        if (!improved) break;
+    }
+
+    return { ok: true, teams };
+}
@@ -0,0 +1,277 @@
+import "server-only";
+import admin from "firebase-admin";
+import { adminDb } from "@/lib/firebaseAdmin";
+import { logger } from "@/lib/logger";
+import { getMajorsForFieldSet } from "@/lib/formFields";
+import { DomainId } from "@/lib/apiContracts";
+import { buildTeams, describeTeamIssues, getPersona, type TeamCandidate } from "@/lib/teamBuilder";
+
+/**
+ * Teams of accepted competitors, formed per domain by lib/teamBuilder.ts.
+ *
+ * teams/{teamId} -> { buildId, domain, number, name, members, memberUids, issues, published, ... }
+ * team_builds/current -> { buildId, createdBy, createdAt }
+ *
+ * Building replaces every team: the new teams are written under a new build
+ * ID, team_builds/current is switched to it once every batch has committed,
+ * and only then are the previous build's teams deleted. Readers only see the
+ * current build, so a failed build leaves the old teams in place. Teams stay
+ * hidden from competitors until an admin publishes them; after that each
+ * member sees their own team on the registration page (getPublishedTeamForMember).
+ */
+
+const TEAMS_COLLECTION = "teams";
+const BUILDS_COLLECTION = "team_builds";
+const COMPETITORS_COLLECTION = "competitors";
+const AUDIT_COLLECTION = "admin_audit_logs";
+const BATCH_SIZE = 400;
+
+export interface TeamMember extends TeamCandidate {
+    email: string;
+}
+
+export interface Team {
+    id: string;
+    domain: DomainId;
+    number: number;
+    name: string;
+    members: TeamMember[];
+    issues: string[];
+    published: boolean;
+}
+
+export type BuildTeamsResult =
+    | { ok: true; teams: number; members: number }
+    | { ok: false; reason: "unknown_pinned" | "pinned_across_domains" | "pinned_group_too_large"; emails: string[] };
+
+export type SwapResult =
+    | { ok: true }
+    | { ok: false; reason: "not_in_team" | "same_team" | "different_domains" };
+
+function toTeam(doc: admin.firestore.DocumentSnapshot): Team {
+    const data = doc.data()!;
+    return {
+        id: doc.id,
+        domain: data.domain,
+        number: data.number,
+        name: data.name,
+        members: data.members || [],
+        issues: data.issues || [],
+        published: !!data.published,
+    };
+}
+
+function currentBuildRef() {
+    return adminDb.collection(BUILDS_COLLECTION).doc("current");
+}
+
+// Teams of one build; teams saved before builds had IDs have none
+function buildTeamsQuery(buildId: string | null): admin.firestore.Query {
+    const teams = adminDb.collection(TEAMS_COLLECTION);
+    return buildId ? teams.where("buildId", "==", buildId) : teams;
+}
+
+async function getCurrentBuildId(tx?: admin.firestore.Transaction): Promise<string | null> {
+    const doc = tx ? await tx.get(currentBuildRef()) : await currentBuildRef().get();
+    return doc.exists ? doc.data()!.buildId : null;
+}
+
+/**
+ * Accepted competitors who have a domain, from both tracks
+ */
+async function loadTeamMembers(): Promise<(TeamMember & { domain: DomainId })[]> {
+    const clinicianMajors = getMajorsForFieldSet("medicine");
+    const engineerMajors = getMajorsForFieldSet("engineering");
+
+    const snapshot = await adminDb
+        .collection(COMPETITORS_COLLECTION)
+        .where("status", "==", "Accepted")
+        .get();
+
+    return snapshot.docs.flatMap(doc => {
+        const data = doc.data();
+        const domain = DomainId.safeParse(data.domain);
+        const track = clinicianMajors.includes(data.major) ? "medicine"
+            : engineerMajors.includes(data.major) ? "engineering" : null;
+        if (!domain.success || !track) return [];
+
+        return [{
+            uid: doc.id,
+            name: data.fullName || "",
+            email: (data.email || "").toLowerCase(),
+            track,
+            university: data.university || "",
+            major: data.majorType || data.major || "",
+            persona: track === "engineering" ? getPersona(data.workStyle) : null,
+            domain: domain.data,
+        } as const];
+    });
+}
+
+// ============================================================================
+// BUILD
+// ============================================================================
+
+/**
+ * Form new teams in every domain, replacing the current ones (unpublished).
+ * Pinned pairs are given as competitor emails.
+ */
+export async function buildAndSaveTeams(
+    options: { teamSize: number; pinnedPairs: [string, string][] },
+    createdBy: string
+): Promise<BuildTeamsResult> {
+    const members = await loadTeamMembers();
+    const byEmail = new Map(members.map(member => [member.email, member]));
+
+    const pairs = options.pinnedPairs.map(([a, b]) => [a.trim().toLowerCase(), b.trim().toLowerCase()] as const);
+    const unknown = [...new Set(pairs.flat().filter(email => !byEmail.has(email)))];
+    if (unknown.length > 0) return { ok: false, reason: "unknown_pinned", emails: unknown };
+
+    const acrossDomains = pairs.find(([a, b]) => byEmail.get(a)!.domain !== byEmail.get(b)!.domain);
+    if (acrossDomains) return { ok: false, reason: "pinned_across_domains", emails: [...acrossDomains] };
+
+    const pinnedUids = pairs.map(([a, b]) => [byEmail.get(a)!.uid, byEmail.get(b)!.uid] as [string, string]);
+    const now = new Date().toISOString();
+    const buildId = adminDb.collection(BUILDS_COLLECTION).doc().id;
+    const teamDocs: Record<string, unknown>[] = [];
+
+    for (const domain of DomainId.options) {
+        const inDomain = members.filter(member => member.domain === domain);
+        const result = buildTeams(inDomain, options.teamSize, pinnedUids);
+        if (!result.ok) {
+            const uids = new Set(result.uids);
+            return { ok: false, reason: result.reason, emails: inDomain.filter(m => uids.has(m.uid)).map(m => m.email) };
+        }
+
+        result.teams.forEach((team, index) => {
+            const teamMembers: TeamMember[] = team.map(({ domain: _, ...member }) => member);
+            teamDocs.push({
+                buildId,
+                domain,
+                number: index + 1,
+                name: `Team ${domain}${index + 1}`,
+                members: teamMembers,
+                memberUids: teamMembers.map(member => member.uid),
+                issues: describeTeamIssues(teamMembers),
+                published: false,
+                createdBy,
+                createdAt: now,
+                updatedAt: now,
+            });
+        });
+    }
+
+    // Write the new build, then switch to it; until the switch readers keep seeing the old teams
+    const teams = adminDb.collection(TEAMS_COLLECTION);
+    for (let i = 0; i < teamDocs.length; i += BATCH_SIZE) {
+        const batch = adminDb.batch();
+        teamDocs.slice(i, i + BATCH_SIZE).forEach(team => batch.create(teams.doc(), team));
+        await batch.commit();
+    }
+
+    const previousBuildId = await adminDb.runTransaction(async (tx) => {
+        const previous = await getCurrentBuildId(tx);
+        tx.set(currentBuildRef(), { buildId, createdBy, createdAt: now });
+        return previous;
+    });
+
+    // The previous build is no longer read; a failed cleanup only leaves unused documents
+    try {
+        const previous = await buildTeamsQuery(previousBuildId).select("buildId").get();
+        const stale = previous.docs.filter(doc => doc.get("buildId") === (previousBuildId ?? undefined));
+        for (let i = 0; i < stale.length; i += BATCH_SIZE) {
+            const batch = adminDb.batch();
+            stale.slice(i, i + BATCH_SIZE).forEach(doc => batch.delete(doc.ref));
+            await batch.commit();
+        }
+    } catch (error) {
+        logger.warn("Could not delete the teams of the previous build", { buildId: previousBuildId, error });
+    }
+
+    return { ok: true, teams: teamDocs.length, members: members.length };
+}
+
+// ============================================================================
+// READ / EDIT
+// ============================================================================
+
+export async function listTeams(): Promise<Team[]> {
+    const snapshot = await buildTeamsQuery(await getCurrentBuildId()).orderBy("domain").orderBy("number").get();
+    return snapshot.docs.map(toTeam);
+}
+
+/**
+ * Swap two competitors between their teams (in the same domain)
+ */
+export async function swapTeamMembers(
+    uidA: string,
+    uidB: string,
+    adminUser: { uid: string; email: string },
+    metadata: Record<string, string>
+): Promise<SwapResult> {
+    const teams = adminDb.collection(TEAMS_COLLECTION);
+
+    return adminDb.runTransaction(async (tx) => {
+        const current = buildTeamsQuery(await getCurrentBuildId(tx));
+        const [snapshotA, snapshotB] = await Promise.all([
+            tx.get(current.where("memberUids", "array-contains", uidA).limit(1)),
+            tx.get(current.where("memberUids", "array-contains", uidB).limit(1)),
+        ]);
+        if (snapshotA.empty || snapshotB.empty) return { ok: false, reason: "not_in_team" } as const;
+
+        const teamA = toTeam(snapshotA.docs[0]);
+        const teamB = toTeam(snapshotB.docs[0]);
+        if (teamA.id === teamB.id) return { ok: false, reason: "same_team" } as const;
+        if (teamA.domain !== teamB.domain) return { ok: false, reason: "different_domains" } as const;
+
+        const memberA = teamA.members.find(member => member.uid === uidA)!;
+        const memberB = teamB.members.find(member => member.uid === uidB)!;
+        const now = new Date().toISOString();
+
+        for (const [team, leaving, joining] of [[teamA, memberA, memberB], [teamB, memberB, memberA]] as const) {
+            const members = team.members.map(member => (member.uid === leaving.uid ? joining : member));
+            tx.update(teams.doc(team.id), {
+                members,
+                memberUids: members.map(member => member.uid),
+                issues: describeTeamIssues(members),
+                updatedAt: now,
+            });
+        }
+
+        tx.create(adminDb.collection(AUDIT_COLLECTION).doc(), {
+            action: "swap_team_members",
+            adminUid: adminUser.uid,
+            adminEmail: adminUser.email,
+            targetCollection: TEAMS_COLLECTION,
+            targetUid: `${teamA.id},${teamB.id}`,
+            swapped: [uidA, uidB],
+            timestamp: admin.firestore.FieldValue.serverTimestamp(),
+            timestampISO: now,
+            metadata,
+        });
+
+        return { ok: true } as const;
+    });
+}
+
+/**
+ * Show (or hide) every team to its members. Returns how many teams there are.
+ */
+export async function setTeamsPublished(published: boolean): Promise<number> {
+    const snapshot = await buildTeamsQuery(await getCurrentBuildId()).select().get();
+    for (let i = 0; i < snapshot.docs.length; i += BATCH_SIZE) {
+        const batch = adminDb.batch();
+        snapshot.docs.slice(i, i + BATCH_SIZE).forEach(doc => batch.update(doc.ref, { published }));
+        await batch.commit();
+    }
+    return snapshot.size;
+}
+
+export async function getPublishedTeamForMember(uid: string): Promise<Team | null> {
+    const snapshot = await buildTeamsQuery(await getCurrentBuildId())
+        .where("memberUids", "array-contains", uid)
+        .where("published", "==", true)
+        .limit(1)
+        .get();
+    return snapshot.empty ? null : toTeam(snapshot.docs[0]);
+}
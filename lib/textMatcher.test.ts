@@ -0,0 +1,96 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { findKeywordMatches, getSnippet, stem, tokenize } from "./textMatcher";
+
+function matched(text: string, keywords: string[]): string[] {
+    return findKeywordMatches(text, keywords).map(match => match.text);
+}
+
+describe("stem", () => {
+    test("reduces inflections of a word to the same stem", () => {
+        const groups = [
+            ["sensor", "sensors"],
+            ["optimize", "optimizing", "optimized", "optimization"],
+            ["plan", "planning", "planned"],
+            ["code", "coding", "coded"],
+            ["fabricate", "fabrication", "fabricating"],
+            ["schedule", "scheduling"],
+            ["battery", "batteries"],
+        ];
+
+        for (const [word, ...forms] of groups) {
+            for (const form of forms) assert.equal(stem(form), stem(word), `${form} vs ${word}`);
+        }
+    });
+
+    test("leaves short words and -ss/-us/-is endings alone", () => {
+        assert.equal(stem("ai"), "ai");
+        assert.equal(stem("process"), "process");
+        assert.equal(stem("status"), "status");
+        assert.equal(stem("analysis"), "analysis");
+    });
+});
+
+describe("tokenize", () => {
+    test("joins contractions and counts clauses", () => {
+        const tokens = tokenize("I don't know. Maybe; yes");
+
+        assert.deepEqual(tokens.map(token => token.text), ["i", "dont", "know", "maybe", "yes"]);
+        assert.deepEqual(tokens.map(token => token.clause), [0, 0, 0, 1, 2]);
+    });
+});
+
+describe("findKeywordMatches", () => {
+    test("matches whole words only", () => {
+        assert.deepEqual(matched("We maintain the main server", ["ai"]), []);
+        assert.deepEqual(matched("Trained an AI model", ["ai"]), ["AI"]);
+    });
+
+    test("matches other inflections of a keyword", () => {
+        assert.deepEqual(matched("Wired up two Sensors and kept optimizing", ["sensor", "optimize"]), ["Sensors", "optimizing"]);
+    });
+
+    test("matches prefixes marked with *", () => {
+        assert.deepEqual(matched("Fabrication and fabricating parts", ["fabricat*"]), ["Fabrication", "fabricating"]);
+    });
+
+    test("matches phrases within one sentence", () => {
+        assert.deepEqual(matched("Mapped the supply chains", ["supply chain"]), ["supply chains"]);
+        assert.deepEqual(matched("Low on supply. Chain stores", ["supply chain"]), []);
+    });
+
+    test("returns matches in text order", () => {
+        const matches = findKeywordMatches("Python scripts for the robot", ["robot", "python"]);
+
+        assert.deepEqual(matches.map(match => match.keyword), ["python", "robot"]);
+        assert.deepEqual(matches.map(match => [match.start, match.end]), [[0, 6], [23, 28]]);
+    });
+
+    test("marks mentions after a negation in the same clause", () => {
+        const [match] = findKeywordMatches("I have never used an Arduino", ["arduino"]);
+
+        assert.equal(match.negated, true);
+        assert.equal(findKeywordMatches("I don't know CAD", ["cad"])[0].negated, true);
+    });
+
+    test("does not carry a negation across clauses or past its window", () => {
+        assert.equal(findKeywordMatches("Not yet. Arduino projects since", ["arduino"])[0].negated, false);
+        assert.equal(findKeywordMatches("No problem: I built an Arduino rover", ["arduino"])[0].negated, false);
+        assert.equal(findKeywordMatches("Never thought I would enjoy building an Arduino", ["arduino"])[0].negated, false);
+    });
+
+    test("returns nothing for empty text or keywords", () => {
+        assert.deepEqual(findKeywordMatches("", ["cad"]), []);
+        assert.deepEqual(findKeywordMatches("CAD", ["  "]), []);
+    });
+});
+
+describe("getSnippet", () => {
+    test("cuts context at word boundaries and marks truncation", () => {
+        const text = "Before that I spent a summer building a small robot arm for the lab downstairs";
+        const start = text.indexOf("robot");
+
+        assert.equal(getSnippet(text, start, start + 5, 10), "…a small robot arm for…");
+        assert.equal(getSnippet("robot arm", 0, 5), "robot arm");
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * Keyword matching for free-text answers
+ *
+ * Answers are split into word tokens and compared with keywords on word
+ * boundaries, after light stemming, so "ai" no longer matches "maintain" and
+ * "sensors" still matches "sensor". Keyword syntax:
+ *
+ *   "sensor"         one word, any inflection ("sensors", "sensing" does not)
+ *   "supply chain"   a phrase: consecutive words
+ *   "fabricat*"      a prefix ("fabricate", "fabrication", "fabricating")
+ *
+ * A match preceded by a negation in the same clause ("I have never used an
+ * Arduino") is reported as negated and does not score.
+ */
+
+export interface TextToken {
+    text: string;   // Lowercased
+    stem: string;
+    start: number;  // Offsets into the original text
+    end: number;
+    clause: number; // Index of the sentence/clause the token is in
+}
+
+export interface KeywordMatch {
+    keyword: string;
+    text: string;   // The matched words as written
+    start: number;
+    end: number;
+    negated: boolean;
+}
+
+// Negations only reach this many words ahead, and never across a clause boundary
+const NEGATION_WINDOW = 4;
+
+const NEGATIONS = new Set([
+    "no", "not", "never", "without", "none", "neither", "nor", "lack", "lacking",
+    "dont", "didnt", "doesnt", "havent", "hasnt", "hadnt", "cant", "cannot", "wont", "wasnt", "werent", "isnt", "arent",
+]);
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+/**
+ * Light suffix stripping (plurals, -ed/-ing, -ation/-tion, final -e).
+ * Keywords and answers go through the same function, so only consistency matters.
+ */
+export function stem(word: string): string {
+    let w = word.toLowerCase();
+    if (w.length <= 3) return w;
+
+    // Plurals
+    if (w.endsWith("sses")) w = w.slice(0, -2);
+    else if (w.endsWith("ies") && w.length > 4) w = w.slice(0, -3) + "y";
+    else if (w.endsWith("s") && !(w.length > 4 && /(ss|us|is)$/.test(w))) w = w.slice(0, -1);
+
+    // Nouns made from verbs
+    if (w.endsWith("ization")) w = w.slice(0, -7) + "ize";
+    else if (w.endsWith("ation") && w.length > 7) w = w.slice(0, -5) + "ate";
+    else if (w.endsWith("tion") && w.length > 8) w = w.slice(0, -3);
+
+    // -ed / -ing
+    for (const suffix of ["ing", "ed"]) {
+        const base = w.slice(0, -suffix.length);
+        if (!w.endsWith(suffix) || base.length < 3 || !/[aeiouy]/.test(base)) continue;
+
+        w = base;
+        if (/(at|bl|iz)$/.test(w)) w += "e";                        // optimiz(ing) -> optimize
+        else if (/([^aeiouslz])\1$/.test(w)) w = w.slice(0, -1);    // plann(ing) -> plan
+        else if (/^[^aeiou]*[aeiou][^aeiouwxy]$/.test(w)) w += "e"; // cod(ing) -> code
+        break;
+    }
+
+    // schedule / scheduling -> schedul
+    if (w.endsWith("e") && w.length > 4) w = w.slice(0, -1);
+
+    return w;
+}
+
+export function tokenize(text: string): TextToken[] {
+    const tokens: TextToken[] = [];
+    const pattern = /[A-Za-z0-9]+(?:['’][A-Za-z]+)?|[.!?;:\n]+/g;
+    let clause = 0;
+
+    for (const match of text.matchAll(pattern)) {
+        const raw = match[0];
+        if (/^[.!?;:\n]+$/.test(raw)) {
+            clause++;
+            continue;
+        }
+
+        // "don't" -> "dont" so negations are single tokens
+        const lower = raw.toLowerCase().replace(/['’]/g, "");
+        tokens.push({
+            text: lower,
+            stem: stem(lower),
+            start: match.index!,
+            end: match.index! + raw.length,
+            clause,
+        });
+    }
+
+    return tokens;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+type KeywordPart = { prefix: string } | { stem: string };
+
+function parseKeyword(keyword: string): KeywordPart[] {
+    return keyword
+        .toLowerCase()
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(word => (word.endsWith("*") ? { prefix: word.slice(0, -1) } : { stem: stem(word) }));
+}
+
+function matchesPart(token: TextToken, part: KeywordPart): boolean {
+    return "prefix" in part ? token.text.startsWith(part.prefix) : token.stem === part.stem;
+}
+
+function isNegated(tokens: TextToken[], index: number): boolean {
+    const { clause } = tokens[index];
+    for (let i = index - 1; i >= 0 && i >= index - NEGATION_WINDOW; i--) {
+        if (tokens[i].clause !== clause) return false;
+        if (NEGATIONS.has(tokens[i].text)) return true;
+    }
+    return false;
+}
+
+/**
+ * Every occurrence of the keywords in a text, in text order
+ */
+export function findKeywordMatches(text: string, keywords: string[]): KeywordMatch[] {
+    if (!text) return [];
+
+    const tokens = tokenize(text);
+    const matches: KeywordMatch[] = [];
+
+    for (const keyword of keywords) {
+        const parts = parseKeyword(keyword);
+        if (parts.length === 0) continue;
+
+        for (let i = 0; i + parts.length <= tokens.length; i++) {
+            if (!parts.every((part, offset) => matchesPart(tokens[i + offset], part))) continue;
+
+            const last = tokens[i + parts.length - 1];
+            // Phrases do not span sentences
+            if (last.clause !== tokens[i].clause) continue;
+
+            matches.push({
+                keyword,
+                text: text.slice(tokens[i].start, last.end),
+                start: tokens[i].start,
+                end: last.end,
+                negated: isNegated(tokens, i),
+            });
+        }
+    }
+
+    return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The match with up to `radius` characters of context on each side, cut at
+ * word boundaries, for showing a match to a reviewer
+ */
+export function getSnippet(text: string, start: number, end: number, radius = 40): string {
+    let from = Math.max(0, start - radius);
+    let to = Math.min(text.length, end + radius);
+    if (from > 0) {
+        const space = text.indexOf(" ", from);
+        from = space !== -1 && space < start ? space + 1 : start;
+    }
+    if (to < text.length) {
+        const space = text.lastIndexOf(" ", to);
+        to = space > end ? space : end;
+    }
+
+    const snippet = text.slice(from, to).replace(/\s+/g, " ").trim();
+    return `${from > 0 ? "…" : ""}${snippet}${to < text.length ? "…" : ""}`;
+}
@@ -0,0 +1,99 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { validateFormSubmission } from "./validators";
+import { BUNDLED_FORM_DEFINITIONS, flattenFormDefinition } from "./formDefinition";
+import { getEntryId, type FieldSet } from "./formFields";
+import { applyFieldRules } from "./formValidation";
+
+const nativeQuestions = applyFieldRules("competitor", flattenFormDefinition(BUNDLED_FORM_DEFINITIONS.competitor).questions);
+
+const ENGINEERING_ANSWERS = {
+    fullName: "Test Engineer",
+    university: "Khalifa University",
+    universityEmail: "test@university.edu",
+    contactNo: "+971501234567",
+    nationality: "Emirati",
+    emiratesID: "784-1234-1234567-1",
+    major: "Engineering",
+    majorType: "Mechanical Engineering",
+    year: BUNDLED_FORM_DEFINITIONS.competitor.sections
+        .find(section => section.id === "engineering_background")!.questions
+        .find(question => question.field === "year")!.options![0],
+    linkedIn: "https://linkedin.com/in/test",
+    googleDrive: "https://github.com/test",
+    workStyle: BUNDLED_FORM_DEFINITIONS.competitor.sections
+        .find(section => section.id === "engineering_persona")!.questions[0].options![0],
+    projects: "Built a line-following robot.",
+    experience: "Summer internship at a hospital.",
+    challengeAnswer: "Automate delivery with a pneumatic tube system.",
+};
+
+function byEntryId(set: FieldSet, answers: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(answers).map(([field, value]) => [getEntryId(set, field as never), value]));
+}
+
+function submit(responses: Record<string, unknown>, questions?: typeof nativeQuestions) {
+    return validateFormSubmission({ type: "competitor", idToken: "token", responses }, "competitor", questions);
+}
+
+describe("validateFormSubmission", () => {
+    test("accepts a native submission keyed by field name", () => {
+        const result = submit(ENGINEERING_ANSWERS, nativeQuestions);
+
+        assert.equal(result.success, true, JSON.stringify(result.details));
+        assert.equal(result.data.keyedBy, "field");
+        assert.equal(result.data.formData.fullName, "Test Engineer");
+    });
+
+    test("ignores entry ID keys on a native submission", () => {
+        const result = submit({
+            ...ENGINEERING_ANSWERS,
+            [getEntryId("engineering", "fullName")]: `${"<b>".repeat(5000)}x`,
+        }, nativeQuestions);
+
+        assert.equal(result.success, true);
+        assert.equal(result.data.formData.fullName, "Test Engineer");
+        assert.equal(result.data.responses[getEntryId("engineering", "fullName")], undefined);
+    });
+
+    test("ignores field name keys on a Google Forms submission", () => {
+        const result = submit({
+            ...byEntryId("engineering", { ...ENGINEERING_ANSWERS, linkedIn: "" }),
+            linkedIn: "javascript:alert(1)",
+        });
+
+        assert.equal(result.success, true, JSON.stringify(result.details));
+        assert.equal(result.data.keyedBy, "entryId");
+        assert.equal(result.data.formData.linkedIn, "");
+        assert.equal(result.data.responses.linkedIn, undefined);
+    });
+
+    test("validates the answer under the schema's own key", () => {
+        const result = submit(byEntryId("engineering", { ...ENGINEERING_ANSWERS, linkedIn: "not a link" }));
+
+        assert.equal(result.success, false);
+        assert.equal(result.code, "INVALID_FORM_DATA");
+    });
+
+    test("rejects links that aren't http(s)", () => {
+        for (const linkedIn of ["javascript:alert(1)", "data:text/html,hi", "not a link"]) {
+            const result = submit({ ...ENGINEERING_ANSWERS, linkedIn }, nativeQuestions);
+            assert.equal(result.success, false, linkedIn);
+        }
+    });
+
+    test("drops keys the schema doesn't ask for but keeps Other responses", () => {
+        const result = submit({
+            ...ENGINEERING_ANSWERS,
+            isPaid: true,
+            "workStyle.other_option_response": "Both",
+            "fullName.extra": "x",
+        }, nativeQuestions);
+
+        assert.equal(result.success, true);
+        assert.deepEqual(
+            Object.keys(result.data.responses).filter(key => !(key in ENGINEERING_ANSWERS)),
+            ["workStyle.other_option_response"]
+        );
+    });
+});
@@ -0,0 +1,65 @@
+import admin from "firebase-admin";
+import { adminDb } from "../lib/firebaseAdminForScripts";
+import { getSearchFields } from "../lib/competitorQuery";
+
+/**
+ * Add the fields the admin dashboard filters and sorts on to competitor
+ * applications saved before they existed: fullNameLower, majorTypeLower,
+ * universityLower, and submittedAt (from the older `timestamp` or the
+ * document's creation time). Safe to run again; only changed documents are written.
+ *
+ *   npm run backfill-search-fields
+ */
+
+const PAGE_SIZE = 400;
+
+async function main() {
+    let scanned = 0;
+    let updated = 0;
+    let cursor: admin.firestore.QueryDocumentSnapshot | undefined;
+
+    try {
+        while (true) {
+            let query = adminDb
+                .collection("competitors")
+                .orderBy(admin.firestore.FieldPath.documentId())
+                .limit(PAGE_SIZE);
+            if (cursor) query = query.startAfter(cursor);
+
+            const snapshot = await query.get();
+            if (snapshot.empty) break;
+
+            const batch = adminDb.batch();
+            let writes = 0;
+            for (const doc of snapshot.docs) {
+                const data = doc.data();
+                const update: Record<string, unknown> = {};
+
+                for (const [field, value] of Object.entries(getSearchFields(data))) {
+                    if (data[field] !== value) update[field] = value;
+                }
+                if (!(data.submittedAt instanceof admin.firestore.Timestamp)) {
+                    update.submittedAt = data.timestamp instanceof admin.firestore.Timestamp ? data.timestamp : doc.createTime;
+                }
+
+                if (Object.keys(update).length > 0) {
+                    batch.update(doc.ref, update);
+                    writes++;
+                }
+            }
+            if (writes > 0) await batch.commit();
+
+            scanned += snapshot.size;
+            updated += writes;
+            cursor = snapshot.docs[snapshot.docs.length - 1];
+        }
+
+        console.log(`✅ Scanned ${scanned} competitor(s), updated ${updated}`);
+        process.exit(0);
+    } catch (error: any) {
+        console.error("❌ Backfill failed:", error.message || error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,169 @@
+import { promises as fs } from "fs";
+import { toEngineerResponses } from "../lib/domainAlgorithm";
+import { BUNDLED_SCORING_MODEL, ScoringModel } from "../lib/scoringModel";
+import {
+    LabeledCase,
+    SWEEP_FACTORS,
+    calibrate,
+    sweepWeights,
+    type CalibrationReport,
+    type LabeledResponses,
+} from "../lib/domainCalibration";
+
+/**
+ * Measure how often the domain algorithm agrees with organizers.
+ *
+ *   npm run calibrate-domains -- labeled.jsonl
+ *   npm run calibrate-domains -- labeled.json --model draft-model.json --top 20 --sweep
+ *
+ * The dataset is a JSON array or JSON Lines, one case each:
+ *   { "uid": "...", "domain": "B" }                              # answers read from competitors/{uid}
+ *   { "id": "2025-17", "responses": { ... }, "domain": "A" }     # raw EngineerResponses
+ *
+ * --model scores with a scoring model JSON file (default: lib/domainScoringModel.json)
+ * --top   how many disagreements to print (default 10)
+ * --sweep also try other component weights (see SWEEP_FACTORS)
+ */
+
+const USAGE = "Usage: npm run calibrate-domains -- <dataset.json|.jsonl> [--model file.json] [--top N] [--sweep]";
+const FIRESTORE_BATCH = 100;
+
+function getFlag(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function readDataset(file: string): Promise<LabeledCase[]> {
+    const text = await fs.readFile(file, "utf8");
+    const rows: unknown[] = text.trimStart().startsWith("[")
+        ? JSON.parse(text)
+        : text.split("\n").filter(line => line.trim()).map(line => JSON.parse(line));
+
+    return rows.map((row, index) => {
+        const parsed = LabeledCase.safeParse(row);
+        if (!parsed.success) {
+            throw new Error(`Case ${index + 1}: ${parsed.error.issues.map(issue => `${issue.path.join(".") || "case"} ${issue.message}`).join("; ")}`);
+        }
+        return parsed.data;
+    });
+}
+
+/**
+ * Resolve uid cases to the answers stored on their competitor documents.
+ * Firestore is only needed (and only initialized) when the dataset has uids.
+ */
+async function resolveCases(cases: LabeledCase[]): Promise<LabeledResponses[]> {
+    const uids = cases.flatMap(entry => ("uid" in entry ? [entry.uid] : []));
+    const answers = new Map<string, Record<string, unknown>>();
+
+    if (uids.length > 0) {
+        const { adminDb } = await import("../lib/firebaseAdminForScripts");
+        for (let i = 0; i < uids.length; i += FIRESTORE_BATCH) {
+            const refs = uids.slice(i, i + FIRESTORE_BATCH).map(uid => adminDb.collection("competitors").doc(uid));
+            for (const doc of await adminDb.getAll(...refs)) {
+                if (doc.exists) answers.set(doc.id, doc.data()!);
+            }
+        }
+    }
+
+    return cases.flatMap((entry, index) => {
+        if (!("uid" in entry)) {
+            return [{ id: entry.id || `#${index + 1}`, domain: entry.domain, responses: entry.responses }];
+        }
+
+        const fields = answers.get(entry.uid);
+        if (!fields) {
+            console.warn(`⚠️  Skipping ${entry.uid}: no competitor document`);
+            return [];
+        }
+        return [{ id: entry.uid, domain: entry.domain, responses: toEngineerResponses(fields) }];
+    });
+}
+
+async function readModel(file: string | undefined): Promise<ScoringModel> {
+    if (!file) return BUNDLED_SCORING_MODEL;
+
+    const parsed = ScoringModel.safeParse(JSON.parse(await fs.readFile(file, "utf8")));
+    if (!parsed.success) {
+        throw new Error(`Invalid scoring model ${file}: ${parsed.error.issues.map(issue => `${issue.path.join(".")} ${issue.message}`).join("; ")}`);
+    }
+    return parsed.data;
+}
+
+function percent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
+
+function printReport(report: CalibrationReport, top: number) {
+    console.log(`\nAccuracy: ${percent(report.accuracy)} (${report.correct}/${report.total})`);
+
+    console.log("\nConfusion matrix (rows: organizers, columns: algorithm)");
+    console.log("         A     B     C   recall");
+    for (const label of ["A", "B", "C"] as const) {
+        const row = report.confusion[label];
+        const total = row.A + row.B + row.C;
+        const cells = [row.A, row.B, row.C].map(count => String(count).padStart(5)).join(" ");
+        console.log(`   ${label}  ${cells}   ${total > 0 ? percent(row[label] / total) : "—"}`);
+    }
+
+    // A calibrated algorithm is right more often the more confident it is
+    console.log("\nConfidence calibration");
+    for (const [level, { total, correct }] of Object.entries(report.byConfidence)) {
+        console.log(`   ${level.padEnd(7)} ${String(total).padStart(5)} case(s)   ${total > 0 ? `${percent(correct / total)} agree` : "—"}`);
+    }
+
+    if (report.disagreements.length === 0) return;
+
+    console.log(`\nMost disagreeing cases (${Math.min(top, report.disagreements.length)} of ${report.disagreements.length})`);
+    for (const entry of report.disagreements.slice(0, top)) {
+        const scores = (["A", "B", "C"] as const).map(domain => `${domain} ${entry.percentages[domain]}%`).join(" · ");
+        console.log(`   ${entry.id}: organizers ${entry.label}, algorithm ${entry.predicted} (${entry.confidence}, ${entry.margin} points apart)`);
+        console.log(`      ${scores}`);
+        console.log(`      ${entry.reasoning}`);
+    }
+}
+
+async function main() {
+    const datasetFile = process.argv[2];
+    if (!datasetFile || datasetFile.startsWith("--")) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const top = Number(getFlag("--top") ?? 10);
+    if (!Number.isInteger(top) || top < 0) {
+        console.error(`❌ --top must be a whole number\n${USAGE}`);
+        process.exit(1);
+    }
+
+    try {
+        const model = await readModel(getFlag("--model"));
+        const entries = await resolveCases(await readDataset(datasetFile));
+        if (entries.length === 0) {
+            console.error("❌ No cases to score");
+            process.exit(1);
+        }
+
+        console.log(`Scoring ${entries.length} case(s) with scoring model v${model.version}`);
+        printReport(calibrate(entries, model), top);
+
+        if (process.argv.includes("--sweep")) {
+            const results = sweepWeights(entries, model);
+            const current = results.find(result => result.changed === 0)!;
+
+            console.log(`\nWeight sweep (${results.length} combinations, factors ${SWEEP_FACTORS.join("/")} of the current weights)`);
+            console.log(`   current  skills ${model.weights.skills}, persona ${model.weights.persona}, project ${model.weights.project}, scenario ${model.weights.scenario}: ${percent(current.accuracy)}`);
+            for (const result of results.slice(0, 10)) {
+                const { skills, persona, project, scenario } = result.weights;
+                console.log(`   ${percent(result.accuracy).padStart(6)}   skills ${skills}, persona ${persona}, project ${project}, scenario ${scenario}`);
+            }
+        }
+
+        process.exit(0);
+    } catch (error: any) {
+        console.error("❌ Calibration failed:", error.message || error);
+        process.exit(1);
+    }
+}
+
+main();
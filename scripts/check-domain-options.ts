@@ -0,0 +1,65 @@
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { getPublicEntryIds, normalizeForm } from "../lib/google-forms";
+import { getFormSource } from "../lib/formSource";
+import { BUNDLED_FORM_DEFINITIONS, flattenFormDefinition } from "../lib/formDefinition";
+import { BUNDLED_SCORING_MODEL, getOptionCoverage } from "../lib/scoringModel";
+import type { FormQuestion } from "../lib/formTypes";
+
+/**
+ * Check that every Technical Toolkit and Work Style option has weights in the
+ * bundled scoring model's option catalog (lib/domainScoringModel.json).
+ * Options without weights would silently score nothing.
+ */
+function report(name: string, questions: FormQuestion[]): number {
+    const { unmapped, unused } = getOptionCoverage(questions, BUNDLED_SCORING_MODEL);
+
+    if (unmapped.length === 0) {
+        console.log(`✅ ${name}: every option is weighted`);
+    }
+    for (const { field, option } of unmapped) {
+        console.error(`  ❌ ${name}: ${field} option "${option}" has no weights`);
+    }
+    for (const { catalog, option } of unused) {
+        console.warn(`  ⚠️  ${name}: ${catalog} entry "${option}" is not an option on this form`);
+    }
+
+    return unmapped.length;
+}
+
+async function checkDomainOptions() {
+    let unmappedCount = report(
+        "native competitor form",
+        flattenFormDefinition(BUNDLED_FORM_DEFINITIONS.competitor).questions
+    );
+
+    // Same env vars as /api/forms
+    const formId = process.env.GOOGLE_FORM_ID;
+    const publishedId = process.env.GOOGLE_FORM_PUBLISHED_ID;
+    if (!formId || !publishedId) {
+        console.warn("⚠️  Skipping live competitor form: form IDs not configured");
+    } else {
+        const source = getFormSource();
+        const [entryIdMap, form] = await Promise.all([
+            getPublicEntryIds(publishedId, source),
+            source.getForm(formId),
+        ]);
+        unmappedCount += report("live competitor form", normalizeForm(form, entryIdMap).questions);
+    }
+
+    if (unmappedCount > 0) {
+        console.error(`\n❌ ${unmappedCount} option(s) without weights. Add them to lib/domainScoringModel.json`);
+        process.exit(1);
+    }
+
+    console.log(`\n✅ Scoring model v${BUNDLED_SCORING_MODEL.version} covers every option`);
+    process.exit(0);
+}
+
+checkDomainOptions().catch((error) => {
+    console.error("❌ Error:", error.message || error);
+    process.exit(1);
+});
+
+// npm run check:domain-options
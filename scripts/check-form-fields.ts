@@ -0,0 +1,108 @@
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { getPublicEntryIds } from "../lib/google-forms";
+import { getRegisteredEntryIds, type FormType } from "../lib/formFields";
+import { BUNDLED_FORM_DEFINITIONS, validateFormDefinition } from "../lib/formDefinition";
+
+// Published form IDs for each form type (same env vars as /api/forms)
+const PUBLISHED_IDS: Record<FormType, string | undefined> = {
+    competitor: process.env.GOOGLE_FORM_PUBLISHED_ID,
+    attendee: process.env.ATTENDEE_FORM_PUBLISHED_ID,
+};
+
+/**
+ * Collect every entry ID present on the live form (simple questions and grid rows)
+ */
+async function getLiveEntryIds(publishedId: string): Promise<Set<string>> {
+    const mapping = await getPublicEntryIds(publishedId);
+    const ids = new Set<string>();
+
+    for (const entries of mapping.values()) {
+        for (const entry of entries) {
+            if (typeof entry === "string") {
+                ids.add(entry);
+            } else {
+                Object.values(entry).forEach(rowId => ids.add(rowId));
+            }
+        }
+    }
+
+    return ids;
+}
+
+/**
+ * Validate the bundled native form definitions (no network needed)
+ */
+function checkFormDefinitions(): number {
+    let problemCount = 0;
+
+    for (const definition of Object.values(BUNDLED_FORM_DEFINITIONS)) {
+        const problems = validateFormDefinition(definition);
+        if (problems.length === 0) {
+            console.log(`✅ '${definition.type}' form definition v${definition.version} is valid`);
+            continue;
+        }
+        problems.forEach(problem => console.error(`❌ '${definition.type}' definition: ${problem}`));
+        problemCount += problems.length;
+    }
+
+    return problemCount;
+}
+
+async function checkFormFields() {
+    let missingCount = 0;
+    let checkedForms = 0;
+
+    const definitionProblems = checkFormDefinitions();
+    if (definitionProblems > 0) {
+        console.error(`\n❌ ${definitionProblems} problem(s) in lib/formDefinitions`);
+        process.exit(1);
+    }
+
+    for (const type of Object.keys(PUBLISHED_IDS) as FormType[]) {
+        const publishedId = PUBLISHED_IDS[type];
+        if (!publishedId) {
+            console.warn(`⚠️  Skipping '${type}' form: published ID not configured`);
+            continue;
+        }
+
+        const liveIds = await getLiveEntryIds(publishedId);
+        if (liveIds.size === 0) {
+            console.error(`❌ Could not read any entry IDs from the '${type}' form`);
+            process.exit(1);
+        }
+
+        checkedForms++;
+        console.log(`\nChecking '${type}' form (${liveIds.size} live entry IDs)`);
+
+        for (const [entryId, usages] of getRegisteredEntryIds(type)) {
+            if (liveIds.has(entryId)) {
+                console.log(`  ✅ ${entryId} -> ${usages.join(", ")}`);
+            } else {
+                console.error(`  ❌ ${entryId} -> ${usages.join(", ")} (not found on live form)`);
+                missingCount++;
+            }
+        }
+    }
+
+    if (checkedForms === 0) {
+        console.warn("\n⚠️  No forms configured, field registry was not checked");
+        process.exit(0);
+    }
+
+    if (missingCount > 0) {
+        console.error(`\n❌ ${missingCount} registered field(s) do not resolve. Update lib/formFields.ts`);
+        process.exit(1);
+    }
+
+    console.log("\n✅ All registered fields resolve");
+    process.exit(0);
+}
+
+checkFormFields().catch((error) => {
+    console.error("❌ Error:", error.message || error);
+    process.exit(1);
+});
+
+// npm run check:form-fields
@@ -1,4 +1,7 @@
 
+import { isConditionMet } from "../lib/formVisibility";
+import type { FormQuestion } from "../lib/formTypes";
+
 // Configure colors for console output
 const colors = {
     reset: "\x1b[0m",
@@ -11,14 +14,8 @@ const colors = {
     cyan: "\x1b[36m",
 };
 
-// SKIP LOGIC DEFINITION (From CustomApplicationForm.tsx)
-// "Engineering": { start: 7, end: 19 },   // Items 7-18
-// "Medicine": { start: 19, end: null },   // Items 19+
-const SKIP_LOGIC = {
-    "Engineering": { start: 7, end: 19 },
-    "Medicine": { start: 19, end: null },
-};
-const MAJOR_QUESTION_KEYWORDS = ["what major are you in", "what is your major and year of study"];
+// Answers assumed when deciding visibility (same conditions as CustomApplicationForm.tsx)
+const SIMULATED_ANSWERS = { major: "Engineering" };
 
 async function run() {
     try {
@@ -29,43 +26,18 @@ async function run() {
         if (!res.ok) throw new Error(`HTTP Error: ${res.status}`);
 
         const data = await res.json();
-        const questions = data.questions;
+        const questions: FormQuestion[] = data.questions;
 
         console.log(`${colors.green}Successfully fetched ${questions.length} total questions from API.${colors.reset}\n`);
 
         console.log(`${colors.bright}=== ENGINEERING TRACK QUESTIONS ===${colors.reset}`);
         console.log(`${colors.dim}(Simulating what the user sees and what autofill targets)${colors.reset}\n`);
 
-        // Find the "major" question index to handle visibility logic correctly
-        const majorQuestionIndex = questions.findIndex(q =>
-            MAJOR_QUESTION_KEYWORDS.some(kw => q.label.toLowerCase().includes(kw))
-        );
-
         let visibleCount = 0;
 
         questions.forEach((q, index) => {
-            // Determine visibility
-            let isVisible = false;
-            const questionNumber = index + 1; // 1-based index from source array
-
-            // Logic from CustomApplicationForm.tsx:
-            // 1. Questions up to major question are always visible
-            if (index <= majorQuestionIndex) {
-                isVisible = true;
-            }
-            // 2. Check Engineering range
-            else {
-                const range = SKIP_LOGIC["Engineering"];
-                if (range) {
-                    const afterStart = questionNumber >= range.start; // 1-based
-                    const beforeEnd = range.end === null || questionNumber < range.end;
-                    if (afterStart && beforeEnd) {
-                        isVisible = true;
-                    }
-                }
-            }
-
-            if (!isVisible) return;
+            // Determine visibility from the question's condition
+            if (!isConditionMet(q.visibleWhen, SIMULATED_ANSWERS)) return;
 
             // Skip section headers in output if not needed, but showing them helps context
             visibleCount++;
@@ -93,7 +65,7 @@ async function run() {
                     console.log(`    Options: [${q.options.map(o => `"${o}"`).join(', ')}]`);
                 }
                 if (q.rows) {
-                    console.log(`    Rows: ${q.rows.length} rows (First: ${q.rows[0].label})`);
+                    console.log(`    Rows: ${q.rows.length} rows (First: ${q.rows[0]?.label})`);
                 }
             }
             console.log('');
@@ -101,7 +73,7 @@ async function run() {
 
         console.log(`${colors.bright}Total Visible Questions for Engineering: ${visibleCount}${colors.reset}`);
 
-    } catch (error) {
+    } catch (error: any) {
         console.error(`${colors.red}Error:${colors.reset}`, error.message);
         if (error.cause) console.error(error.cause);
         console.log(`${colors.yellow}Make sure your Next.js server is running on http://localhost:3000${colors.reset}`);
@@ -0,0 +1,47 @@
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { promises as fs } from "fs";
+import { createGoogleFormSource, formFixturePath, viewformFixturePath } from "../lib/formSource";
+import { parsePublicEntryIds } from "../lib/google-forms";
+
+// Same env vars as /api/forms
+const FORMS = [
+    { type: "competitor", formId: process.env.GOOGLE_FORM_ID, publishedId: process.env.GOOGLE_FORM_PUBLISHED_ID },
+    { type: "attendee", formId: process.env.ATTENDEE_FORM_ID, publishedId: process.env.ATTENDEE_FORM_PUBLISHED_ID },
+];
+
+async function recordFixtures(dir: string) {
+    const source = createGoogleFormSource();
+    await fs.mkdir(dir, { recursive: true });
+
+    for (const { type, formId, publishedId } of FORMS) {
+        if (!formId || !publishedId) {
+            console.warn(`⚠️  Skipping '${type}' form: form IDs not configured`);
+            continue;
+        }
+
+        const html = await source.getViewformHtml(publishedId);
+        const form = await source.getForm(formId);
+
+        await fs.writeFile(viewformFixturePath(dir, publishedId), html);
+        await fs.writeFile(formFixturePath(dir, formId), JSON.stringify(form, null, 2));
+
+        // Parse the recording straight away so a broken page is caught at record time
+        const mapping = parsePublicEntryIds(html);
+        const gridCount = [...mapping.values()].flat().filter(entry => typeof entry !== "string").length;
+
+        console.log(`✅ Recorded '${type}' form: ${form.items?.length || 0} items, ${mapping.size} titles with Entry IDs (${gridCount} grids)`);
+    }
+
+    console.log(`\nFixtures written to ${dir}. Use them with FORM_SOURCE=file FORM_FIXTURES_DIR=${dir}`);
+}
+
+const dir = process.argv[2] || process.env.FORM_FIXTURES_DIR || "fixtures/forms";
+
+recordFixtures(dir).catch((error) => {
+    console.error("❌ Error:", error.message || error);
+    process.exit(1);
+});
+
+// npm run record-form-fixtures [dir]
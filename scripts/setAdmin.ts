@@ -1,11 +1,16 @@
 import { adminAuth } from '../lib/firebaseAdminForScripts';
 
-async function setAdminClaim(email: string) {
+// Chairs see applicant identities under blind review. Other claims are kept;
+// the chair claim only changes with --chair or --no-chair
+async function setAdminClaim(email: string, chair: boolean | undefined) {
     try {
         const user = await adminAuth.getUserByEmail(email);
-        await adminAuth.setCustomUserClaims(user.uid, { admin: true });
+        const claims: Record<string, unknown> = { ...user.customClaims, admin: true };
+        if (chair === true) claims.chair = true;
+        if (chair === false) delete claims.chair;
+        await adminAuth.setCustomUserClaims(user.uid, claims);
 
-        console.log(`✅ Admin claim set for ${email}`);
+        console.log(`✅ Admin claim set for ${email}${claims.chair ? ' (review chair)' : ''}`);
         console.log(`⚠️  User must sign out and sign in again`);
         process.exit(0);
     } catch (error: any) {
@@ -14,14 +19,16 @@ async function setAdminClaim(email: string) {
     }
 }
 
-const email = process.argv[2];
+const args = process.argv.slice(2);
+const email = args.find(arg => !arg.startsWith('--'));
+const chair = args.includes('--chair') ? true : args.includes('--no-chair') ? false : undefined;
 
-if (!email) {
-    console.error('❌ Provide an email!');
-    console.log('Usage: npm run set-admin <email>');
+if (!email || (args.includes('--chair') && args.includes('--no-chair'))) {
+    console.error(email ? '❌ Use either --chair or --no-chair' : '❌ Provide an email!');
+    console.log('Usage: npm run set-admin <email> [--chair | --no-chair]');
     process.exit(1);
 }
 
-setAdminClaim(email);
+setAdminClaim(email, chair);
 
-// npm run set-admin <email>
\ No newline at end of file
+// npm run set-admin <email> [--chair | --no-chair]
@@ -0,0 +1,33 @@
+import { adminDb } from "../lib/firebaseAdminForScripts";
+import { syncApplicationsToSheets } from "../lib/sheetsSync";
+
+/**
+ * Mirror Firestore applications into the SUBMISSIONS_SHEET_ID tabs.
+ *
+ *   npm run sync-sheets            # applications updated since the last run
+ *   npm run sync-sheets -- --full  # rewrite every tab (first run, deleted entries)
+ */
+async function main() {
+    const full = process.argv.includes("--full");
+
+    try {
+        const result = await syncApplicationsToSheets(adminDb, { full });
+
+        console.log(`✅ Sheets ${result.mode} sync complete`);
+        for (const [set, count] of Object.entries(result.synced)) {
+            console.log(`   ${set}: ${count} row(s)`);
+        }
+        if (result.removed > 0) {
+            console.log(`   ${result.removed} row(s) moved to another track`);
+        }
+        if (result.migratedTabs.length > 0) {
+            console.log(`⚠️  Headers migrated: ${result.migratedTabs.join(", ")}`);
+        }
+        process.exit(0);
+    } catch (error: any) {
+        console.error("❌ Sheets sync failed:", error.message);
+        process.exit(1);
+    }
+}
+
+main();